@@ -0,0 +1,58 @@
+const crypto = require('crypto');
+
+// Single-use, expiring tokens mailed to users: 'verify-email' proves they own their address,
+// 'reset-password' lets them pick a new password. Kept in the 'accountTokens' collection.
+//
+// As with invite links, a token is '<id>.<secret>' and only the SHA-256 of the secret is stored.
+// A user has at most one live token per purpose: asking for another one replaces it.
+
+const ACCOUNT_TOKEN_TTL_MS = {
+  'verify-email': 3 * 24 * 60 * 60 * 1000,
+  'reset-password': 60 * 60 * 1000
+};
+
+function hashSecret(secret) {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+// Returns the token to put in the mail
+function createAccountToken(store, purpose, username) {
+  store.list('accountTokens')
+    .filter(record => record.username === username && record.purpose === purpose)
+    .forEach(record => store.delete('accountTokens', record.id));
+
+  const secret = crypto.randomBytes(32).toString('hex');
+  const record = {
+    id: crypto.randomUUID(),
+    purpose,
+    username,
+    expiresAt: new Date(Date.now() + ACCOUNT_TOKEN_TTL_MS[purpose]).toISOString(),
+    secretHash: hashSecret(secret)
+  };
+  store.put('accountTokens', record.id, record);
+  return `${record.id}.${secret}`;
+}
+
+// Use a token up. Returns { username }, or { error } with a message for the user
+function consumeAccountToken(store, purpose, token) {
+  const dot = typeof token === 'string' ? token.indexOf('.') : -1;
+  const record = dot > 0 && store.get('accountTokens', token.slice(0, dot));
+  const secretHash = record && hashSecret(token.slice(dot + 1));
+  if (!record || record.purpose !== purpose ||
+      !crypto.timingSafeEqual(Buffer.from(secretHash, 'hex'), Buffer.from(record.secretHash, 'hex'))) {
+    return { error: 'This link is not valid' };
+  }
+  store.delete('accountTokens', record.id);
+  if (Date.parse(record.expiresAt) <= Date.now()) return { error: 'This link has expired' };
+  return { username: record.username };
+}
+
+// Drop tokens that have expired (at startup)
+function pruneAccountTokens(store) {
+  const now = Date.now();
+  store.list('accountTokens')
+    .filter(record => !(Date.parse(record.expiresAt) > now))
+    .forEach(record => store.delete('accountTokens', record.id));
+}
+
+module.exports = { createAccountToken, consumeAccountToken, pruneAccountTokens };
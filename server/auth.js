@@ -0,0 +1,209 @@
+const crypto = require('crypto');
+const { promisify } = require('util');
+
+// Passwords and login tokens for registered users.
+//
+// Passwords are stored as 'scrypt$<N>$<r>$<p>$<salt>$<hash>' (hex salt and hash), so the cost
+// parameters can be raised later without invalidating existing hashes.
+//
+// Signing in opens a session (the 'sessions' collection, keyed by session id) with two tokens, both
+// '<session id>.<secret>': a short-lived login token presented on the socket handshake, and a refresh
+// token that trades itself for a fresh pair until it expires too. Only the SHA-256 of each secret is
+// stored, so the data files never hold anything that can be presented to the server. Refresh tokens
+// are single use: presenting an old one again means it leaked, and ends the session.
+
+const scrypt = promisify(crypto.scrypt);
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_MINUTES || 60) * 60 * 1000;
+const REFRESH_TTL_MS = Number(process.env.REFRESH_TTL_DAYS || 30) * 24 * 60 * 60 * 1000;
+
+function formatHash(params, salt, hash) {
+  return ['scrypt', params.N, params.r, params.p, salt.toString('hex'), hash.toString('hex')].join('$');
+}
+
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  const hash = await scrypt(password, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  return formatHash(SCRYPT_PARAMS, salt, hash);
+}
+
+// Same as hashPassword, for the one-off migration at startup
+function hashPasswordSync(password) {
+  const salt = crypto.randomBytes(SALT_BYTES);
+  return formatHash(SCRYPT_PARAMS, salt, crypto.scryptSync(password, salt, KEY_LENGTH, SCRYPT_PARAMS));
+}
+
+async function verifyPassword(password, stored) {
+  const parts = typeof stored === 'string' ? stored.split('$') : [];
+  if (parts.length !== 6 || parts[0] !== 'scrypt') return false;
+
+  const [, N, r, p, saltHex, hashHex] = parts;
+  const expected = Buffer.from(hashHex, 'hex');
+  if (expected.length === 0) return false;
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length, {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p)
+  });
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+// Generate a secure token
+function generateToken() {
+  return crypto.randomBytes(64).toString('hex');
+}
+
+function hashToken(token) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function sameHash(a, b) {
+  return typeof a === 'string' && typeof b === 'string' && a.length === b.length &&
+    crypto.timingSafeEqual(Buffer.from(a, 'hex'), Buffer.from(b, 'hex'));
+}
+
+// '<session id>.<secret>' -> { sessionId, secret }, or null
+function parseToken(token) {
+  if (typeof token !== 'string') return null;
+  const dot = token.indexOf('.');
+  if (dot <= 0 || dot === token.length - 1) return null;
+  return { sessionId: token.slice(0, dot), secret: token.slice(dot + 1) };
+}
+
+// Give a session a new token pair (on sign-in and on every refresh).
+// Returns the credentials to hand to the client: { sessionId, token, refreshToken, expiresAt }
+function issueTokens(store, session) {
+  const secret = generateToken();
+  const refreshSecret = generateToken();
+  const now = Date.now();
+  const updated = {
+    ...session,
+    tokenHash: hashToken(secret),
+    refreshHash: hashToken(refreshSecret),
+    expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    refreshExpiresAt: new Date(now + REFRESH_TTL_MS).toISOString()
+  };
+  store.put('sessions', session.id, updated);
+  return {
+    sessionId: session.id,
+    token: `${session.id}.${secret}`,
+    refreshToken: `${session.id}.${refreshSecret}`,
+    expiresAt: updated.expiresAt
+  };
+}
+
+// Open a session for a user who just signed in
+function createSession(store, username) {
+  const session = { id: crypto.randomUUID(), username, createdAt: new Date().toISOString() };
+  return issueTokens(store, session);
+}
+
+// Check a login token. Returns { session, user }, or { error } with 'invalid-token' or 'session-expired'
+function authenticateToken(store, token) {
+  const parsed = parseToken(token);
+  const session = parsed && store.get('sessions', parsed.sessionId);
+  if (!session || !sameHash(hashToken(parsed.secret), session.tokenHash)) return { error: 'invalid-token' };
+  if (Date.parse(session.expiresAt) <= Date.now()) return { error: 'session-expired' };
+  const user = store.get('users', session.username);
+  return user ? { session, user } : { error: 'invalid-token' };
+}
+
+// Trade a refresh token for a new token pair. Returns { credentials, user }, or { error }
+function refreshSession(store, refreshToken) {
+  const parsed = parseToken(refreshToken);
+  const session = parsed && store.get('sessions', parsed.sessionId);
+  if (!session) return { error: 'invalid-token' };
+  if (!sameHash(hashToken(parsed.secret), session.refreshHash)) {
+    console.warn(`[Auth] Reused refresh token for ${session.username}; ending session ${session.id}`);
+    store.delete('sessions', session.id);
+    return { error: 'invalid-token' };
+  }
+  if (Date.parse(session.refreshExpiresAt) <= Date.now()) {
+    store.delete('sessions', session.id);
+    return { error: 'session-expired' };
+  }
+  const user = store.get('users', session.username);
+  if (!user) return { error: 'invalid-token' };
+  return { credentials: issueTokens(store, session), user };
+}
+
+function revokeSession(store, sessionId) {
+  if (sessionId) store.delete('sessions', sessionId);
+}
+
+// End every session of a user but one (keepSessionId; null ends them all), e.g. after a password change.
+// Returns the ids of the sessions that were ended
+function revokeOtherSessions(store, username, keepSessionId) {
+  const revoked = store.list('sessions')
+    .filter(session => session.username === username && session.id !== keepSessionId)
+    .map(session => session.id);
+  revoked.forEach(sessionId => store.delete('sessions', sessionId));
+  return revoked;
+}
+
+// Drop sessions that can no longer be refreshed
+function pruneSessions(store) {
+  const now = Date.now();
+  store.list('sessions')
+    .filter(session => session.id && !(Date.parse(session.refreshExpiresAt) > now))
+    .forEach(session => store.delete('sessions', session.id));
+}
+
+// Registered users keep their id for good; sockets come and go
+function newUserId() {
+  return `user_${crypto.randomUUID()}`;
+}
+
+// What other clients (and the user's own client) may see of a user record
+function publicUser(user) {
+  const { passwordHash, password, token, totp, backupCodes, ...visible } = user;
+  return { ...visible, twoFactorEnabled: !!(totp && totp.enabled) };
+}
+
+// Users registered before passwords were hashed still have them in plain text (and their last token);
+// hash the passwords and drop the tokens. Those users simply log in again.
+function migratePlaintextCredentials(store) {
+  let migrated = 0;
+  store.list('users').forEach(user => {
+    if (typeof user.password !== 'string' && !user.token) return;
+    const { password, token, ...rest } = user;
+    const record = typeof password === 'string' ? { ...rest, passwordHash: hashPasswordSync(password) } : rest;
+    store.put('users', user.username, record);
+    migrated++;
+  });
+  if (migrated > 0) {
+    console.log(`[Auth] Hashed the stored credentials of ${migrated} users`);
+  }
+}
+
+// Users registered before ids were permanent have the id of the socket they last logged in from
+function migrateUserIds(store) {
+  let migrated = 0;
+  store.list('users').forEach(user => {
+    if (typeof user.id === 'string' && user.id.startsWith('user_')) return;
+    store.put('users', user.username, { ...user, id: newUserId() });
+    migrated++;
+  });
+  if (migrated > 0) {
+    console.log(`[Auth] Gave ${migrated} users a permanent id`);
+  }
+}
+
+module.exports = {
+  hashPassword,
+  verifyPassword,
+  createSession,
+  authenticateToken,
+  refreshSession,
+  revokeSession,
+  revokeOtherSessions,
+  pruneSessions,
+  publicUser,
+  newUserId,
+  migratePlaintextCredentials,
+  migrateUserIds
+};
@@ -0,0 +1,70 @@
+const crypto = require('crypto');
+
+// Audit trail of what happens to accounts: logins (and failed or locked-out attempts), registrations,
+// logouts, token refreshes, password changes and resets, email verification and two-factor
+// authentication being turned on or off. Kept in the 'authEvents' collection as
+// { id, type, timestamp, username, userId, address }; only about the newest MAX_AUTH_EVENTS are kept.
+//
+// Admins (the usernames listed in ADMIN_USERS, comma separated) can query it through 'list-auth-events'.
+
+const AUTH_EVENT_TYPES = [
+  'login',
+  'login-failed',
+  'login-locked',
+  'register',
+  'logout',
+  'token-refresh',
+  'refresh-failed',
+  'password-change',
+  'password-reset-requested',
+  'password-reset',
+  'email-verified',
+  'two-factor-enabled',
+  'two-factor-disabled'
+];
+
+const MAX_AUTH_EVENTS = Number(process.env.MAX_AUTH_EVENTS || 10000);
+const PRUNE_EVERY = 500; // Events recorded between prunes
+
+let recordedSincePrune = 0;
+
+const ADMIN_USERS = new Set((process.env.ADMIN_USERS || '').split(',').map(name => name.trim()).filter(Boolean));
+
+function isAdmin(username) {
+  return !!username && ADMIN_USERS.has(username);
+}
+
+// details: { username, userId, address }
+function recordAuthEvent(store, type, details) {
+  const timestamp = new Date().toISOString();
+  const event = {
+    id: `${timestamp}-${crypto.randomBytes(4).toString('hex')}`, // Sorts by time
+    type,
+    timestamp,
+    username: details.username || null,
+    userId: details.userId || null,
+    address: details.address || null
+  };
+  store.put('authEvents', event.id, event);
+  if (++recordedSincePrune >= PRUNE_EVERY) pruneAuthEvents(store);
+  return event;
+}
+
+// Newest first. filter: { username, type, limit (at most 1000) }
+function queryAuthEvents(store, { username, type, limit = 100 } = {}) {
+  return store.list('authEvents')
+    .filter(event => (!username || event.username === username) && (!type || event.type === type))
+    .sort((a, b) => b.id.localeCompare(a.id))
+    .slice(0, Math.min(Math.max(limit, 0), 1000));
+}
+
+// Drop all but the newest MAX_AUTH_EVENTS (at startup, and every PRUNE_EVERY events)
+function pruneAuthEvents(store) {
+  recordedSincePrune = 0;
+  store.list('authEvents')
+    .sort((a, b) => b.id.localeCompare(a.id))
+    .slice(MAX_AUTH_EVENTS)
+    .forEach(event => store.delete('authEvents', event.id));
+}
+
+module.exports = { AUTH_EVENT_TYPES, isAdmin, recordAuthEvent, queryAuthEvents, pruneAuthEvents };
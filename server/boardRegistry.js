@@ -0,0 +1,141 @@
+const crypto = require('crypto');
+const { BoardState, isAuthoredBy } = require('./boardState');
+
+const DEFAULT_BOARD_ID = 'main';
+
+function memberKey(boardId, userId) {
+  return `${boardId}/${userId}`;
+}
+
+// Knows every board, persists their metadata in the 'boards' collection
+// and lazily loads each board's objects the first time someone joins it.
+//
+// Who may do what on a board (see boardRoles.js) is kept in the 'boardMembers' collection,
+// one { boardId, userId, username, role } record per member. Everyone else gets the board's
+// defaultRole: null for new boards (members only), 'editor' for the main board. The main board has no
+// creator to own it; the server's admins (ADMIN_USERS, see authAudit.js) are its owners instead.
+class BoardRegistry {
+  constructor(store) {
+    this.store = store;
+    this.loaded = new Map(); // boardId -> BoardState
+
+    if (!store.get('boards', DEFAULT_BOARD_ID)) {
+      this.create('Main Board', null, { boardId: DEFAULT_BOARD_ID, defaultRole: 'editor' });
+    }
+  }
+
+  // Metadata for the board picker: { id, name, createdAt, createdBy, defaultRole }
+  list() {
+    return this.store.list('boards')
+      .sort((a, b) => (a.createdAt || '').localeCompare(b.createdAt || ''));
+  }
+
+  exists(boardId) {
+    return typeof boardId === 'string' && this.store.get('boards', boardId) !== null;
+  }
+
+  getInfo(boardId) {
+    return this.exists(boardId) ? this.store.get('boards', boardId) : null;
+  }
+
+  // The live BoardState for a board, or null if no such board exists
+  get(boardId) {
+    if (!this.exists(boardId)) return null;
+    if (!this.loaded.has(boardId)) {
+      this.loaded.set(boardId, new BoardState(this.store, boardId));
+    }
+    return this.loaded.get(boardId);
+  }
+
+  // The boards a user may open
+  listFor(userId) {
+    return this.list().filter(info => this.roleOf(info.id, userId));
+  }
+
+  // createdBy: the user ({ id, username }) who becomes the board's owner, or null for boards the server makes itself
+  create(name, createdBy, { boardId = crypto.randomBytes(6).toString('hex'), defaultRole = null } = {}) {
+    const info = {
+      id: boardId,
+      name: name && name.trim() ? name.trim() : 'Untitled Board',
+      createdAt: new Date().toISOString(),
+      createdBy: createdBy ? createdBy.id : 'system',
+      defaultRole
+    };
+    this.store.put('boards', boardId, info);
+    this.loaded.set(boardId, new BoardState(this.store, boardId, { seed: true }));
+    if (createdBy) this.setMember(boardId, createdBy, 'owner');
+    return info;
+  }
+
+  // A user's role on a board, or null if they may not open it.
+  // Boards from before roles existed have no defaultRole and stay open to everyone, as they were.
+  roleOf(boardId, userId) {
+    const info = this.getInfo(boardId);
+    if (!info) return null;
+    const member = this.store.get('boardMembers', memberKey(boardId, userId));
+    if (member) return member.role;
+    return info.defaultRole === undefined ? 'editor' : info.defaultRole;
+  }
+
+  // [{ userId, username, role }]
+  members(boardId) {
+    return this.store.list('boardMembers')
+      .filter(member => member.boardId === boardId)
+      .map(({ userId, username, role }) => ({ userId, username, role }));
+  }
+
+  // Give a user ({ id, username }) a role on a board, or take them off it (role null).
+  // Returns an error message if the change would leave the board without an owner.
+  setMember(boardId, user, role) {
+    const current = this.store.get('boardMembers', memberKey(boardId, user.id));
+    const otherOwners = this.members(boardId).filter(member => member.role === 'owner' && member.userId !== user.id);
+    if (current && current.role === 'owner' && role !== 'owner' && otherOwners.length === 0) {
+      return 'A board needs at least one owner';
+    }
+
+    if (role) {
+      this.store.put('boardMembers', memberKey(boardId, user.id), {
+        boardId,
+        userId: user.id,
+        username: user.username,
+        role,
+        addedAt: current ? current.addedAt : new Date().toISOString()
+      });
+    } else {
+      this.store.delete('boardMembers', memberKey(boardId, user.id));
+    }
+    return null;
+  }
+
+  // Make the admins' accounts ({ id, username }) owners of the main board, if they aren't already
+  grantMainBoard(admins) {
+    admins
+      .filter(user => this.roleOf(DEFAULT_BOARD_ID, user.id) !== 'owner')
+      .forEach(user => this.setMember(DEFAULT_BOARD_ID, user, 'owner'));
+  }
+
+  // A guest became a registered user ({ id, username }): move the boards they created, their memberships
+  // and everything they authored to the new id. Only boards that mention the guest are loaded. Returns the ids of the boards
+  // whose objects changed.
+  reattribute(fromUserId, toUser) {
+    this.list()
+      .filter(info => info.createdBy === fromUserId)
+      .forEach(info => this.store.put('boards', info.id, { ...info, createdBy: toUser.id }));
+    this.store.list('boardMembers')
+      .filter(member => member.userId === fromUserId)
+      .forEach(member => {
+        this.store.delete('boardMembers', memberKey(member.boardId, fromUserId));
+        this.setMember(member.boardId, toUser, member.role);
+      });
+
+    const boardIds = new Set(this.store.list('objects')
+      .filter(record => isAuthoredBy(record, fromUserId))
+      .map(record => record.boardId));
+    return Array.from(boardIds).filter(boardId => {
+      const board = this.get(boardId);
+      return board && board.reattribute(fromUserId, toUser) > 0;
+    });
+  }
+}
+
+module.exports = { BoardRegistry, DEFAULT_BOARD_ID };
@@ -0,0 +1,36 @@
+// Board roles, least to most trusted; each role may do everything the ones before it may.
+//   viewer     sees the board
+//   commenter  also comments on tasks
+//   editor     also moves, edits, creates and deletes tasks
+//   owner      also manages the board's members, invite links and workflow
+// src/utils/boardRoles.ts mirrors this for the client, which disables what the role forbids.
+const ROLES = ['viewer', 'commenter', 'editor', 'owner'];
+
+// The least role each event needs on the sender's current board; events not listed are open to anyone on it
+const EVENT_ROLES = {
+  'add-comment': 'commenter',
+  'object-moved': 'editor',
+  'object-property-changed': 'editor',
+  'task-status-update': 'editor',
+  'request-create-object': 'editor',
+  'request-delete-object': 'editor',
+  'text-operations': 'editor',
+  'kanban-update': 'editor',
+  'find-users': 'editor',
+  'update-workflow': 'owner',
+  'set-board-member': 'owner',
+  'create-invite': 'owner',
+  'list-invites': 'owner',
+  'revoke-invite': 'owner'
+};
+
+function isRole(value) {
+  return ROLES.includes(value);
+}
+
+// Whether `role` (null: no access) is at least `required`
+function hasRole(role, required) {
+  return isRole(role) && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+module.exports = { ROLES, EVENT_ROLES, isRole, hasRole };
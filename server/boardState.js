@@ -0,0 +1,576 @@
+const crypto = require('crypto');
+const { TextCrdt, TEXT_FIELDS } = require('./textCrdt');
+const {
+  DEFAULT_ZONES,
+  DEFAULT_WIP_POLICY,
+  LANE_DEPTH,
+  LANE_PROPERTIES,
+  layoutZones,
+  laneValue,
+  swimlanes,
+  layoutLanes,
+  workflowError
+} = require('./workflow');
+
+// Canonical, server-side copy of everything on a board.
+// Every object mirrors the client's CreateObjectCommandData shape:
+// { sharedId, type, position, rotation, scale, color, taskData, version, text, createdBy }
+// `version` increases by one on every accepted mutation so stale writes can be detected.
+// `text` holds the CRDT state of the task title and description (see textCrdt.js);
+// taskData.title/description are always the current text of those documents.
+// Objects are written through to the store so they survive restarts.
+//
+// Every event broadcast about the board is stamped with the board's sequence number (`seq`, bumped by
+// recordEvent), so a client can tell whether it missed one. The last MAX_EVENT_HISTORY events are kept
+// so a client that did can be sent just the missing range. `epoch` identifies this run of the server:
+// sequence numbers are only comparable within one epoch, since they are kept in memory.
+//
+// The board's workflow (the zones tasks move through, its WIP policy and what its swimlanes group by; see
+// workflow.js) is kept in the 'workflows' collection once its owners change it; until then the board uses
+// the defaults. The lanes themselves follow from the tasks, and are worked out again whenever they change.
+
+const MAX_EVENT_HISTORY = 500;
+
+// Task fields that property changes set as a whole, and the taskData key each one sets
+// (mirrors src/utils/taskFields.ts)
+const TASK_FIELD_PROPERTIES = {
+  taskAssignees: 'assignees',
+  taskDueDate: 'dueDate',
+  taskPriority: 'priority',
+  taskLabels: 'labels',
+  taskBlockedBy: 'blockedBy' // The ids of the tasks this one waits on
+};
+
+// How far (from the centre of a zone of the given size) a task may sit and still be inside it
+function keepInside(offset, size) {
+  const limit = Math.max(size / 2 - 0.5, 0);
+  return Math.min(Math.max(offset, -limit), limit);
+}
+
+// A random offset from the centre of a zone or lane of the given size, as the client picks for a task dragged into a zone
+function spotInside(size) {
+  return (Math.random() - 0.5) * size * 0.8;
+}
+
+// Helper to build the activity log entry a task starts with; the objects the server seeds itself are the 'system's
+function createdEntry(sharedId, userId = 'system') {
+  return {
+    timestamp: new Date().toISOString(),
+    userId,
+    action: 'Task Created',
+    details: `Task initialized for ${sharedId}`
+  };
+}
+
+// The starter objects every new board begins with (previously hard-coded in App.tsx)
+function createDefaultObjects() {
+  const seeds = [
+    { sharedId: 'shared_cube', type: 'cube', x: -2, color: 0x007bff, title: 'Cube Task' },
+    { sharedId: 'shared_sphere', type: 'sphere', x: 0, color: 0xff4500, title: 'Sphere Task' },
+    { sharedId: 'shared_torus', type: 'torus', x: 2, color: 0x28a745, title: 'Torus Task' }
+  ];
+
+  return seeds.map(seed => ({
+    sharedId: seed.sharedId,
+    type: seed.type,
+    position: { x: seed.x, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    scale: { x: 1, y: 1, z: 1 },
+    color: seed.color,
+    taskData: {
+      title: seed.title,
+      description: `Default description for ${seed.type} task.`,
+      status: 'To Do',
+      checklist: [],
+      activityLog: [createdEntry(seed.sharedId)]
+    }
+  }));
+}
+
+// Deep copy so callers never hold references into the canonical state
+function clone(value) {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Append an activity log entry unless an identical one is already there
+function appendActivityLogEntry(taskData, entry) {
+  if (!entry) return;
+  if (!taskData.activityLog) taskData.activityLog = [];
+
+  const exists = taskData.activityLog.some(existing =>
+    existing.timestamp === entry.timestamp &&
+    existing.userId === entry.userId &&
+    existing.action === entry.action
+  );
+  if (!exists) {
+    taskData.activityLog.push(entry);
+  }
+}
+
+// Whether a user created an object, or wrote any of its activity log entries or comments
+function isAuthoredBy(object, userId) {
+  const taskData = object.taskData || {};
+  return object.createdBy === userId ||
+    (taskData.activityLog || []).some(entry => entry.userId === userId) ||
+    (taskData.comments || []).some(comment => comment.userId === userId);
+}
+
+// Hand what a user authored on an object over to another user ({ id, username })
+function reattributeObject(object, fromUserId, toUser) {
+  if (object.createdBy === fromUserId) object.createdBy = toUser.id;
+  const taskData = object.taskData;
+  if (!taskData) return;
+  (taskData.activityLog || []).forEach(entry => {
+    if (entry.userId === fromUserId) entry.userId = toUser.id;
+  });
+  (taskData.comments || []).forEach(comment => {
+    if (comment.userId !== fromUserId) return;
+    comment.userId = toUser.id;
+    comment.username = toUser.username;
+  });
+}
+
+// Apply a ChecklistUpdateAction the same way UpdateTaskPropertyCommandImpl does on the client
+function applyChecklistAction(taskData, checklistAction) {
+  if (!checklistAction || typeof checklistAction !== 'object') return;
+  if (!Array.isArray(taskData.checklist)) taskData.checklist = [];
+
+  if (checklistAction.action === 'add' && checklistAction.item) {
+    if (!taskData.checklist.some(item => item.id === checklistAction.item.id)) {
+      taskData.checklist.push(checklistAction.item);
+    }
+  } else if (checklistAction.action === 'remove' && checklistAction.itemId) {
+    taskData.checklist = taskData.checklist.filter(item => item.id !== checklistAction.itemId);
+  } else if (checklistAction.action === 'toggle' && checklistAction.itemId) {
+    taskData.checklist = taskData.checklist.map(item => {
+      if (item.id !== checklistAction.itemId) return item;
+      const completed = typeof checklistAction.completed === 'boolean' ? checklistAction.completed : !item.completed;
+      return { ...item, completed };
+    });
+  } else if (checklistAction.action === 'editText' && checklistAction.itemId && typeof checklistAction.newText === 'string') {
+    taskData.checklist = taskData.checklist.map(item =>
+      item.id === checklistAction.itemId ? { ...item, text: checklistAction.newText } : item
+    );
+  }
+}
+
+class BoardState {
+  // Pass seed: true for a brand new board so it starts with the default objects;
+  // otherwise the board's objects are restored from the store
+  constructor(store, boardId, { seed = false, initialObjects = createDefaultObjects() } = {}) {
+    this.store = store;
+    this.id = boardId;
+    this.objects = new Map();
+    this.textDocs = new Map(); // sharedId -> { title: TextCrdt, description: TextCrdt }
+    this.epoch = crypto.randomBytes(4).toString('hex');
+    this.seq = 0;
+    this.history = []; // { event, data, senderId } for the latest events, oldest first
+    const savedWorkflow = store.get('workflows', boardId);
+    this.workflow = savedWorkflow ? savedWorkflow.zones : clone(DEFAULT_ZONES);
+    this.wipPolicy = (savedWorkflow && savedWorkflow.wipPolicy) || DEFAULT_WIP_POLICY;
+    this.swimlanes = (savedWorkflow && savedWorkflow.swimlanes) || null;
+
+    if (seed) {
+      initialObjects.forEach(seedObject => {
+        const object = { ...clone(seedObject), version: 1 };
+        this.loadText(object);
+        this.objects.set(object.sharedId, object);
+        this.persist(object);
+      });
+    } else {
+      store.list('objects')
+        .filter(record => record.boardId === boardId)
+        .forEach(record => {
+          const object = { ...record, version: record.version || 1 };
+          delete object.boardId;
+          this.loadText(object);
+          this.objects.set(object.sharedId, object);
+        });
+    }
+    this.lanes = swimlanes(this.swimlanes, this.tasks());
+  }
+
+  objectKey(objectId) {
+    return `${this.id}/${objectId}`;
+  }
+
+  // Build the text documents for an object, starting from its plain strings if it has no CRDT state yet
+  loadText(object) {
+    const docs = {};
+    TEXT_FIELDS.forEach(field => {
+      const state = object.text && object.text[field];
+      docs[field] = state ? new TextCrdt(state) : TextCrdt.fromText(object.taskData && object.taskData[field]);
+    });
+    this.textDocs.set(object.sharedId, docs);
+    this.syncText(object);
+  }
+
+  // Copy the documents' state and current text back onto the object
+  syncText(object) {
+    const docs = this.textDocs.get(object.sharedId);
+    if (!docs) return;
+    object.text = {};
+    TEXT_FIELDS.forEach(field => {
+      object.text[field] = docs[field].toJSON();
+      if (object.taskData) object.taskData[field] = docs[field].text;
+    });
+  }
+
+  persist(object) {
+    this.store.put('objects', this.objectKey(object.sharedId), { ...object, boardId: this.id });
+  }
+
+  // The taskData of every task on the board
+  tasks() {
+    return Array.from(this.objects.values()).filter(object => object.taskData).map(object => object.taskData);
+  }
+
+  // How the board floor is laid out: its workflow, WIP policy, swimlane grouping and lanes
+  getLayout() {
+    return {
+      workflow: clone(this.workflow),
+      wipPolicy: this.wipPolicy,
+      swimlanes: this.swimlanes,
+      lanes: clone(this.lanes)
+    };
+  }
+
+  // Everything a freshly connected client needs to build its scene
+  getSnapshot() {
+    return {
+      objects: Array.from(this.objects.values()).map(clone),
+      ...this.getLayout(),
+      epoch: this.epoch,
+      seq: this.seq
+    };
+  }
+
+  // True if a client that last saw `since` ({ epoch, seq }) has missed nothing
+  isUpToDate(since) {
+    return !!since && since.epoch === this.epoch && since.seq === this.seq;
+  }
+
+  // Stamp a board event with the next seq and keep it for replay. senderId is the socket the event was
+  // not broadcast to because it made the change itself. Returns the payload to broadcast.
+  recordEvent(event, data, senderId = null) {
+    this.seq++;
+    const stamped = { ...data, seq: this.seq };
+    this.history.push({ event, data: stamped, senderId });
+    if (this.history.length > MAX_EVENT_HISTORY) this.history.shift();
+    return stamped;
+  }
+
+  // The events a client that last saw `since` has missed, oldest first,
+  // or null if they are no longer (or were never) in the history and it needs a snapshot instead
+  eventsSince(since) {
+    if (!since || since.epoch !== this.epoch || since.seq > this.seq) return null;
+    const missed = this.history.filter(entry => entry.data.seq > since.seq);
+    const oldestKept = this.seq - this.history.length;
+    return since.seq >= oldestKept ? missed : null;
+  }
+
+  getObject(objectId) {
+    const object = this.objects.get(objectId);
+    return object ? clone(object) : null;
+  }
+
+  // Returns null when a write based on `baseVersion` may be applied,
+  // otherwise the reason it must be rejected
+  checkVersion(objectId, baseVersion) {
+    const object = this.objects.get(objectId);
+    if (!object) return 'not-found';
+    if (typeof baseVersion !== 'number') return 'missing-version';
+    if (baseVersion !== object.version) return 'stale-version';
+    return null;
+  }
+
+  createObject(data) {
+    if (!data || !data.sharedId || this.objects.has(data.sharedId)) return null;
+
+    const object = {
+      sharedId: data.sharedId,
+      type: data.type,
+      position: { ...data.position },
+      rotation: { order: 'XYZ', ...data.rotation },
+      scale: { ...data.scale },
+      color: data.color,
+      taskData: clone(data.taskData || {
+        title: 'New Task',
+        description: '',
+        status: 'To Do',
+        checklist: [],
+        activityLog: []
+      }),
+      version: 1
+    };
+    if (data.createdBy) object.createdBy = data.createdBy;
+    object.taskData.status = this.newTaskStatus(object.taskData);
+    // Only the server adds comments and log entries: a new task has no comments, whatever the client sent,
+    // and its log starts with who created it
+    object.taskData.comments = [];
+    object.taskData.activityLog = [createdEntry(object.sharedId, data.createdBy)];
+    this.loadText(object);
+    this.objects.set(object.sharedId, object);
+    this.persist(object);
+    return clone(object);
+  }
+
+  // The zone a new task starts in: its own status if that is one of the board's zones, otherwise the first zone
+  newTaskStatus(taskData) {
+    return taskData && this.hasStatus(taskData.status) ? taskData.status : this.workflow[0].name;
+  }
+
+  // Whether a status is the name of one of the board's zones
+  hasStatus(status) {
+    return this.workflow.some(zone => zone.name === status);
+  }
+
+  // Whether the task `objectId` may wait on the tasks `blockedBy` (their ids). Links it already has are left
+  // alone, even to tasks that have since been deleted (undoing the delete brings them back). A new one must be
+  // to another task on the board that doesn't already wait on this one, directly or through others.
+  canBeBlockedBy(objectId, blockedBy) {
+    const object = this.objects.get(objectId);
+    const existing = (object && object.taskData && object.taskData.blockedBy) || [];
+    if (new Set(blockedBy).size !== blockedBy.length) return false;
+    return blockedBy
+      .filter(blockerId => !existing.includes(blockerId))
+      .every(blockerId => blockerId !== objectId && this.objects.has(blockerId) && !this.isBlockedBy(blockerId, objectId));
+  }
+
+  // Whether the task `objectId` waits on `blockerId`, directly or through other tasks
+  isBlockedBy(objectId, blockerId) {
+    const seen = new Set();
+    const pending = [objectId];
+    while (pending.length > 0) {
+      const id = pending.pop();
+      if (seen.has(id)) continue;
+      seen.add(id);
+      const object = this.objects.get(id);
+      const blockers = (object && object.taskData && object.taskData.blockedBy) || [];
+      if (blockers.includes(blockerId)) return true;
+      pending.push(...blockers);
+    }
+    return false;
+  }
+
+  // Whether moving the task `objectId` into the zone called `status` would take the zone past its WIP limit.
+  // A task that is already in the zone isn't moving into it.
+  wouldExceedWipLimit(objectId, status) {
+    const zone = this.workflow.find(candidate => candidate.name === status);
+    const moving = this.objects.get(objectId);
+    if (!zone || zone.wipLimit == null || (moving && moving.taskData && moving.taskData.status === status)) return false;
+    let count = 0;
+    this.objects.forEach(object => {
+      if (object.taskData && object.taskData.status === status) count++;
+    });
+    return count >= zone.wipLimit;
+  }
+
+  // Replace the board's workflow with `zones` (see workflow.js). Tasks follow their zone: they take its new
+  // name and move with it (those that were inside it stay inside, even if it shrank), and get a new version.
+  // A zone that still has tasks in it can't be removed. Lowering a WIP limit below what a zone holds is
+  // allowed; it then shows as over its limit. With swimlanes, tasks then move into the cell for their lane.
+  // Returns the new layout (see getLayout) with the tasks that changed as `objects`, or { error }.
+  setWorkflow(zones, wipPolicy = this.wipPolicy, grouping = this.swimlanes) {
+    const workflow = zones.map(zone => ({ ...zone, name: zone.name.trim() }));
+    const error = workflowError(workflow);
+    if (error) return { error };
+
+    // Which of the current zones each task is in, worked out before any of them is renamed
+    const placements = Array.from(this.objects.values())
+      .filter(object => object.taskData)
+      .map(object => ({ object, from: this.workflow.findIndex(zone => zone.name === object.taskData.status) }))
+      .filter(placement => placement.from !== -1);
+    const removed = this.workflow.find((zone, index) =>
+      !workflow.some(next => next.id === zone.id) && placements.some(placement => placement.from === index));
+    if (removed) return { error: `Move the tasks out of '${removed.name}' before removing it` };
+
+    const oldCentres = layoutZones(this.workflow);
+    const newCentres = layoutZones(workflow);
+    const changed = new Map();
+    placements.forEach(({ object, from }) => {
+      const to = workflow.findIndex(zone => zone.id === this.workflow[from].id);
+      const zone = workflow[to];
+      const offset = object.position.x - oldCentres[from];
+      const wasInside = Math.abs(offset) <= this.workflow[from].width / 2 && Math.abs(object.position.z) <= this.zoneDepth(this.workflow[from]) / 2;
+      const x = newCentres[to] + (wasInside ? keepInside(offset, zone.width) : offset);
+      // With swimlanes, arrangeLanes() below puts the task in its lane
+      const z = wasInside && !grouping ? keepInside(object.position.z, zone.depth) : object.position.z;
+      if (object.taskData.status === zone.name && object.position.x === x && object.position.z === z) return;
+
+      object.taskData.status = zone.name;
+      object.position = { ...object.position, x, z };
+      object.version++;
+      this.persist(object);
+      changed.set(object.sharedId, object);
+    });
+
+    // Tasks only keep their place in a lane while the board goes on grouping them the same way
+    const previousLanes = grouping === this.swimlanes ? this.lanes : [];
+    this.workflow = workflow;
+    this.wipPolicy = wipPolicy;
+    this.swimlanes = grouping;
+    this.store.put('workflows', this.id, { boardId: this.id, zones: workflow, wipPolicy, swimlanes: grouping });
+    this.arrangeLanes(previousLanes).forEach(object => changed.set(object.sharedId, object));
+    return { ...this.getLayout(), objects: Array.from(changed.values()).map(clone) };
+  }
+
+  // How deep a zone is on the board: as deep as all the lanes together while the board has them
+  zoneDepth(zone) {
+    return this.swimlanes ? this.lanes.length * LANE_DEPTH : zone.depth;
+  }
+
+  // Work the lanes out again from the tasks, and put every task in the cell for its status × lane. A task
+  // that was inside the cell for its lane in `previous` (the lanes before) keeps its place in it, wherever
+  // the lane is now; the others go to a random spot in their cell. Returns the tasks that moved (each with
+  // a new version).
+  arrangeLanes(previous = this.lanes) {
+    this.lanes = swimlanes(this.swimlanes, this.tasks());
+    if (!this.swimlanes) return [];
+
+    const zoneCentres = layoutZones(this.workflow);
+    const oldCentres = layoutLanes(previous);
+    const newCentres = layoutLanes(this.lanes);
+    const moved = [];
+    this.objects.forEach(object => {
+      const column = object.taskData ? this.workflow.findIndex(zone => zone.name === object.taskData.status) : -1;
+      if (column === -1) return;
+      const zone = this.workflow[column];
+      const value = laneValue(this.swimlanes, object.taskData);
+      const lane = this.lanes.findIndex(candidate => candidate.value === value);
+      const was = previous.findIndex(candidate => candidate.value === value);
+      const offset = was === -1 ? null : object.position.z - oldCentres[was];
+      const inside = offset !== null && Math.abs(offset) <= LANE_DEPTH / 2 &&
+        Math.abs(object.position.x - zoneCentres[column]) <= zone.width / 2;
+      const x = inside ? object.position.x : zoneCentres[column] + spotInside(zone.width);
+      const z = newCentres[lane] + (inside ? offset : spotInside(LANE_DEPTH));
+      if (object.position.x === x && object.position.z === z) return;
+
+      object.position = { ...object.position, x, z };
+      object.version++;
+      this.persist(object);
+      moved.push(object);
+    });
+    return moved;
+  }
+
+  // After a change to the tasks, keep them in their lanes (see arrangeLanes). Returns the layout with the
+  // tasks that moved as `objects`, or null if neither the lanes nor any task changed.
+  updateLanes() {
+    const previous = this.lanes;
+    const moved = this.arrangeLanes();
+    if (moved.length === 0 && JSON.stringify(previous) === JSON.stringify(this.lanes)) return null;
+    return { ...this.getLayout(), objects: moved.map(clone) };
+  }
+
+  // Payload of the client's 'object-moved' event
+  moveObject(data) {
+    const object = data && this.objects.get(data.objectId);
+    if (!object) return null;
+
+    if (data.position) object.position = { ...data.position };
+    if (data.rotation) object.rotation = { order: object.rotation.order || 'XYZ', ...data.rotation };
+    if (data.scale) object.scale = { ...data.scale };
+
+    if (data.taskStatus && object.taskData) {
+      object.taskData.status = data.taskStatus;
+    }
+    // A task dragged into another swimlane takes the value of the field the lanes group by
+    if (data.laneField && object.taskData && Object.values(LANE_PROPERTIES).includes(data.laneField.property)) {
+      object.taskData[TASK_FIELD_PROPERTIES[data.laneField.property]] = clone(data.laneField.value);
+    }
+    if (object.taskData) {
+      appendActivityLogEntry(object.taskData, data.activityLogEntry);
+    }
+    object.version++;
+    this.persist(object);
+    return clone(object);
+  }
+
+  deleteObject(objectId) {
+    const object = this.objects.get(objectId);
+    if (!object) return null;
+    this.objects.delete(objectId);
+    this.textDocs.delete(objectId);
+    this.store.delete('objects', this.objectKey(objectId));
+    return clone(object);
+  }
+
+  // Payload of the client's property update events (ObjectPropertyUpdateData + optional fullTaskData)
+  applyPropertyChange(data) {
+    const object = data && this.objects.get(data.objectId);
+    if (!object) return null;
+
+    if (data.property === 'color' && typeof data.value === 'string') {
+      object.color = parseInt(data.value.replace('#', ''), 16);
+    } else if (data.property === 'scale' && data.value && typeof data.value === 'object') {
+      object.scale = { x: data.value.x, y: data.value.y, z: data.value.z };
+    }
+
+    // Title and description only change through text operations (applyTextOperations)
+    if (data.fullTaskData && typeof data.fullTaskData === 'object') {
+      // The sender already applied the change locally; take its task data, except for the comments and
+      // activity log: only the server adds to those, and the sender's copy may be missing recent entries
+      const { comments, activityLog } = object.taskData || {};
+      object.taskData = { ...clone(data.fullTaskData), comments: comments || [], activityLog: activityLog || [] };
+      appendActivityLogEntry(object.taskData, data.activityLogEntry);
+    } else if (object.taskData) {
+      if (data.property === 'taskStatus' && typeof data.value === 'string') {
+        object.taskData.status = data.value;
+      } else if (data.property === 'taskChecklistUpdate') {
+        applyChecklistAction(object.taskData, data.value);
+      } else if (TASK_FIELD_PROPERTIES[data.property]) {
+        object.taskData[TASK_FIELD_PROPERTIES[data.property]] = clone(data.value);
+      }
+      appendActivityLogEntry(object.taskData, data.activityLogEntry);
+    }
+    this.syncText(object);
+    object.version++;
+    this.persist(object);
+    return clone(object);
+  }
+
+  // Payload of the client's 'text-operations' event: { objectId, field, ops }.
+  // CRDT operations merge with any concurrent edit, so they are not checked against the object version.
+  // Returns the operations that changed the text (see TextCrdt.apply), or null if none did.
+  applyTextOperations(data) {
+    const object = data && this.objects.get(data.objectId);
+    const docs = object && this.textDocs.get(object.sharedId);
+    if (!docs || !TEXT_FIELDS.includes(data.field)) return null;
+
+    const accepted = docs[data.field].apply(data.ops);
+    if (accepted.length === 0) return null;
+
+    this.syncText(object);
+    this.persist(object);
+    return accepted;
+  }
+
+  // Add a comment ({ id, userId, username, text, timestamp }) to a task. Comments are only ever added,
+  // so like text operations they are not checked against the object version. Returns the comment, or null.
+  addComment(objectId, comment) {
+    const object = this.objects.get(objectId);
+    if (!object || !object.taskData) return null;
+    if (!Array.isArray(object.taskData.comments)) object.taskData.comments = [];
+    object.taskData.comments.push(comment);
+    this.persist(object);
+    return clone(comment);
+  }
+
+  // Hand everything a user authored on this board (the tasks they created, their activity log entries and
+  // comments) over to another user ({ id, username }). The objects that changed get a new version, so
+  // writes based on the old attribution are refused. Returns how many objects changed.
+  reattribute(fromUserId, toUser) {
+    let changed = 0;
+    this.objects.forEach(object => {
+      if (!isAuthoredBy(object, fromUserId)) return;
+      reattributeObject(object, fromUserId, toUser);
+      object.version++;
+      this.persist(object);
+      changed++;
+    });
+    return changed;
+  }
+}
+
+module.exports = { BoardState, createDefaultObjects, isAuthoredBy };
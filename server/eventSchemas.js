@@ -0,0 +1,343 @@
+// Runtime checks for the payloads clients send, one schema per event in src/types/socketEvents.ts
+// (ClientToServerEvents). The client checks what the server sends with src/utils/eventSchemas.ts -
+// keep the two in step with the catalogue.
+//
+// A schema is a function (value, path) => error message, or null when the value is valid.
+// Objects are strict: keys a schema doesn't list are rejected, so nothing unchecked gets stored or relayed.
+
+const { AUTH_EVENT_TYPES } = require('./authAudit');
+const { MAX_ZONES, WIP_POLICIES, SWIMLANE_GROUPINGS, LANE_PROPERTIES } = require('./workflow');
+
+const MAX_STRING = 10000;
+const MAX_AVATAR_URL = 100000; // A small image as a data: URL
+
+const describe = (path) => path || 'payload';
+
+const string = (maxLength = MAX_STRING) => (value, path) =>
+  typeof value === 'string' && value.length <= maxLength
+    ? null
+    : `${describe(path)} must be a string of at most ${maxLength} characters`;
+
+const number = () => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : `${describe(path)} must be a finite number`;
+
+const boolean = () => (value, path) =>
+  typeof value === 'boolean' ? null : `${describe(path)} must be a boolean`;
+
+// A calendar date, 'YYYY-MM-DD'
+const date = () => (value, path) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : `${describe(path)} must be a date like 2024-01-31`;
+
+const literal = (...values) => (value, path) =>
+  values.includes(value) ? null : `${describe(path)} must be one of ${values.map(v => JSON.stringify(v)).join(', ')}`;
+
+const optional = (schema) => (value, path) => (value === undefined ? null : schema(value, path));
+
+const nullable = (schema) => (value, path) => (value === null ? null : schema(value, path));
+
+const arrayOf = (schema, maxLength = 1000) => (value, path) => {
+  if (!Array.isArray(value) || value.length > maxLength) {
+    return `${describe(path)} must be an array of at most ${maxLength} items`;
+  }
+  for (let i = 0; i < value.length; i++) {
+    const error = schema(value[i], `${describe(path)}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const tuple = (...schemas) => (value, path) => {
+  if (!Array.isArray(value) || value.length !== schemas.length) {
+    return `${describe(path)} must be an array of ${schemas.length} items`;
+  }
+  for (let i = 0; i < schemas.length; i++) {
+    const error = schemas[i](value[i], `${describe(path)}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const object = (shape) => (value, path) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return `${describe(path)} must be an object`;
+  const unknownKey = Object.keys(value).find(key => !(key in shape));
+  if (unknownKey) return `${path ? `${path}.` : ''}${unknownKey} is not allowed`;
+  for (const [key, schema] of Object.entries(shape)) {
+    const error = schema(value[key], path ? `${path}.${key}` : key);
+    if (error) return error;
+  }
+  return null;
+};
+
+// The first schema that accepts the value wins; otherwise the last schema's error is reported
+const oneOf = (...schemas) => (value, path) => {
+  let error = null;
+  for (const schema of schemas) {
+    error = schema(value, path);
+    if (!error) return null;
+  }
+  return error;
+};
+
+// ---- Shared shapes ----
+
+const id = () => string(200);
+const vector3 = object({ x: number(), y: number(), z: number() });
+const rotation = object({
+  x: number(),
+  y: number(),
+  z: number(),
+  order: optional(literal('XYZ', 'YXZ', 'ZXY', 'ZYX', 'YZX', 'XZY'))
+});
+const position3 = tuple(number(), number(), number());
+const boardSequence = object({ epoch: string(100), seq: number() });
+const taskStatus = string(100); // The name of one of the board's zones; the handlers check which
+const textField = literal('title', 'description');
+const boardRole = literal('viewer', 'commenter', 'editor', 'owner');
+
+const workflowZone = object({
+  id: id(),
+  name: string(100),
+  color: string(20),
+  width: number(),
+  depth: number(),
+  wipLimit: optional(nullable(number()))
+});
+
+const checklistItem = object({ id: id(), text: string(), completed: boolean() });
+
+const taskAssignee = object({ userId: id(), username: string(100) });
+const taskPriority = literal('low', 'medium', 'high', 'urgent');
+const taskLabel = string(50);
+
+const activityLogEntry = object({
+  timestamp: string(100),
+  userId: id(),
+  action: string(500),
+  details: optional(string())
+});
+
+const taskComment = object({
+  id: id(),
+  userId: id(),
+  username: optional(string(200)),
+  text: string(2000),
+  timestamp: string(100)
+});
+
+const taskData = object({
+  title: string(),
+  status: taskStatus,
+  description: string(),
+  checklist: arrayOf(checklistItem),
+  activityLog: arrayOf(activityLogEntry, MAX_STRING),
+  comments: optional(arrayOf(taskComment, MAX_STRING)),
+  assignees: optional(arrayOf(taskAssignee, 50)),
+  dueDate: optional(nullable(date())),
+  priority: optional(nullable(taskPriority)),
+  labels: optional(arrayOf(taskLabel, 20)),
+  blockedBy: optional(arrayOf(id(), 50))
+});
+
+const checklistUpdateAction = object({
+  action: literal('add', 'remove', 'toggle', 'editText'),
+  itemId: optional(id()),
+  item: optional(checklistItem),
+  newText: optional(string()),
+  completed: optional(boolean())
+});
+
+const textCrdtState = object({ chars: arrayOf(tuple(id(), string(2), boolean()), 100000) });
+
+const textOperation = oneOf(
+  object({ type: literal('insert'), id: id(), after: nullable(id()), value: string(2) }),
+  object({ type: literal('delete'), id: id() })
+);
+
+const boardObject = object({
+  sharedId: id(),
+  type: literal('cube', 'sphere', 'torus'),
+  position: vector3,
+  rotation,
+  scale: vector3,
+  color: number(),
+  taskData,
+  version: optional(number()),
+  text: optional(object({ title: optional(textCrdtState), description: optional(textCrdtState) })),
+  createdBy: optional(id())
+});
+
+// The type of a property change's value depends on the property
+const PROPERTY_VALUES = {
+  color: string(20),
+  scale: vector3,
+  taskStatus,
+  taskChecklistUpdate: oneOf(checklistUpdateAction, arrayOf(checklistItem)), // Undo sends the old checklist
+  taskAssignees: arrayOf(taskAssignee, 50),
+  taskDueDate: nullable(date()),
+  taskPriority: nullable(taskPriority),
+  taskLabels: arrayOf(taskLabel, 20),
+  taskBlockedBy: arrayOf(id(), 50)
+};
+
+const propertyChange = (value, path) => {
+  const error = object({
+    objectId: id(),
+    property: literal(...Object.keys(PROPERTY_VALUES)),
+    value: () => null, // Checked below, once the property is known
+    userId: optional(id()),
+    activityLogEntry: optional(activityLogEntry),
+    fullTaskData: optional(taskData),
+    baseVersion: number()
+  })(value, path);
+  return error || PROPERTY_VALUES[value.property](value.value, 'value');
+};
+
+// The field a task dragged into another swimlane takes the lane's value for
+const laneField = (value, path) => {
+  const error = object({ property: literal(...Object.values(LANE_PROPERTIES)), value: () => null })(value, path);
+  return error || PROPERTY_VALUES[value.property](value.value, `${describe(path)}.value`);
+};
+
+const kanbanCard = object({
+  id: id(),
+  title: string(),
+  description: string(),
+  status: string(200),
+  assignee: optional(string(200)),
+  color: string(20),
+  position: position3
+});
+
+const registration = object({ username: string(100), email: string(320), password: string(1000), color: optional(string(20)) });
+
+// ---- Events ----
+
+// null: the event carries no payload (only, at most, an ack callback)
+const EVENT_SCHEMAS = {
+  'list-boards': null,
+  'create-board': object({ name: optional(string(100)) }),
+  'join-board': object({ boardId: id(), since: optional(boardSequence) }),
+  'leave-board': null,
+  'request-board-snapshot': null,
+  'request-board-events': object({ since: boardSequence }),
+  'list-board-members': null,
+  'set-board-member': object({ userId: optional(id()), username: optional(string(100)), role: nullable(boardRole) }),
+  'create-invite': object({
+    role: boardRole,
+    expiresInHours: optional(number()),
+    maxUses: optional(number()),
+    public: optional(boolean())
+  }),
+  'list-invites': null,
+  'revoke-invite': object({ inviteId: id() }),
+  'accept-invite': object({ token: string(300) }),
+  'update-workflow': object({
+    workflow: arrayOf(workflowZone, MAX_ZONES),
+    wipPolicy: optional(literal(...WIP_POLICIES)),
+    swimlanes: optional(nullable(literal(...SWIMLANE_GROUPINGS)))
+  }),
+
+  'register': registration,
+  'upgrade-account': registration,
+  'login': object({ username: string(100), password: string(1000) }),
+  'login-second-factor': object({ challenge: string(100), code: string(20) }),
+  'refresh-session': object({ refreshToken: string(300) }),
+  'update-profile': object({
+    displayName: optional(string(100)),
+    color: optional(string(20)),
+    avatarUrl: optional(nullable(string(MAX_AVATAR_URL)))
+  }),
+  'change-password': object({ currentPassword: string(1000), newPassword: string(1000) }),
+  'setup-2fa': null,
+  'enable-2fa': object({ code: string(20) }),
+  'disable-2fa': object({ code: string(20) }),
+  'resend-verification': null,
+  'verify-email': object({ token: string(200) }),
+  'request-password-reset': object({ email: string(320) }),
+  'reset-password': object({ token: string(200), newPassword: string(1000) }),
+  'find-users': object({ query: string(100) }),
+  'list-auth-events': object({
+    username: optional(string(100)),
+    type: optional(literal(...AUTH_EVENT_TYPES)),
+    limit: optional(number())
+  }),
+  'logout': null,
+  'user-authenticated': object({
+    username: optional(string(100)),
+    color: optional(string(20))
+  }),
+
+  'object-moved': object({
+    objectId: id(),
+    position: vector3,
+    rotation,
+    scale: vector3,
+    taskStatus: optional(taskStatus),
+    laneField: optional(laneField),
+    userId: optional(id()),
+    activityLogEntry: optional(activityLogEntry),
+    baseVersion: number()
+  }),
+  'object-property-changed': propertyChange,
+  'task-status-update': object({
+    objectId: id(),
+    newStatus: taskStatus,
+    oldStatus: optional(taskStatus),
+    baseVersion: number(),
+    activityLogEntry: optional(activityLogEntry)
+  }),
+  'request-create-object': boardObject,
+  'request-delete-object': object({ objectId: id() }),
+  'text-operations': object({ objectId: id(), field: textField, ops: arrayOf(textOperation, MAX_STRING), userId: optional(id()) }),
+  'add-comment': object({ objectId: id(), text: string(2000) }),
+  'text-selection': oneOf(
+    object({ objectId: id(), field: textField, start: nullable(id()), end: nullable(id()) }),
+    object({ objectId: literal(null) })
+  ),
+
+  'cursor-moved': object({ position: vector3 }),
+  'cursor-move': object({ x: number(), y: number() }),
+
+  'chat-message': object({ content: string(2000) }),
+  'user-joined': object({ position: position3, speaking: boolean() }),
+  'user-move': object({ userId: id(), position: position3 }),
+  'kanban-update': arrayOf(object({ id: id(), title: string(200), position: position3, cards: arrayOf(kanbanCard) }), 50)
+};
+
+// Events that are only ever answered through their ack callback, so must come with one
+const ACK_EVENTS = new Set([
+  'login',
+  'register',
+  'upgrade-account',
+  'login-second-factor',
+  'refresh-session',
+  'set-board-member',
+  'create-invite',
+  'revoke-invite',
+  'accept-invite',
+  'update-profile',
+  'change-password',
+  'enable-2fa',
+  'disable-2fa',
+  'verify-email',
+  'request-password-reset',
+  'reset-password',
+  'find-users',
+  'list-auth-events',
+  'update-workflow'
+]);
+
+// Check an incoming event's arguments (without its ack callback; hasAck says whether it came with one).
+// Returns an error message, or null if the event is known and its payload valid.
+function validateEvent(event, args, hasAck = false) {
+  if (!Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, event)) return `Unknown event '${event}'`;
+  if (ACK_EVENTS.has(event) && !hasAck) return `'${event}' needs an acknowledgement callback`;
+  const schema = EVENT_SCHEMAS[event];
+  if (schema === null) {
+    return args.every(arg => arg === undefined) ? null : `'${event}' takes no payload`;
+  }
+  if (args.length > 1) return `'${event}' takes a single payload`;
+  return schema(args[0], '');
+}
+
+module.exports = { validateEvent };
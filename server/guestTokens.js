@@ -0,0 +1,44 @@
+const crypto = require('crypto');
+
+// Guest identities. The server picks a guest's id ('guest_<uuid>') and hands the client a token,
+// '<guest id>.<signature>', signed with a secret kept in the 'settings' collection so tokens outlive
+// restarts. Presenting the token on the handshake (auth.guestToken) brings the guest back under the
+// same id after a reload; nothing is stored per guest, and a guest can't pick someone else's id.
+
+const SECRET_ID = 'guestTokenSecret';
+
+function guestSecret(store) {
+  const stored = store.get('settings', SECRET_ID);
+  if (stored) return stored.secret;
+  const secret = crypto.randomBytes(32).toString('hex');
+  store.put('settings', SECRET_ID, { secret });
+  return secret;
+}
+
+function sign(store, guestId) {
+  return crypto.createHmac('sha256', guestSecret(store)).update(guestId).digest('hex');
+}
+
+function newGuestId() {
+  return `guest_${crypto.randomUUID()}`;
+}
+
+function createGuestToken(store, guestId) {
+  return `${guestId}.${sign(store, guestId)}`;
+}
+
+// The guest id a token was issued for, or null if it wasn't signed by this server
+function verifyGuestToken(store, token) {
+  const dot = typeof token === 'string' ? token.lastIndexOf('.') : -1;
+  if (dot <= 0) return null;
+  const guestId = token.slice(0, dot);
+  const signature = Buffer.from(token.slice(dot + 1), 'hex');
+  const expected = Buffer.from(sign(store, guestId), 'hex');
+  if (!guestId.startsWith('guest_') || signature.length !== expected.length ||
+      !crypto.timingSafeEqual(signature, expected)) {
+    return null;
+  }
+  return guestId;
+}
+
+module.exports = { newGuestId, createGuestToken, verifyGuestToken };
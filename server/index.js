@@ -1,8 +1,33 @@
+const crypto = require('crypto');
 const express = require('express');
 const http = require('http');
 const { Server } = require("socket.io");
 const cors = require('cors'); // Import cors
-const crypto = require('crypto'); // For generating secure tokens
+const { BoardRegistry, DEFAULT_BOARD_ID } = require('./boardRegistry');
+const { EVENT_ROLES, hasRole } = require('./boardRoles');
+const { createInvite, listInvites, redeemInvite, revokeInvite } = require('./invites');
+const { LoginThrottle } = require('./loginThrottle');
+const { isAdmin, recordAuthEvent, queryAuthEvents, pruneAuthEvents } = require('./authAudit');
+const { generateSecret, verifyCode, otpauthUri, generateBackupCodes, useSecondFactor } = require('./totp');
+const { createAccountToken, consumeAccountToken, pruneAccountTokens } = require('./accountTokens');
+const { newGuestId, createGuestToken, verifyGuestToken } = require('./guestTokens');
+const { createMailTransport } = require('./mail');
+const { createStore } = require('./storage');
+const { validateEvent } = require('./eventSchemas');
+const {
+  hashPassword,
+  verifyPassword,
+  createSession,
+  authenticateToken,
+  refreshSession,
+  revokeSession,
+  revokeOtherSessions,
+  pruneSessions,
+  publicUser,
+  newUserId,
+  migratePlaintextCredentials,
+  migrateUserIds
+} = require('./auth');
 
 const app = express();
 const server = http.createServer(app);
@@ -16,6 +41,9 @@ app.use(cors({
 // Express middleware for parsing JSON
 app.use(express.json());
 
+// Event names and payloads are listed in src/types/socketEvents.ts, shared with the client.
+// Every event a client emits must have a handler below.
+/** @type {import('socket.io').Server<import('../src/types/socketEvents').ClientToServerEvents, import('../src/types/socketEvents').ServerToClientEvents>} */
 const io = new Server(server, {
   cors: {
     origin: "http://localhost:5173", // Allow your Vite dev server
@@ -25,184 +53,1228 @@ const io = new Server(server, {
   pingInterval: 25000 // Ensure pings are sent
 });
 
-const connectedUsers = new Map(); // Stores { id: socket.id, username: string, color: '#RRGGBB' }
-const registeredUsers = new Map(); // In-memory storage for users - would be replaced with a database in production
+// Durable storage for registered users and boards (see server/storage)
+const store = createStore();
+store.load();
+migratePlaintextCredentials(store);
+migrateUserIds(store);
+pruneSessions(store);
+pruneAuthEvents(store);
+pruneAccountTokens(store);
+
+// Mail to users goes through this (see server/mail); links in it open the client at APP_URL
+const mailer = createMailTransport();
+const APP_URL = process.env.APP_URL || 'http://localhost:5173';
+
+const connectedUsers = new Map(); // socket.id -> { id, username, color }; id is the user's, shared by all their sockets
+const avatars = new Map(); // 3D mode presence per socket.id: { boardId, user: { id, username, position, color, speaking } }
+const boards = new BoardRegistry(store); // Every board and its canonical set of objects, restored from storage
+boards.grantMainBoard(store.list('users').filter(user => isAdmin(user.username)));
+
+// Failed logins, per username and per client address (which may try a few usernames); too many in a row
+// lock that username or address out for a while
+const usernameThrottle = new LoginThrottle({ maxFailures: 5 });
+const addressThrottle = new LoginThrottle({ maxFailures: 20 });
+
+// Logins waiting for their second factor: challenge id -> { username, expiresAt, attempts }
+const loginChallenges = new Map();
+const LOGIN_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
+// A login whose password was right, for an account with two-factor authentication. Returns the challenge id
+function createLoginChallenge(username) {
+  const now = Date.now();
+  loginChallenges.forEach((challenge, id) => {
+    if (challenge.expiresAt <= now) loginChallenges.delete(id);
+  });
+  const id = crypto.randomBytes(24).toString('hex');
+  loginChallenges.set(id, { username, expiresAt: now + LOGIN_CHALLENGE_TTL_MS, attempts: 0 });
+  return id;
+}
+
+// Password reset mails, per username: when the last one went out, so asking again and again doesn't flood
+// the mailbox
+const resetMailSentAt = new Map();
+const RESET_MAIL_INTERVAL_MS = 60 * 1000;
+
+const ACCOUNT_MAILS = {
+  'verify-email': (user, link) => ({
+    subject: 'Confirm your email address',
+    text: `Hi ${user.username},\n\nPlease confirm that this is your email address by opening this link:\n${link}\n\n` +
+      'The link works once and expires in 3 days.'
+  }),
+  'reset-password': (user, link) => ({
+    subject: 'Reset your password',
+    text: `Hi ${user.username},\n\nSomeone asked to reset the password of your account. To pick a new one, open this link:\n${link}\n\n` +
+      'The link works once and expires in an hour. If you didn\'t ask for this, you can ignore this mail.'
+  })
+};
+
+// Mail a user a link with a new token for purpose ('verify-email' or 'reset-password'). Failures are
+// only logged: the user can always ask again.
+function sendAccountMail(user, purpose) {
+  const token = createAccountToken(store, purpose, user.username);
+  const { subject, text } = ACCOUNT_MAILS[purpose](user, `${APP_URL}/#/${purpose}/${token}`);
+  return mailer.send({ to: user.email, subject, text })
+    .catch(error => console.error(`[Server] Could not send the ${purpose} mail to ${user.username}:`, error));
+}
 
 // Helper function to generate a random hex color
 function getRandomColor() {
   return '#' + Math.floor(Math.random()*16777215).toString(16).padStart(6, '0');
 }
 
-// Generate a secure token
-function generateToken() {
-  return crypto.randomBytes(64).toString('hex');
+// A guest's entry in connectedUsers. Guest ids start with 'guest_' and are only ever issued by the server:
+// the one proven by the handshake's guest token (guestTokens.js), otherwise a new one for this socket
+function guestUser(socket, color = getRandomColor()) {
+  if (!socket.data.guestId) socket.data.guestId = newGuestId();
+  const guestId = socket.data.guestId;
+  return { id: guestId, username: `Guest-${guestId.substring(6, 11)}`, color };
+}
+
+// A registered user's entry in connectedUsers; only what the user list shows.
+// Others see the display name, if the user picked one, in place of the username they log in with.
+function connectedAccount(user) {
+  return { id: user.id, username: user.displayName || user.username, color: user.color, avatarUrl: user.avatarUrl };
+}
+
+// Tasks can only be assigned to registered users ({ userId, username } must match an account)
+function isRegisteredAssignee(assignee) {
+  const user = store.get('users', assignee.username);
+  return !!user && user.id === assignee.userId;
+}
+
+// Why a profile change ({ displayName, color, avatarUrl }) can't be made, or null if it can
+function profileError(username, changes) {
+  const displayName = changes.displayName !== undefined ? changes.displayName.trim() : undefined;
+  if (displayName && displayName !== username && store.get('users', displayName)) {
+    return 'That name belongs to another user';
+  }
+  if (changes.color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(changes.color)) {
+    return 'Color must be a hex color like #3498db';
+  }
+  if (changes.avatarUrl && !/^data:image\/(png|jpeg|gif|webp);base64,/.test(changes.avatarUrl)) {
+    return 'The avatar must be a PNG, JPEG, GIF or WebP image';
+  }
+  return null;
+}
+
+// Every board is a Socket.IO room; object, cursor, presence and chat events stay inside it
+function boardRoom(boardId) {
+  return `board:${boardId}`;
+}
+
+// Connected users currently viewing a board, listed once however many tabs they have open
+function usersInBoard(boardId) {
+  const socketIds = io.sockets.adapter.rooms.get(boardRoom(boardId)) || new Set();
+  const users = new Map();
+  socketIds.forEach(socketId => {
+    const user = connectedUsers.get(socketId);
+    if (user && !users.has(user.id)) users.set(user.id, user);
+  });
+  return Array.from(users.values());
+}
+
+// Whether any of a user's sockets is still on a board
+function isUserOnBoard(userId, boardId) {
+  return usersInBoard(boardId).some(user => user.id === userId);
+}
+
+function broadcastUserList(boardId) {
+  if (!boardId) return;
+  io.to(boardRoom(boardId)).emit('user-list-updated', usersInBoard(boardId));
+}
+
+// Avatars of the users walking around a board in 3D mode
+function broadcastAvatars(boardId) {
+  if (!boardId) return;
+  const users = Array.from(avatars.values())
+    .filter(avatar => avatar.boardId === boardId)
+    .map(avatar => avatar.user);
+  io.to(boardRoom(boardId)).emit('users-update', users);
+}
+
+// A user's name, color or avatar changed: update every open tab of theirs, and everyone on the boards
+// (and in the 3D spaces) those tabs are on
+function broadcastUserChange(user) {
+  const boardIds = new Set();
+  io.sockets.sockets.forEach(socket => {
+    if (socket.data.userId !== user.id) return;
+    connectedUsers.set(socket.id, user);
+    socket.emit('user-identity', user);
+    const avatar = avatars.get(socket.id);
+    if (avatar) Object.assign(avatar.user, { username: user.username, color: user.color });
+    if (socket.data.boardId) boardIds.add(socket.data.boardId);
+  });
+  boardIds.forEach(boardId => {
+    broadcastUserList(boardId);
+    broadcastAvatars(boardId);
+  });
+}
+
+// Take a socket off the board it is on
+function leaveBoard(socket) {
+  const boardId = socket.data.boardId;
+  if (!boardId) return;
+  socket.leave(boardRoom(boardId));
+  socket.data.boardId = undefined;
+  // The user's cursor and selection stay while another of their tabs is still on the board
+  if (!isUserOnBoard(socket.data.userId, boardId)) {
+    socket.to(boardRoom(boardId)).emit('user-cursor-removed', { userId: socket.data.userId });
+    socket.to(boardRoom(boardId)).emit('text-selection-updated', { userId: socket.data.userId, selection: null });
+  }
+  broadcastUserList(boardId);
+  if (avatars.delete(socket.id)) broadcastAvatars(boardId);
+}
+
+// A socket's role on a board: its user's, or viewer if it opened the board's public link
+// (socket.data.publicLinks: boardId -> id of that invite)
+function socketRole(socket, boardId) {
+  const publicLinks = socket.data.publicLinks || {};
+  return boards.roleOf(boardId, socket.data.userId) || (publicLinks[boardId] ? 'viewer' : null);
+}
+
+// After a socket's user or their role changed: send the boards they may open now, tell them their role
+// on the board they are on, and take them off it if they may no longer see it
+function syncBoardAccess(socket) {
+  socket.emit('boards-updated', boards.listFor(socket.data.userId));
+  const boardId = socket.data.boardId;
+  if (!boardId) return;
+  const role = socketRole(socket, boardId);
+  socket.emit('board-role', { boardId, role });
+  if (!role) leaveBoard(socket);
+}
+
+// Same, for every open tab of a user
+function syncUserAccess(userId) {
+  io.sockets.sockets.forEach(socket => {
+    if (socket.data.userId === userId) syncBoardAccess(socket);
+  });
+}
+
+// Disconnect the sockets still signed in with sessions that have been ended, which would otherwise act as
+// the account until they close. Their clients reconnect with the old login token, are refused
+// ('invalid-token') and carry on as guests.
+function disconnectSessions(sessionIds) {
+  const ended = new Set(sessionIds);
+  io.sockets.sockets.forEach(socket => {
+    if (ended.has(socket.data.sessionId)) socket.disconnect(true);
+  });
+}
+
+// Every board list depends on who is asking
+function broadcastBoardList() {
+  io.sockets.sockets.forEach(socket => socket.emit('boards-updated', boards.listFor(socket.data.userId)));
 }
 
 app.get('/', (req, res) => {
   res.send('<h1>Real-time Collaboration Server</h1>');
 });
 
+// A client that presents a login token (handshake auth.token) is bound to that account and session for the
+// life of the socket (socket.data.username/sessionId). Without a token it connects as a guest. An unknown or
+// expired token is refused ('invalid-token' / 'session-expired'), so the client can refresh its session or
+// drop the stale login instead of silently working as someone else. A guest token (handshake auth.guestToken)
+// that this server signed brings a guest back under its id; any other is ignored and the guest gets a new one.
+io.use((socket, next) => {
+  const token = socket.handshake.auth && socket.handshake.auth.token;
+  if (!token) {
+    socket.data.guestId = verifyGuestToken(store, socket.handshake.auth && socket.handshake.auth.guestToken);
+    return next();
+  }
+  const { error, session, user } = authenticateToken(store, token);
+  if (error) {
+    console.warn(`[Server] Refused connection ${socket.id}: ${error}`);
+    return next(new Error(error));
+  }
+  socket.data.username = user.username;
+  socket.data.sessionId = session.id;
+  next();
+});
+
 io.on('connection', (socket) => {
   console.log(`User connected: ${socket.id}`);
   
-  // Add user with temporary ID for now, will be updated on login/register
-  const userColor = getRandomColor();
-  connectedUsers.set(socket.id, { id: socket.id, username: `Guest-${socket.id.substring(0, 5)}`, color: userColor });
+  // Who this socket acts as: its connectedUsers entry and socket.data.userId, which is what cursors,
+  // presence and activity log entries carry. The client is told, since it can't go by its socket.id;
+  // a guest also gets the token that proves its id on the next connection.
+  const setIdentity = (user) => {
+    connectedUsers.set(socket.id, user);
+    socket.data.userId = user.id;
+    socket.emit('user-identity', socket.data.username ? user : { ...user, guestToken: createGuestToken(store, user.id) });
+    syncBoardAccess(socket);
+  };
 
-  // Register a new user
-  socket.on('register', (userData, callback) => {
-    const { username, email, password, color } = userData;
+  // Attribute an activity log entry to the sender, whoever the client said made it
+  const attributed = (entry) => entry && { ...entry, userId: socket.data.userId };
+
+  // Add to the audit trail (authAudit.js); details: { username, userId }
+  const audit = (type, details = {}) => recordAuthEvent(store, type, { ...details, address: socket.handshake.address });
+
+  // Guests get a temporary name; login/register binds the socket to an account
+  const account = socket.data.username && store.get('users', socket.data.username);
+  setIdentity(account ? connectedAccount(account) : guestUser(socket));
+
+  // Answer a dropped event through its ack when one is supplied, otherwise as `replyEvent`
+  const refuse = (args, replyEvent, reply) => {
+    const callback = typeof args[args.length - 1] === 'function' ? args[args.length - 1] : null;
+    if (callback) {
+      callback(reply);
+    } else {
+      socket.emit(replyEvent, reply);
+    }
+  };
+
+  // Every incoming event is checked against its schema before any handler sees it.
+  // Malformed events, and events that are answered through an ack but came without one, are dropped;
+  // the sender gets an 'invalid-payload' reply.
+  socket.use((packet, next) => {
+    const [event, ...args] = packet;
+    const hasAck = typeof args[args.length - 1] === 'function';
+    const message = validateEvent(event, hasAck ? args.slice(0, -1) : args, hasAck);
+    if (!message) return next();
+
+    console.warn(`[Server] Dropped '${event}' from ${socket.id}: ${message}`);
+    refuse(args, 'invalid-payload', { success: false, error: 'invalid-payload', event, message });
+  });
+
+  // Then against the sender's role on its board (boardRoles.js); what the role doesn't allow is
+  // dropped with a 'forbidden' reply
+  socket.use((packet, next) => {
+    const [event, ...args] = packet;
+    const required = EVENT_ROLES[event];
+    if (!required || hasRole(socketRole(socket, socket.data.boardId), required)) return next();
+
+    const message = `'${event}' needs the ${required} role on this board`;
+    console.warn(`[Server] Refused '${event}' from ${socket.id}: ${message}`);
+    refuse(args, 'permission-denied', { success: false, error: 'forbidden', event, message });
+  });
+
+  // The board this socket is looking at (undefined until it joins one)
+  const currentBoard = () => boards.get(socket.data.boardId);
+
+  const leaveCurrentBoard = () => leaveBoard(socket);
+
+  // Broadcast a change to the board, stamped with the board's next seq and kept for replay.
+  // With excludeSender the socket that made the change only gets a 'board-seq' so its sequence has no gap.
+  const publishBoardEvent = (board, event, data, { excludeSender = false } = {}) => {
+    const payload = board.recordEvent(event, data, excludeSender ? socket.id : null);
+    if (excludeSender) {
+      socket.to(boardRoom(board.id)).emit(event, payload);
+      socket.emit('board-seq', { seq: payload.seq });
+    } else {
+      io.to(boardRoom(board.id)).emit(event, payload);
+    }
+    return payload;
+  };
+
+  // Bring a client that last saw `since` ({ epoch, seq }) up to date: replay the events it missed
+  // while the board still has them, otherwise send a full snapshot
+  const catchUp = (board, since) => {
+    const missed = board.eventsSince(since);
+    if (!missed) {
+      socket.emit('board-snapshot', board.getSnapshot());
+      return;
+    }
+    missed.forEach(({ event, data, senderId }) => {
+      if (senderId === socket.id) {
+        socket.emit('board-seq', { seq: data.seq });
+      } else {
+        socket.emit(event, data);
+      }
+    });
+  };
+
+  // since: the { epoch, seq } a reconnecting client last saw; without it the client gets a snapshot
+  const joinBoard = (boardId, since) => {
+    const board = boards.get(boardId);
+    const role = board && socketRole(socket, boardId);
+    if (!role) return null;
+    if (socket.data.boardId !== boardId) {
+      leaveCurrentBoard();
+      socket.join(boardRoom(boardId));
+      socket.data.boardId = boardId;
+    }
+    socket.emit('board-role', { boardId, role });
+    // Send the current board (or what was missed of it) so late joiners see everything created before they arrived
+    catchUp(board, since);
+    broadcastUserList(boardId);
+    return board;
+  };
+
+  // Everyone starts on the default board until they ask for another one
+  joinBoard(DEFAULT_BOARD_ID);
+
+  socket.on('list-boards', (callback) => {
+    if (typeof callback === 'function') callback(boards.listFor(socket.data.userId));
+  });
+
+  // The creator becomes the board's owner; nobody else can open it until they are made a member
+  socket.on('create-board', (data, callback) => {
+    const info = boards.create(data && data.name, connectedUsers.get(socket.id));
+    console.log(`[Server] Board '${info.name}' (${info.id}) created by ${socket.id}`);
+    broadcastBoardList();
+    if (typeof callback === 'function') callback({ success: true, board: info });
+  });
+
+  socket.on('join-board', (data, callback) => {
+    const boardId = data && data.boardId;
+    const board = joinBoard(boardId, data && data.since);
+    if (!board) {
+      const error = boards.exists(boardId)
+        ? `You don't have access to board '${boardId}'`
+        : `Board '${boardId}' does not exist`;
+      if (typeof callback === 'function') callback({ success: false, error });
+      return;
+    }
+    console.log(`[Server] ${socket.id} joined board ${boardId}`);
+    if (typeof callback === 'function') {
+      callback({ success: true, board: boards.getInfo(boardId), upToDate: board.isUpToDate(data.since) });
+    }
+  });
+
+  // A client noticed a gap in the board's seqs and asks for what it missed
+  socket.on('request-board-events', (data) => {
+    const board = currentBoard();
+    if (!board) return;
+    console.log(`[Server] ${socket.id} missed events on board ${board.id} after seq ${data.since.seq}`);
+    catchUp(board, data.since);
+  });
+
+  socket.on('leave-board', () => {
+    leaveCurrentBoard();
+  });
+
+  // Members of the current board; anyone who can see the board can see who else can
+  socket.on('list-board-members', (callback) => {
+    if (typeof callback !== 'function') return;
+    const boardId = socket.data.boardId;
+    if (!boardId) return callback({ success: false, error: 'Not on a board' });
+    callback({ success: true, members: boards.members(boardId) });
+  });
+
+  // An owner adding a member to the current board, changing their role or removing them (role null).
+  // Registered users can be named by username; guests only by their id.
+  socket.on('set-board-member', (data, callback) => {
+    const boardId = socket.data.boardId;
+    const account = data.username && store.get('users', data.username);
+    const online = data.userId && Array.from(connectedUsers.values()).find(user => user.id === data.userId);
+    const member = data.userId && boards.members(boardId).find(existing => existing.userId === data.userId);
+    const user = account
+      ? { id: account.id, username: account.username }
+      : online || (member && { id: member.userId, username: member.username });
+    if (!user) {
+      return callback({ success: false, error: data.username ? `No user named '${data.username}'` : 'Unknown user' });
+    }
+
+    const error = boards.setMember(boardId, user, data.role);
+    if (error) return callback({ success: false, error });
+    console.log(`[Server] ${socket.id} set ${user.id} to ${data.role || 'no role'} on board ${boardId}`);
+
+    // The user's open tabs see the change straight away
+    syncUserAccess(user.id);
+    callback({ success: true, members: boards.members(boardId) });
+  });
+
+  // An owner creating an invite link to the current board. The token is only ever sent back here.
+  socket.on('create-invite', (data, callback) => {
+    const boardId = socket.data.boardId;
+    const badLimit = [data.expiresInHours, data.maxUses].some(limit => limit !== undefined && !(limit > 0));
+    if (badLimit || (data.maxUses !== undefined && !Number.isInteger(data.maxUses))) {
+      return callback({ success: false, error: 'Expiry and use limit must be positive (the use limit a whole number)' });
+    }
+    const { invite, token } = createInvite(store, boardId, socket.data.userId, data);
+    console.log(`[Server] ${socket.id} created ${invite.public ? 'the public link' : `a ${invite.role} invite`} for board ${boardId}`);
+    callback({ success: true, invite, token, invites: listInvites(store, boardId) });
+  });
+
+  socket.on('list-invites', (callback) => {
+    if (typeof callback !== 'function') return;
+    callback({ success: true, invites: listInvites(store, socket.data.boardId) });
+  });
+
+  // Revoking the public link also closes the board to those viewing it through that link
+  socket.on('revoke-invite', (data, callback) => {
+    const boardId = socket.data.boardId;
+    const invite = revokeInvite(store, boardId, data.inviteId);
+    if (!invite) return callback({ success: false, error: 'No such invite' });
+    if (invite.public) {
+      io.sockets.sockets.forEach(other => {
+        if (!other.data.publicLinks || other.data.publicLinks[boardId] !== invite.id) return;
+        delete other.data.publicLinks[boardId];
+        syncBoardAccess(other);
+      });
+    }
+    callback({ success: true, invites: listInvites(store, boardId) });
+  });
+
+  // Someone opened an invite link: make them a member with its role (a role they already have at least
+  // is kept), or for the public link let this socket view the board. The client then joins the board.
+  socket.on('accept-invite', (data, callback) => {
+    const { error, invite } = redeemInvite(store, data.token);
+    const info = invite && boards.getInfo(invite.boardId);
+    if (!info) return callback({ success: false, error: error || 'This board no longer exists' });
+
+    if (invite.public) {
+      socket.data.publicLinks = { ...socket.data.publicLinks, [invite.boardId]: invite.id };
+      syncBoardAccess(socket);
+    } else if (!hasRole(boards.roleOf(invite.boardId, socket.data.userId), invite.role)) {
+      boards.setMember(invite.boardId, connectedUsers.get(socket.id), invite.role);
+      syncUserAccess(socket.data.userId);
+    }
+    console.log(`[Server] ${socket.id} accepted an invite to board ${invite.boardId}`);
+    callback({ success: true, board: info, role: socketRole(socket, invite.boardId) });
+  });
+
+  // Clients rebuild their scene at will (e.g. after remounting it) and ask for a fresh snapshot
+  socket.on('request-board-snapshot', () => {
+    const board = currentBoard();
+    if (board) socket.emit('board-snapshot', board.getSnapshot());
+  });
+
+  // Bind this socket to an account and session after register/login/refresh.
+  // Returns what the client keeps: the user with the session's tokens.
+  const signIn = (user, credentials) => {
+    const { sessionId, ...tokens } = credentials;
+    socket.data.username = user.username;
+    socket.data.sessionId = sessionId;
+    setIdentity(connectedAccount(user));
     
+    // Broadcast updated user list
+    broadcastUserList(socket.data.boardId);
+    return { ...user, ...tokens };
+  };
+
+  // Store a new account. Returns { user } (what the client may see of it), or { error }
+  const createAccount = async ({ username, email, password, color }) => {
     // Check if username already exists
-    const existingUser = Array.from(registeredUsers.values()).find(user => user.username === username);
-    if (existingUser) {
-      return callback({ success: false, error: 'Username already exists' });
+    if (store.get('users', username)) {
+      return { error: 'Username already exists' };
     }
     
-    // Create a new user
-    const userId = socket.id;
-    const userColor = color || getRandomColor();
-    const token = generateToken();
+    let passwordHash;
+    try {
+      passwordHash = await hashPassword(password);
+    } catch (error) {
+      console.error('[Server] Failed to hash password during registration:', error);
+      return { error: 'Registration failed' };
+    }
+    // Someone may have taken the name while the password was being hashed
+    if (store.get('users', username)) {
+      return { error: 'Username already exists' };
+    }
     
+    // Create a new user
     const newUser = {
-      id: userId,
+      id: newUserId(),
       username,
       email,
-      color: userColor,
-      token
+      emailVerified: false,
+      color: color || getRandomColor()
     };
-    
-    // In production, you would hash the password before storing
-    registeredUsers.set(username, { ...newUser, password });
-    
-    // Update the connected user entry
-    connectedUsers.set(socket.id, newUser);
-    
-    // Broadcast updated user list
-    io.emit('user-list-updated', Array.from(connectedUsers.values()));
-    
-    callback({ success: true, user: newUser });
+    store.put('users', username, { ...newUser, passwordHash });
+    if (isAdmin(username)) boards.grantMainBoard([newUser]);
+    sendAccountMail(newUser, 'verify-email');
+    return { user: newUser };
+  };
+
+  // Register a new user
+  socket.on('register', async (userData, callback) => {
+    const { error, user } = await createAccount(userData);
+    if (error) return callback({ success: false, error });
+    audit('register', { username: user.username, userId: user.id });
+    callback({ success: true, user: signIn(user, createSession(store, user.username)) });
+  });
+
+  // A guest registering keeps what they did: their memberships, the tasks they created, their activity
+  // log entries and comments move from the guest id to the new account. Boards whose tasks changed are
+  // sent again in full.
+  socket.on('upgrade-account', async (userData, callback) => {
+    const guestId = socket.data.userId;
+    if (socket.data.username || !guestId.startsWith('guest_')) {
+      return callback({ success: false, error: 'Only guests can upgrade to an account' });
+    }
+    const { error, user } = await createAccount(userData);
+    if (error) return callback({ success: false, error });
+    audit('register', { username: user.username, userId: user.id });
+
+    // Before signing in, so the new id already holds the guest's roles when board access is checked
+    const changedBoards = boards.reattribute(guestId, user);
+    const signedIn = signIn(user, createSession(store, user.username));
+    console.log(`[Server] Guest ${guestId} upgraded to ${user.username}; re-attributed work on ${changedBoards.length} boards`);
+
+    changedBoards.forEach(boardId => {
+      io.to(boardRoom(boardId)).emit('board-snapshot', boards.get(boardId).getSnapshot());
+    });
+    const boardId = socket.data.boardId;
+    if (boardId && !isUserOnBoard(guestId, boardId)) {
+      socket.to(boardRoom(boardId)).emit('user-cursor-removed', { userId: guestId });
+      socket.to(boardRoom(boardId)).emit('text-selection-updated', { userId: guestId, selection: null });
+    }
+    callback({ success: true, user: signedIn });
   });
   
-  // Login an existing user
-  socket.on('login', (userData, callback) => {
+  // Refusals of a login carry a code (LoginErrorCode in socketEvents.ts) besides the message
+  const lockedOut = (lockoutMs) => ({
+    success: false,
+    code: 'locked-out',
+    error: 'Too many failed login attempts. Please wait before trying again.',
+    retryAfter: Math.ceil(lockoutMs / 1000)
+  });
+
+  // Login an existing user. Attempts count against the username and the client's address (see
+  // loginThrottle.js) before the password is checked, and are taken back if it is right, so logins from
+  // several sockets at once can't race the count. One attempt at a time per socket.
+  socket.on('login', async (userData, callback) => {
     const { username, password } = userData;
-    
-    // Check if user exists
-    const user = registeredUsers.get(username);
-    if (!user) {
-      return callback({ success: false, error: 'Invalid username or password' });
+    const address = socket.handshake.address;
+    if (socket.data.loggingIn) {
+      return callback({ success: false, code: 'login-in-progress', error: 'A login is already in progress' });
     }
-    
-    // Check password
-    if (user.password !== password) {
-      return callback({ success: false, error: 'Invalid username or password' });
+    const startedAt = Date.now();
+    const lockedFor = Math.max(usernameThrottle.beginAttempt(username, startedAt), addressThrottle.beginAttempt(address, startedAt));
+    if (lockedFor > 0) {
+      audit('login-locked', { username });
+      return callback(lockedOut(lockedFor));
     }
     
-    // Generate a new token
-    const token = generateToken();
-    const loggedInUser = { ...user, token, id: socket.id };
-    
-    // Update the user's data
-    registeredUsers.set(username, { ...loggedInUser, password });
-    
-    // Update the connected user entry
-    connectedUsers.set(socket.id, loggedInUser);
+    // Unknown users and wrong passwords get the same answer
+    const user = store.get('users', username);
+    let valid = false;
+    socket.data.loggingIn = true;
+    try {
+      valid = !!user && await verifyPassword(password, user.passwordHash);
+    } catch (error) {
+      console.error('[Server] Failed to verify password during login:', error);
+    } finally {
+      socket.data.loggingIn = false;
+    }
+    if (!valid) {
+      audit('login-failed', { username, userId: user && user.id });
+      const lockoutMs = Math.max(usernameThrottle.lockIfExhausted(username), addressThrottle.lockIfExhausted(address));
+      if (lockoutMs > 0) {
+        console.warn(`[Server] Locked out logins as ${username} or from ${address} for ${lockoutMs / 1000}s`);
+        return callback(lockedOut(lockoutMs));
+      }
+      return callback({ success: false, code: 'invalid-credentials', error: 'Invalid username or password' });
+    }
+
+    // Other attempts may have locked the username or address out while the password was checked
+    const lockedSince = Math.max(usernameThrottle.retryAfter(username), addressThrottle.retryAfter(address));
+    if (lockedSince > 0) {
+      audit('login-locked', { username });
+      return callback(lockedOut(lockedSince));
+    }
+    usernameThrottle.forgive(username, startedAt);
+    addressThrottle.forgive(address, startedAt);
     
-    // Broadcast updated user list
-    io.emit('user-list-updated', Array.from(connectedUsers.values()));
+    // With two-factor authentication the session is only opened once the code checks out too
+    if (user.totp && user.totp.enabled) {
+      return callback({
+        success: false,
+        code: 'second-factor-required',
+        challenge: createLoginChallenge(username),
+        error: 'Enter the code from your authenticator app, or a backup code'
+      });
+    }
     
-    callback({ success: true, user: loggedInUser });
+    usernameThrottle.reset(username);
+    audit('login', { username, userId: user.id });
+    callback({ success: true, user: signIn(publicUser(user), createSession(store, username)) });
+  });
+
+  // The second step of a login with two-factor authentication. Wrong codes count as failed logins.
+  socket.on('login-second-factor', (data, callback) => {
+    const address = socket.handshake.address;
+    const challenge = loginChallenges.get(data.challenge);
+    if (!challenge || challenge.expiresAt <= Date.now()) {
+      loginChallenges.delete(data.challenge);
+      return callback({ success: false, code: 'challenge-expired', error: 'The login has expired. Please log in again.' });
+    }
+    const { username } = challenge;
+    const lockedFor = Math.max(usernameThrottle.retryAfter(username), addressThrottle.retryAfter(address));
+    if (lockedFor > 0) {
+      audit('login-locked', { username });
+      return callback(lockedOut(lockedFor));
+    }
+
+    const user = store.get('users', username);
+    const updated = user && useSecondFactor(user, data.code);
+    if (!updated) {
+      audit('login-failed', { username, userId: user && user.id });
+      if (++challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) loginChallenges.delete(data.challenge);
+      const lockoutMs = Math.max(usernameThrottle.recordFailure(username), addressThrottle.recordFailure(address));
+      if (lockoutMs > 0) return callback(lockedOut(lockoutMs));
+      return callback({ success: false, code: 'invalid-code', error: 'That code is not valid' });
+    }
+
+    loginChallenges.delete(data.challenge);
+    store.put('users', username, updated);
+    usernameThrottle.reset(username);
+    audit('login', { username, userId: user.id });
+    callback({ success: true, user: signIn(publicUser(updated), createSession(store, username)) });
+  });
+  
+  // Trade a refresh token for a new token pair, e.g. when a reload finds the login token expired.
+  // The socket is signed in to the account as with 'login'.
+  socket.on('refresh-session', (data, callback) => {
+    const { error, credentials, user } = refreshSession(store, data.refreshToken);
+    if (error) {
+      console.warn(`[Server] Refused session refresh from ${socket.id}: ${error}`);
+      audit('refresh-failed');
+      return callback({ success: false, error });
+    }
+    audit('token-refresh', { username: user.username, userId: user.id });
+    callback({ success: true, user: signIn(publicUser(user), credentials) });
   });
   
+  // A registered user changing their display name, color or avatar (avatarUrl null removes it;
+  // an empty display name goes back to the username)
+  socket.on('update-profile', (changes, callback) => {
+    const account = socket.data.username && store.get('users', socket.data.username);
+    if (!account) return callback({ success: false, error: 'Only registered users have a profile' });
+    const error = profileError(account.username, changes);
+    if (error) return callback({ success: false, error });
+
+    const { displayName, avatarUrl, ...updated } = account;
+    const newDisplayName = changes.displayName !== undefined ? changes.displayName.trim() : displayName;
+    const newAvatarUrl = changes.avatarUrl !== undefined ? changes.avatarUrl : avatarUrl;
+    if (newDisplayName && newDisplayName !== account.username) updated.displayName = newDisplayName;
+    if (newAvatarUrl) updated.avatarUrl = newAvatarUrl;
+    if (changes.color !== undefined) updated.color = changes.color;
+    store.put('users', account.username, updated);
+
+    console.log(`[Server] ${account.username} updated their profile`);
+    broadcastUserChange(connectedAccount(updated));
+    callback({ success: true, user: publicUser(updated) });
+  });
+
+  // Changing the password ends the user's other sessions; this one carries on
+  socket.on('change-password', async (data, callback) => {
+    const account = socket.data.username && store.get('users', socket.data.username);
+    if (!account) return callback({ success: false, error: 'Only registered users have a password' });
+    if (!data.newPassword) return callback({ success: false, error: 'The new password must not be empty' });
+
+    let passwordHash;
+    try {
+      if (!await verifyPassword(data.currentPassword, account.passwordHash)) {
+        return callback({ success: false, error: 'Current password is incorrect' });
+      }
+      passwordHash = await hashPassword(data.newPassword);
+    } catch (error) {
+      console.error('[Server] Failed to change password:', error);
+      return callback({ success: false, error: 'Could not change the password' });
+    }
+    // Re-read the account, which may have changed while the passwords were being hashed
+    const current = store.get('users', account.username);
+    if (!current) return callback({ success: false, error: 'Only registered users have a password' });
+    store.put('users', account.username, { ...current, passwordHash });
+    disconnectSessions(revokeOtherSessions(store, account.username, socket.data.sessionId));
+    audit('password-change', { username: account.username, userId: account.id });
+    console.log(`[Server] ${account.username} changed their password`);
+    callback({ success: true });
+  });
+
+  // Turning on two-factor authentication takes two steps: setup-2fa makes a secret for the user's
+  // authenticator app, enable-2fa turns it on once the app's first code checks out and hands out the
+  // backup codes. Turning it off takes a code (or backup code) too.
+  socket.on('setup-2fa', (callback) => {
+    if (typeof callback !== 'function') return;
+    const account = socket.data.username && store.get('users', socket.data.username);
+    if (!account) return callback({ success: false, error: 'Only registered users can use two-factor authentication' });
+    if (account.totp && account.totp.enabled) return callback({ success: false, error: 'Two-factor authentication is already on' });
+
+    const secret = generateSecret();
+    store.put('users', account.username, { ...account, totp: { secret, enabled: false, lastStep: -1 } });
+    callback({ success: true, secret, otpauthUri: otpauthUri(account.username, secret) });
+  });
+
+  socket.on('enable-2fa', (data, callback) => {
+    const account = socket.data.username && store.get('users', socket.data.username);
+    if (!account || !account.totp || account.totp.enabled) {
+      return callback({ success: false, error: 'Set up two-factor authentication first' });
+    }
+    const step = verifyCode(account.totp.secret, data.code.trim());
+    if (step === null) return callback({ success: false, error: 'That code is not valid' });
+
+    const { codes, hashes } = generateBackupCodes();
+    const updated = { ...account, totp: { ...account.totp, enabled: true, lastStep: step }, backupCodes: hashes };
+    store.put('users', account.username, updated);
+    audit('two-factor-enabled', { username: account.username, userId: account.id });
+    callback({ success: true, backupCodes: codes, user: publicUser(updated) });
+  });
+
+  socket.on('disable-2fa', (data, callback) => {
+    const account = socket.data.username && store.get('users', socket.data.username);
+    if (!account || !account.totp || !account.totp.enabled) {
+      return callback({ success: false, error: 'Two-factor authentication is not on' });
+    }
+    if (!useSecondFactor(account, data.code)) return callback({ success: false, error: 'That code is not valid' });
+
+    const { totp, backupCodes, ...updated } = account;
+    store.put('users', account.username, updated);
+    audit('two-factor-disabled', { username: account.username, userId: account.id });
+    callback({ success: true, user: publicUser(updated) });
+  });
+
+  // Email verification: a link is mailed on registration, and again on request
+  socket.on('resend-verification', (callback) => {
+    if (typeof callback !== 'function') return;
+    const account = socket.data.username && store.get('users', socket.data.username);
+    if (!account) return callback({ success: false, error: 'Only registered users have an email address' });
+    if (account.emailVerified) return callback({ success: false, error: 'Your email address is already confirmed' });
+    sendAccountMail(account, 'verify-email');
+    callback({ success: true });
+  });
+
+  // Opening the link needn't be done signed in; if it is, the user comes back updated
+  socket.on('verify-email', (data, callback) => {
+    const { error, username } = consumeAccountToken(store, 'verify-email', data.token);
+    const account = username && store.get('users', username);
+    if (error || !account) return callback({ success: false, error: error || 'This link is not valid' });
+
+    const updated = { ...account, emailVerified: true };
+    store.put('users', username, updated);
+    audit('email-verified', { username, userId: account.id });
+    callback({ success: true, user: socket.data.username === username ? publicUser(updated) : undefined });
+  });
+
+  // Forgotten passwords: every account with that email address gets a reset link. The answer is the same
+  // whether there are any, so it can't be used to find out who has an account.
+  socket.on('request-password-reset', (data, callback) => {
+    const email = data.email.trim().toLowerCase();
+    const now = Date.now();
+    store.list('users')
+      .filter(user => email && typeof user.email === 'string' && user.email.trim().toLowerCase() === email)
+      .filter(user => !(now - (resetMailSentAt.get(user.username) || 0) < RESET_MAIL_INTERVAL_MS))
+      .forEach(user => {
+        resetMailSentAt.set(user.username, now);
+        audit('password-reset-requested', { username: user.username, userId: user.id });
+        sendAccountMail(user, 'reset-password');
+      });
+    callback({ success: true });
+  });
+
+  // A new password from a reset link. Every session of the account ends, and since the link came by mail
+  // the address counts as confirmed.
+  socket.on('reset-password', async (data, callback) => {
+    if (!data.newPassword) return callback({ success: false, error: 'The new password must not be empty' });
+    let passwordHash;
+    try {
+      passwordHash = await hashPassword(data.newPassword);
+    } catch (error) {
+      console.error('[Server] Failed to hash password during reset:', error);
+      return callback({ success: false, error: 'Could not reset the password' });
+    }
+    const { error, username } = consumeAccountToken(store, 'reset-password', data.token);
+    const account = username && store.get('users', username);
+    if (error || !account) return callback({ success: false, error: error || 'This link is not valid' });
+
+    store.put('users', username, { ...account, passwordHash, emailVerified: true });
+    disconnectSessions(revokeOtherSessions(store, username, null));
+    usernameThrottle.reset(username);
+    audit('password-reset', { username, userId: account.id });
+    console.log(`[Server] ${username} reset their password`);
+    callback({ success: true });
+  });
+
+  // Registered members of the current board to pick from, e.g. to assign a task to. Only signed-in users
+  // may look, so guests can't list the accounts on the server.
+  socket.on('find-users', (data, callback) => {
+    if (!socket.data.username) return callback({ success: false, error: 'Only registered users can look up users' });
+    const query = data.query.trim().toLowerCase();
+    if (!query) return callback({ success: true, users: [] });
+    const users = boards.members(socket.data.boardId)
+      .flatMap(member => {
+        const user = store.get('users', member.username);
+        return user && user.id === member.userId ? [user] : [];
+      })
+      .filter(user => user.username.toLowerCase().includes(query) ||
+        (user.displayName && user.displayName.toLowerCase().includes(query)))
+      .sort((a, b) => a.username.localeCompare(b.username))
+      .slice(0, 10)
+      .map(user => ({ userId: user.id, username: user.username, displayName: user.displayName }));
+    callback({ success: true, users });
+  });
+
+  // The audit trail, newest first; admins only
+  socket.on('list-auth-events', (filter, callback) => {
+    if (!isAdmin(socket.data.username)) {
+      return callback({ success: false, error: 'Only admins can see the audit trail' });
+    }
+    callback({ success: true, events: queryAuthEvents(store, filter) });
+  });
+
   // Logout
   socket.on('logout', () => {
-    // Just update the user to be anonymous, don't disconnect
-    const userColor = getRandomColor();
-    connectedUsers.set(socket.id, { id: socket.id, username: `Guest-${socket.id.substring(0, 5)}`, color: userColor });
+    // End the session so its tokens stop working, but don't disconnect: the user carries on as a guest.
+    // Other tabs that share the session are disconnected (and come back as guests).
+    if (socket.data.username) audit('logout', { username: socket.data.username, userId: socket.data.userId });
+    const { sessionId } = socket.data;
+    revokeSession(store, sessionId);
+    socket.data.username = undefined;
+    socket.data.sessionId = undefined;
+    if (sessionId) disconnectSessions([sessionId]);
+    setIdentity(guestUser(socket));
     
     // Broadcast updated user list
-    io.emit('user-list-updated', Array.from(connectedUsers.values()));
+    broadcastUserList(socket.data.boardId);
   });
   
-  io.emit('user-list-updated', Array.from(connectedUsers.values())); // Broadcast updated list of user objects
   console.log('Connected users:', Array.from(connectedUsers.values()));
 
   socket.on('disconnect', () => {
     console.log(`User disconnected: ${socket.id}`);
     connectedUsers.delete(socket.id);
-    io.emit('user-list-updated', Array.from(connectedUsers.values())); // Broadcast updated list
+    const boardId = socket.data.boardId;
+    if (boardId) {
+      broadcastUserList(boardId); // Broadcast updated list
+      // Also notify other clients on the board that this user's cursor should be removed,
+      // unless they still have the board open in another tab
+      if (!isUserOnBoard(socket.data.userId, boardId)) {
+        io.to(boardRoom(boardId)).emit('user-cursor-removed', { userId: socket.data.userId });
+        io.to(boardRoom(boardId)).emit('text-selection-updated', { userId: socket.data.userId, selection: null });
+      }
+      if (avatars.delete(socket.id)) broadcastAvatars(boardId);
+    }
     console.log('Connected users:', Array.from(connectedUsers.values()));
-    // Also notify other clients that this user's cursor should be removed
-    socket.broadcast.emit('user-cursor-removed', { userId: socket.id });
   });
 
+  // Writes carry the version of the object they were based on (baseVersion).
+  // A write based on an outdated version is refused and the sender gets the current state back
+  // as an 'operation-rejected' reply (through the ack when one is supplied, otherwise as an event).
+  const rejectStaleWrite = (board, operation, data, callback) => {
+    const reason = board.checkVersion(data && data.objectId, data && data.baseVersion);
+    if (!reason) return false;
+    rejectWrite(board, operation, data, reason, callback);
+    return true;
+  };
+
+  // Refuse a write, sending back the object as the server holds it
+  const rejectWrite = (board, operation, data, reason, callback) => {
+    const objectId = data && data.objectId;
+    const rejection = {
+      operation,
+      objectId,
+      reason,
+      baseVersion: data && data.baseVersion,
+      currentState: board.getObject(objectId)
+    };
+    console.warn(`[Server] Rejected '${operation}' from ${socket.id} for ${objectId}: ${reason}`);
+    if (typeof callback === 'function') {
+      callback({ success: false, error: 'operation-rejected', rejection });
+    } else {
+      socket.emit('operation-rejected', rejection);
+    }
+  };
+
+  // Refuse a write that would give a task a status the board has no zone for, or, when the board's
+  // WIP policy is 'refuse', move it into a zone that is at its WIP limit (see workflow.js)
+  const rejectStatusChange = (board, operation, data, status, callback) => {
+    if (!status) return false;
+    let reason = null;
+    if (!board.hasStatus(status)) {
+      reason = 'unknown-status';
+    } else if (board.wipPolicy === 'refuse' && board.wouldExceedWipLimit(data.objectId, status)) {
+      reason = 'wip-limit';
+    }
+    if (!reason) return false;
+    rejectWrite(board, operation, data, reason, callback);
+    return true;
+  };
+
+  // After a change to a board's tasks, keep them in their swimlanes: if the lanes changed or tasks moved
+  // into their cell, everyone gets the board's layout again along with those tasks
+  const publishLaneChanges = (board) => {
+    const layout = board.updateLanes();
+    if (layout) publishBoardEvent(board, 'workflow-updated', layout);
+  };
+
   // Listen for object movement from a client
-  socket.on('object-moved', (data) => {
+  socket.on('object-moved', (data, callback) => {
     console.log(`[Server] Received 'object-moved' from ${socket.id}:`, data);
-    // Broadcast the updated object information to all other clients
-    socket.broadcast.emit('object-updated', data);
-    console.log(`[Server] Broadcasted 'object-updated' to other clients with data:`, data);
+    const board = currentBoard();
+    if (!board) return;
+    if (rejectStaleWrite(board, 'object-moved', data, callback)) return;
+    if (rejectStatusChange(board, 'object-moved', data, data.taskStatus, callback)) return;
+    if (data.laneField && data.laneField.property === 'taskAssignees' && !data.laneField.value.every(isRegisteredAssignee)) {
+      rejectWrite(board, 'object-moved', data, 'unknown-assignee', callback);
+      return;
+    }
+
+    const updated = board.moveObject(data);
+    // Broadcast the updated object information to all other clients on the board
+    const moved = { ...data, version: updated.version };
+    delete moved.baseVersion;
+    if (moved.userId) moved.userId = socket.data.userId;
+    if (moved.activityLogEntry) moved.activityLogEntry = attributed(moved.activityLogEntry);
+    const broadcast = publishBoardEvent(board, 'object-updated', moved, { excludeSender: true });
+    if (typeof callback === 'function') callback({ success: true, version: updated.version, seq: broadcast.seq });
+    console.log(`[Server] Broadcasted 'object-updated' to board ${board.id} with data:`, broadcast);
+    publishLaneChanges(board);
+  });
+
+  // Status change made by dragging a task into another zone; stored and broadcast like a 'taskStatus' property change
+  socket.on('task-status-update', (data, callback) => {
+    console.log(`[Server] Received 'task-status-update' from ${socket.id}:`, data);
+    const board = currentBoard();
+    if (!board) return;
+    if (rejectStaleWrite(board, 'task-status-update', data, callback)) return;
+    if (rejectStatusChange(board, 'task-status-update', data, data.newStatus, callback)) return;
+
+    const change = {
+      objectId: data.objectId,
+      property: 'taskStatus',
+      value: data.newStatus,
+      userId: socket.data.userId,
+      activityLogEntry: attributed(data.activityLogEntry)
+    };
+    const updated = board.applyPropertyChange(change);
+    const broadcast = publishBoardEvent(board, 'object-property-updated', { ...change, version: updated.version }, { excludeSender: true });
+    if (typeof callback === 'function') callback({ success: true, version: updated.version, seq: broadcast.seq });
+    console.log(`[Server] Broadcasted 'object-property-updated' (status) to board ${board.id} for`, data.objectId);
+    publishLaneChanges(board);
   });
 
   // Listen for object creation request from a client
   socket.on('request-create-object', (data) => {
     console.log(`[Server] Received 'request-create-object' from ${socket.id}:`, data);
-    // Broadcast the new object information to all clients
-    io.emit('object-created', data); // Send to all clients, including sender
-    console.log(`[Server] Broadcasted 'object-created' to all clients with data:`, data);
+    const board = currentBoard();
+    if (!board) return;
+    // New tasks are held to the same rules as changes to existing ones: registered assignees, dependencies
+    // that don't go round in a circle, and the WIP limit of the zone they start in
+    const target = { objectId: data.sharedId };
+    if (data.taskData.assignees && !data.taskData.assignees.every(isRegisteredAssignee)) {
+      rejectWrite(board, 'request-create-object', target, 'unknown-assignee');
+      return;
+    }
+    if (data.taskData.blockedBy && !board.canBeBlockedBy(data.sharedId, data.taskData.blockedBy)) {
+      rejectWrite(board, 'request-create-object', target, 'invalid-dependency');
+      return;
+    }
+    const status = board.newTaskStatus(data.taskData);
+    if (rejectStatusChange(board, 'request-create-object', target, status)) return;
+    const created = board.createObject({ ...data, createdBy: socket.data.userId });
+    if (!created) return;
+    // Broadcast the new object information to all clients on the board
+    // Send the server's copy (with its version and text state) to all clients, including sender
+    publishBoardEvent(board, 'object-created', created);
+    console.log(`[Server] Broadcasted 'object-created' to board ${board.id} with data:`, created);
+    publishLaneChanges(board);
   });
 
   // Listen for object deletion request from a client
   socket.on('request-delete-object', (data) => {
     console.log(`[Server] Received 'request-delete-object' from ${socket.id}:`, data);
-    // Broadcast the deleted object information to all other clients
-    // We use io.emit here so the deleting client also receives confirmation and can handle any UI updates if necessary,
+    const board = currentBoard();
+    if (!board) return;
+    if (!board.deleteObject(data.objectId)) return;
+    // Broadcast the deleted object information to everyone on the board
+    // We include the sender so the deleting client also receives confirmation and can handle any UI updates if necessary,
     // though primary deletion is handled client-side first for responsiveness.
-    io.emit('object-deleted', { objectId: data.objectId }); 
-    console.log(`[Server] Broadcasted 'object-deleted' to all clients for objectId:`, data.objectId);
+    publishBoardEvent(board, 'object-deleted', { objectId: data.objectId });
+    console.log(`[Server] Broadcasted 'object-deleted' to board ${board.id} for objectId:`, data.objectId);
+    publishLaneChanges(board);
+  });
+
+  // Owners change the board's zones, WIP policy and swimlanes. Everyone, the sender included, gets the new layout
+  // along with the tasks that moved or were renamed with their zone, or moved into their lane.
+  socket.on('update-workflow', (data, callback) => {
+    const board = currentBoard();
+    if (!board) return;
+    const result = board.setWorkflow(data.workflow, data.wipPolicy, data.swimlanes);
+    if (result.error) {
+      if (typeof callback === 'function') callback({ success: false, error: result.error });
+      return;
+    }
+    publishBoardEvent(board, 'workflow-updated', result);
+    console.log(`[Server] Workflow of board ${board.id} changed by ${socket.id}; ${result.objects.length} tasks followed their zones`);
+    if (typeof callback === 'function') callback({ success: true });
+  });
+
+  // A comment on a task; it is added for everyone, the sender included, once the server has stamped it
+  socket.on('add-comment', (data) => {
+    const board = currentBoard();
+    if (!board) return;
+    const user = connectedUsers.get(socket.id);
+    const comment = board.addComment(data.objectId, {
+      id: crypto.randomUUID(),
+      userId: socket.data.userId,
+      username: user && user.username,
+      text: data.text,
+      timestamp: new Date().toISOString()
+    });
+    if (!comment) return;
+    publishBoardEvent(board, 'comment-added', { objectId: data.objectId, comment });
   });
 
   // Listen for object property changes from a client
-  socket.on('object-property-changed', (data) => {
+  socket.on('object-property-changed', (data, callback) => {
     console.log(`[Server] Received 'object-property-changed' from ${socket.id}:`, data);
-    // Broadcast the updated property to all other clients
-    socket.broadcast.emit('object-property-updated', data);
-    console.log(`[Server] Broadcasted 'object-property-updated' to other clients with data:`, data);
+    const board = currentBoard();
+    if (!board) return;
+    if (rejectStaleWrite(board, 'object-property-changed', data, callback)) return;
+    const assignees = data.property === 'taskAssignees' ? data.value : data.fullTaskData && data.fullTaskData.assignees;
+    if (assignees && !assignees.every(isRegisteredAssignee)) {
+      rejectWrite(board, 'object-property-changed', data, 'unknown-assignee', callback);
+      return;
+    }
+    const blockedBy = data.property === 'taskBlockedBy' ? data.value : data.fullTaskData && data.fullTaskData.blockedBy;
+    if (blockedBy && !board.canBeBlockedBy(data.objectId, blockedBy)) {
+      rejectWrite(board, 'object-property-changed', data, 'invalid-dependency', callback);
+      return;
+    }
+    const status = data.property === 'taskStatus' ? data.value : data.fullTaskData && data.fullTaskData.status;
+    if (rejectStatusChange(board, 'object-property-changed', data, status, callback)) return;
+
+    const updated = board.applyPropertyChange({ ...data, activityLogEntry: attributed(data.activityLogEntry) });
+    // Broadcast the updated property to all other clients on the board, with the server's task data
+    // (comments and activity log included) in place of the sender's
+    const change = { ...data, version: updated.version };
+    delete change.baseVersion;
+    if (change.userId) change.userId = socket.data.userId;
+    if (change.activityLogEntry) change.activityLogEntry = attributed(change.activityLogEntry);
+    if (change.fullTaskData) change.fullTaskData = updated.taskData;
+    const broadcast = publishBoardEvent(board, 'object-property-updated', change, { excludeSender: true });
+    if (typeof callback === 'function') callback({ success: true, version: updated.version, seq: broadcast.seq });
+    console.log(`[Server] Broadcasted 'object-property-updated' to board ${board.id} with data:`, broadcast);
+    publishLaneChanges(board);
+  });
+
+  // Listen for collaborative edits to a task's title or description
+  socket.on('text-operations', (data) => {
+    const board = currentBoard();
+    if (!board) return;
+    const accepted = board.applyTextOperations(data);
+    if (!accepted) {
+      console.warn(`[Server] Ignored 'text-operations' from ${socket.id} for`, data && data.objectId);
+      return;
+    }
+    // Relay the operations to everyone else on the board; they merge them into their own copy
+    publishBoardEvent(board, 'text-operations', {
+      objectId: data.objectId,
+      field: data.field,
+      ops: accepted,
+      userId: socket.data.userId
+    }, { excludeSender: true });
   });
 
   // Listen for cursor movement from a client
   socket.on('cursor-moved', (data) => {
     const user = connectedUsers.get(socket.id);
-    if (user) {
-      socket.broadcast.emit('cursor-updated', {
-        userId: socket.id,
+    if (user && socket.data.boardId) {
+      socket.to(boardRoom(socket.data.boardId)).emit('cursor-updated', {
+        userId: socket.data.userId,
         color: user.color,
         position: data.position 
       });
     }
   });
 
-  // Handle user authentication from client
+  // Screen-space pointer position (fallback for clients that can't use the 3D position)
+  socket.on('cursor-move', (data) => {
+    if (!socket.data.boardId || !data) return;
+    socket.to(boardRoom(socket.data.boardId)).emit('cursor-move', { userId: socket.data.userId, x: data.x, y: data.y });
+  });
+
+  // Listen for caret/selection changes inside a task's title or description.
+  // start/end are character ids from the text CRDT (the caret sits after that character; null = start of text).
+  // A null selection means the user left the field or deselected the object.
+  socket.on('text-selection', (data) => {
+    const user = connectedUsers.get(socket.id);
+    if (!user || !socket.data.boardId) return;
+
+    const selection = data && data.objectId && (data.field === 'title' || data.field === 'description')
+      ? { objectId: data.objectId, field: data.field, start: data.start || null, end: data.end || null }
+      : null;
+    socket.to(boardRoom(socket.data.boardId)).emit('text-selection-updated', {
+      userId: socket.data.userId,
+      username: user.username,
+      color: user.color,
+      selection
+    });
+  });
+
+  // A client announcing who it is. Only guests may pick their name and color (never their id, which the server
+  // issues), and not a registered user's name; a socket bound to an account (by its token, login or register) always shows as that account.
   socket.on('user-authenticated', (userData) => {
-    console.log(`User authenticated: ${socket.id} as ${userData.username || 'Guest'}`);
-    
-    // Update user data in the connected users map
-    const currentUser = connectedUsers.get(socket.id) || {};
-    const updatedUserData = {
-      ...currentUser,
-      id: userData.id || socket.id,
-      username: userData.username || `Guest-${socket.id.substring(0, 5)}`,
-      color: userData.color || currentUser.color || getRandomColor()
-    };
-    
-    connectedUsers.set(socket.id, updatedUserData);
+    const claimedName = userData.username;
+    if (socket.data.username) {
+      if (claimedName && claimedName !== socket.data.username) {
+        console.warn(`[Server] Refused 'user-authenticated' from ${socket.id}: signed in as ${socket.data.username}, claimed ${claimedName}`);
+        return;
+      }
+      const account = store.get('users', socket.data.username);
+      if (account) setIdentity(connectedAccount(account));
+    } else {
+      if (claimedName && store.get('users', claimedName)) {
+        console.warn(`[Server] Refused 'user-authenticated' from ${socket.id}: ${claimedName} is a registered user`);
+        return;
+      }
+      const currentUser = connectedUsers.get(socket.id) || guestUser(socket);
+      setIdentity({
+        id: currentUser.id,
+        username: claimedName || currentUser.username,
+        color: userData.color || currentUser.color
+      });
+    }
+    console.log(`User authenticated: ${socket.id} as ${connectedUsers.get(socket.id).username}`);
     
     // Broadcast updated user list
-    io.emit('user-list-updated', Array.from(connectedUsers.values()));
+    broadcastUserList(socket.data.boardId);
     console.log('Updated connected users:', Array.from(connectedUsers.values()));
   });
 
+  // Send a chat message to everyone on the same board. Only its text comes from the client: it is signed
+  // with the sender's own name and color, and shown above their avatar
+  socket.on('chat-message', (data) => {
+    const user = connectedUsers.get(socket.id);
+    if (!socket.data.boardId || !user) return;
+    const avatar = avatars.get(socket.id);
+    const [x, y, z] = avatar ? avatar.user.position : [0, 0, 0];
+    io.to(boardRoom(socket.data.boardId)).emit('chat-message', {
+      id: crypto.randomUUID(),
+      sender: user.username,
+      content: data.content,
+      timestamp: Date.now(),
+      position: [x, y + 1, z],
+      color: user.color
+    });
+  });
+
+  // 3D mode: a user's avatar entered the board's space. It is who the socket is signed in as; the client
+  // only says where it stands and whether it is speaking
+  socket.on('user-joined', (data) => {
+    const boardId = socket.data.boardId;
+    const user = connectedUsers.get(socket.id);
+    if (!boardId || !user) return;
+    avatars.set(socket.id, {
+      boardId,
+      user: {
+        id: user.id,
+        username: user.username,
+        position: data.position,
+        color: user.color,
+        speaking: data.speaking
+      }
+    });
+    broadcastAvatars(boardId);
+  });
+
+  // 3D mode: the user's avatar moved
+  socket.on('user-move', (data) => {
+    const avatar = avatars.get(socket.id);
+    if (!avatar || !data || !Array.isArray(data.position)) return;
+    avatar.user.position = data.position;
+    broadcastAvatars(avatar.boardId);
+  });
+
+  // 3D mode: relay the kanban columns to everyone else on the board (the sender already shows them)
+  socket.on('kanban-update', (columns) => {
+    if (!socket.data.boardId || !Array.isArray(columns)) return;
+    socket.to(boardRoom(socket.data.boardId)).emit('kanban-update', columns);
+  });
+
   // More event handlers will be added here
 });
 
@@ -210,3 +1282,12 @@ const PORT = process.env.PORT || 3001;
 server.listen(PORT, () => {
   console.log(`Server listening on *:${PORT}`);
 });
+
+// Flush pending writes into a final snapshot before exiting
+const shutdown = (signal) => {
+  console.log(`Received ${signal}, saving data and shutting down`);
+  store.close();
+  process.exit(0);
+};
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
@@ -0,0 +1,85 @@
+const crypto = require('crypto');
+
+// Invite links to a board, kept in the 'invites' collection.
+//
+// A link carries '<invite id>.<secret>'; as with login tokens, only the SHA-256 of the secret is stored,
+// so the link itself is only ever shown to the owner who created it. An invite makes whoever opens it a
+// member with its role, until it expires or has been used maxUses times (both optional).
+// A public invite is the board's read-only link: it has no limits and lets anyone who opens it, with or
+// without an account, view the board without becoming a member.
+
+function hashSecret(secret) {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+// What owners see of an invite
+function publicInvite(invite) {
+  const { secretHash, ...visible } = invite;
+  return visible;
+}
+
+function isUsable(invite, now = Date.now()) {
+  if (invite.expiresAt && Date.parse(invite.expiresAt) <= now) return false;
+  if (invite.maxUses && invite.uses >= invite.maxUses) return false;
+  return true;
+}
+
+// options: { role, expiresInHours, maxUses, public }. Returns { invite, token }
+function createInvite(store, boardId, createdBy, options) {
+  const secret = crypto.randomBytes(24).toString('hex');
+  const isPublic = !!options.public;
+  const invite = {
+    id: crypto.randomUUID(),
+    boardId,
+    role: isPublic ? 'viewer' : options.role,
+    public: isPublic,
+    createdBy,
+    createdAt: new Date().toISOString(),
+    expiresAt: !isPublic && options.expiresInHours
+      ? new Date(Date.now() + options.expiresInHours * 60 * 60 * 1000).toISOString()
+      : null,
+    maxUses: !isPublic && options.maxUses ? options.maxUses : null,
+    uses: 0,
+    secretHash: hashSecret(secret)
+  };
+  store.put('invites', invite.id, invite);
+  return { invite: publicInvite(invite), token: `${invite.id}.${secret}` };
+}
+
+// A board's invites that can still be used; spent and expired ones are dropped on the way
+function listInvites(store, boardId) {
+  const invites = store.list('invites').filter(invite => invite.boardId === boardId);
+  invites.filter(invite => !isUsable(invite)).forEach(invite => store.delete('invites', invite.id));
+  return invites
+    .filter(invite => isUsable(invite))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map(publicInvite);
+}
+
+// Use an invite link. Returns { invite }, or { error } with a message for the user
+function redeemInvite(store, token) {
+  const dot = typeof token === 'string' ? token.indexOf('.') : -1;
+  const invite = dot > 0 && store.get('invites', token.slice(0, dot));
+  const secretHash = invite && hashSecret(token.slice(dot + 1));
+  if (!invite || !crypto.timingSafeEqual(Buffer.from(secretHash, 'hex'), Buffer.from(invite.secretHash, 'hex'))) {
+    return { error: 'This invite link is not valid' };
+  }
+  if (!isUsable(invite)) {
+    store.delete('invites', invite.id);
+    return { error: 'This invite link has expired or been used up' };
+  }
+  if (!invite.public) {
+    store.put('invites', invite.id, { ...invite, uses: invite.uses + 1 });
+  }
+  return { invite: publicInvite(invite) };
+}
+
+// Returns the revoked invite, or null if the board has no such invite
+function revokeInvite(store, boardId, inviteId) {
+  const invite = store.get('invites', inviteId);
+  if (!invite || invite.boardId !== boardId) return null;
+  store.delete('invites', inviteId);
+  return publicInvite(invite);
+}
+
+module.exports = { createInvite, listInvites, redeemInvite, revokeInvite };
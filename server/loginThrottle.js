@@ -0,0 +1,88 @@
+// Counts failed logins per key (a username, or a client address) and locks the key out once there
+// have been too many within a window. Each lockout in a row lasts twice as long as the one before,
+// up to maxLockoutMs; a successful login (reset) or a quiet window starts the key over.
+// Kept in memory only: a restart forgives everyone.
+
+class LoginThrottle {
+  constructor({
+    maxFailures = 5,
+    windowMs = 15 * 60 * 1000,
+    baseLockoutMs = 30 * 1000,
+    maxLockoutMs = 60 * 60 * 1000
+  } = {}) {
+    this.maxFailures = maxFailures;
+    this.windowMs = windowMs;
+    this.baseLockoutMs = baseLockoutMs;
+    this.maxLockoutMs = maxLockoutMs;
+    this.entries = new Map(); // key -> { failures: [timestamps], lockouts, lockedUntil, lastFailure }
+  }
+
+  // Milliseconds until the key may try again (0: it may now)
+  retryAfter(key, now = Date.now()) {
+    const entry = this.entries.get(key);
+    return entry ? Math.max(entry.lockedUntil - now, 0) : 0;
+  }
+
+  // Count a failed login. Returns how long the key is now locked out for (0: not locked out)
+  recordFailure(key, now = Date.now()) {
+    const entry = this.entry(key, now);
+    entry.failures.push(now);
+    entry.lastFailure = now;
+    return this.lockIfExhausted(key, now);
+  }
+
+  // Count a login attempt before it is checked, so attempts running side by side (while a slow password
+  // hash is computed) can't all slip under the limit. Returns how long the key is locked out for; 0 lets
+  // the attempt go ahead. If it then fails, settle it with lockIfExhausted(); if it succeeds, take it back
+  // with forgive(key, now) or reset(key).
+  beginAttempt(key, now = Date.now()) {
+    const lockedFor = this.retryAfter(key, now);
+    if (lockedFor > 0) return lockedFor;
+    const entry = this.entry(key, now);
+    if (entry.failures.length >= this.maxFailures) return this.lockIfExhausted(key, now);
+    entry.failures.push(now);
+    entry.lastFailure = now;
+    return 0;
+  }
+
+  // Lock the key out if its failures within the window have reached the limit. Returns how long for
+  lockIfExhausted(key, now = Date.now()) {
+    const entry = this.entries.get(key);
+    if (!entry || entry.failures.length < this.maxFailures) return 0;
+
+    const lockoutMs = Math.min(this.baseLockoutMs * 2 ** entry.lockouts, this.maxLockoutMs);
+    entry.lockouts++;
+    entry.failures = [];
+    entry.lockedUntil = now + lockoutMs;
+    return lockoutMs;
+  }
+
+  // Take back an attempt counted by beginAttempt at `at`
+  forgive(key, at) {
+    const entry = this.entries.get(key);
+    const index = entry ? entry.failures.indexOf(at) : -1;
+    if (index >= 0) entry.failures.splice(index, 1);
+  }
+
+  // The key's entry, with failures older than the window dropped
+  entry(key, now) {
+    this.prune(now);
+    const entry = this.entries.get(key) || { failures: [], lockouts: 0, lockedUntil: 0, lastFailure: 0 };
+    entry.failures = entry.failures.filter(timestamp => now - timestamp < this.windowMs);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  reset(key) {
+    this.entries.delete(key);
+  }
+
+  // Forget keys that have been quiet for a whole window since their last lockout ended
+  prune(now = Date.now()) {
+    this.entries.forEach((entry, key) => {
+      if (now - Math.max(entry.lastFailure, entry.lockedUntil) > this.windowMs) this.entries.delete(key);
+    });
+  }
+}
+
+module.exports = { LoginThrottle };
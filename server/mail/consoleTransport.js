@@ -0,0 +1,8 @@
+// Prints every message to the server log instead of sending it, for development without a mail server
+class ConsoleTransport {
+  async send({ to, subject, text }) {
+    console.log(`[Mail] To: ${to}\n[Mail] Subject: ${subject}\n${text}`);
+  }
+}
+
+module.exports = { ConsoleTransport };
@@ -0,0 +1,21 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+// Writes every message to its own file in mailDir (named after the time it was sent and the recipient),
+// so development and tests can pick the links out of them
+class FileTransport {
+  constructor({ mailDir }) {
+    this.mailDir = mailDir;
+  }
+
+  async send({ to, subject, text }) {
+    await fs.promises.mkdir(this.mailDir, { recursive: true });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const suffix = crypto.randomBytes(3).toString('hex'); // Two messages in the same millisecond
+    const file = path.join(this.mailDir, `${timestamp}-${suffix}-${to.replace(/[^A-Za-z0-9@._-]/g, '_')}.txt`);
+    await fs.promises.writeFile(file, `To: ${to}\nSubject: ${subject}\n\n${text}\n`);
+  }
+}
+
+module.exports = { FileTransport };
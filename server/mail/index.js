@@ -0,0 +1,24 @@
+const path = require('path');
+const { ConsoleTransport } = require('./consoleTransport');
+const { FileTransport } = require('./fileTransport');
+
+// Outgoing mail (email verification, password resets).
+// Any transport must implement:
+//   send({ to, subject, text })  - deliver one message; resolves once it has been handed over
+//
+// Select the transport with MAIL_TRANSPORT (console | file) and, for the file transport, the folder
+// the messages are written to with MAIL_DIR. A real mail server plugs in as another transport.
+function createMailTransport({
+  transport = process.env.MAIL_TRANSPORT || 'console',
+  mailDir = process.env.MAIL_DIR || path.join(__dirname, '..', 'data', 'mail')
+} = {}) {
+  if (transport === 'console') {
+    return new ConsoleTransport();
+  }
+  if (transport === 'file') {
+    return new FileTransport({ mailDir });
+  }
+  throw new Error(`Unknown mail transport: ${transport}`);
+}
+
+module.exports = { createMailTransport, ConsoleTransport, FileTransport };
@@ -0,0 +1,121 @@
+const fs = require('fs');
+const path = require('path');
+const { MemoryStore } = require('./memoryStore');
+
+const SNAPSHOT_FILE = 'snapshot.json';
+const OPLOG_FILE = 'oplog.jsonl';
+
+// Embedded, file-backed store.
+// State lives in memory; every write is appended to an operation log (one JSON line per op)
+// and the log is periodically compacted into a full JSON snapshot.
+// On startup the snapshot is loaded and the log replayed on top of it.
+class FileStore extends MemoryStore {
+  constructor({ dataDir, compactEvery = 500, compactIntervalMs = 60000 } = {}) {
+    super();
+    this.dataDir = dataDir;
+    this.snapshotPath = path.join(dataDir, SNAPSHOT_FILE);
+    this.oplogPath = path.join(dataDir, OPLOG_FILE);
+    this.compactEvery = compactEvery;
+    this.compactIntervalMs = compactIntervalMs;
+    this.opsSinceCompaction = 0;
+    this.compactTimer = null;
+  }
+
+  load() {
+    fs.mkdirSync(this.dataDir, { recursive: true });
+
+    if (fs.existsSync(this.snapshotPath)) {
+      const snapshot = JSON.parse(fs.readFileSync(this.snapshotPath, 'utf8'));
+      Object.entries(snapshot.collections || {}).forEach(([name, entries]) => {
+        const collection = this.collection(name);
+        Object.entries(entries).forEach(([id, value]) => collection.set(id, value));
+      });
+    }
+
+    let replayed = 0;
+    if (fs.existsSync(this.oplogPath)) {
+      const lines = fs.readFileSync(this.oplogPath, 'utf8').split('\n');
+      lines.forEach((line, index) => {
+        if (!line.trim()) return;
+        let op;
+        try {
+          op = JSON.parse(line);
+        } catch (error) {
+          // A crash mid-append can leave a partial last line; anything else is real corruption
+          if (index >= lines.length - 2) {
+            console.warn(`[FileStore] Ignoring truncated op log entry at line ${index + 1}`);
+            return;
+          }
+          throw error;
+        }
+        this.applyOp(op);
+        replayed++;
+      });
+    }
+    this.opsSinceCompaction = replayed;
+
+    console.log(`[FileStore] Loaded data from ${this.dataDir} (${replayed} logged operations replayed)`);
+
+    // Fold the replayed log into a fresh snapshot straight away
+    if (replayed > 0) this.compact();
+
+    this.compactTimer = setInterval(() => {
+      if (this.opsSinceCompaction > 0) this.compact();
+    }, this.compactIntervalMs);
+    this.compactTimer.unref();
+  }
+
+  applyOp(op) {
+    if (op.op === 'put') {
+      super.put(op.collection, op.id, op.value);
+    } else if (op.op === 'delete') {
+      super.delete(op.collection, op.id);
+    }
+  }
+
+  append(op) {
+    fs.appendFileSync(this.oplogPath, JSON.stringify(op) + '\n');
+    this.opsSinceCompaction++;
+    if (this.opsSinceCompaction >= this.compactEvery) {
+      this.compact();
+    }
+  }
+
+  put(collection, id, value) {
+    super.put(collection, id, value);
+    this.append({ op: 'put', collection, id, value });
+  }
+
+  delete(collection, id) {
+    if (!this.collection(collection).has(id)) return;
+    super.delete(collection, id);
+    this.append({ op: 'delete', collection, id });
+  }
+
+  // Write the whole state as a snapshot and start a new, empty op log
+  compact() {
+    const collections = {};
+    this.collections.forEach((entries, name) => {
+      collections[name] = Object.fromEntries(entries);
+    });
+
+    const snapshot = { version: 1, savedAt: new Date().toISOString(), collections };
+    const tmpPath = `${this.snapshotPath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(snapshot));
+    fs.renameSync(tmpPath, this.snapshotPath); // Atomic swap so a crash never leaves a half-written snapshot
+    fs.writeFileSync(this.oplogPath, '');
+
+    console.log(`[FileStore] Compacted ${this.opsSinceCompaction} operations into ${SNAPSHOT_FILE}`);
+    this.opsSinceCompaction = 0;
+  }
+
+  close() {
+    if (this.compactTimer) {
+      clearInterval(this.compactTimer);
+      this.compactTimer = null;
+    }
+    if (this.opsSinceCompaction > 0) this.compact();
+  }
+}
+
+module.exports = { FileStore };
@@ -0,0 +1,28 @@
+const path = require('path');
+const { FileStore } = require('./fileStore');
+const { MemoryStore } = require('./memoryStore');
+
+// Storage layer used by the socket handlers.
+// Any store must implement:
+//   load()                       - restore persisted state (called once at startup)
+//   get(collection, id)          - a copy of the stored value, or null
+//   list(collection)             - copies of every value in the collection
+//   put(collection, id, value)   - insert or replace a value
+//   delete(collection, id)       - remove a value
+//   close()                      - flush anything pending before shutdown
+//
+// Select the driver with STORAGE_DRIVER (file | memory) and the file location with DATA_DIR.
+function createStore({
+  driver = process.env.STORAGE_DRIVER || 'file',
+  dataDir = process.env.DATA_DIR || path.join(__dirname, '..', 'data')
+} = {}) {
+  if (driver === 'memory') {
+    return new MemoryStore();
+  }
+  if (driver === 'file') {
+    return new FileStore({ dataDir });
+  }
+  throw new Error(`Unknown storage driver: ${driver}`);
+}
+
+module.exports = { createStore, FileStore, MemoryStore };
@@ -0,0 +1,41 @@
+// Volatile store with the same interface as FileStore.
+// Handy for local experiments (STORAGE_DRIVER=memory) - everything is lost on restart.
+class MemoryStore {
+  constructor() {
+    this.collections = new Map();
+  }
+
+  load() {
+    // Nothing to restore
+  }
+
+  collection(name) {
+    if (!this.collections.has(name)) {
+      this.collections.set(name, new Map());
+    }
+    return this.collections.get(name);
+  }
+
+  get(collection, id) {
+    const value = this.collection(collection).get(id);
+    return value === undefined ? null : JSON.parse(JSON.stringify(value));
+  }
+
+  list(collection) {
+    return Array.from(this.collection(collection).values()).map(value => JSON.parse(JSON.stringify(value)));
+  }
+
+  put(collection, id, value) {
+    this.collection(collection).set(id, JSON.parse(JSON.stringify(value)));
+  }
+
+  delete(collection, id) {
+    this.collection(collection).delete(id);
+  }
+
+  close() {
+    // Nothing to flush
+  }
+}
+
+module.exports = { MemoryStore };
@@ -0,0 +1,76 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const { createAccountToken, consumeAccountToken, pruneAccountTokens } = require('../accountTokens');
+
+// Move a token's expiry into the past
+function expire(store, token) {
+  const id = token.split('.')[0];
+  store.put('accountTokens', id, { ...store.get('accountTokens', id), expiresAt: new Date(Date.now() - 1000).toISOString() });
+}
+
+test('a token can be used once, for its purpose', () => {
+  const store = new MemoryStore();
+  const token = createAccountToken(store, 'verify-email', 'ada');
+
+  assert.deepEqual(consumeAccountToken(store, 'verify-email', token), { username: 'ada' });
+  assert.deepEqual(consumeAccountToken(store, 'verify-email', token), { error: 'This link is not valid' });
+});
+
+test('a token for one purpose is refused for another', () => {
+  const store = new MemoryStore();
+  const token = createAccountToken(store, 'verify-email', 'ada');
+
+  assert.deepEqual(consumeAccountToken(store, 'reset-password', token), { error: 'This link is not valid' });
+  assert.deepEqual(consumeAccountToken(store, 'verify-email', token), { username: 'ada' }, 'and is left usable for its own');
+});
+
+test('tampered and malformed tokens are refused', () => {
+  const store = new MemoryStore();
+  const token = createAccountToken(store, 'reset-password', 'ada');
+  const [id, secret] = token.split('.');
+  const tampered = `${id}.${secret.slice(0, -1)}${secret.endsWith('0') ? '1' : '0'}`;
+
+  [tampered, 'nonsense', `.${secret}`, `unknown.${secret}`, undefined].forEach(candidate => {
+    assert.deepEqual(consumeAccountToken(store, 'reset-password', candidate), { error: 'This link is not valid' });
+  });
+});
+
+test('an expired token is refused and used up', () => {
+  const store = new MemoryStore();
+  const token = createAccountToken(store, 'reset-password', 'ada');
+  expire(store, token);
+
+  assert.deepEqual(consumeAccountToken(store, 'reset-password', token), { error: 'This link has expired' });
+  assert.deepEqual(consumeAccountToken(store, 'reset-password', token), { error: 'This link is not valid' });
+});
+
+test('asking for a new token replaces the user\'s previous one for the same purpose', () => {
+  const store = new MemoryStore();
+  const first = createAccountToken(store, 'reset-password', 'ada');
+  const verify = createAccountToken(store, 'verify-email', 'ada');
+  const bobs = createAccountToken(store, 'reset-password', 'bob');
+  const second = createAccountToken(store, 'reset-password', 'ada');
+
+  assert.deepEqual(consumeAccountToken(store, 'reset-password', first), { error: 'This link is not valid' });
+  assert.deepEqual(consumeAccountToken(store, 'reset-password', second), { username: 'ada' });
+  assert.deepEqual(consumeAccountToken(store, 'verify-email', verify), { username: 'ada' });
+  assert.deepEqual(consumeAccountToken(store, 'reset-password', bobs), { username: 'bob' });
+});
+
+test('only the hash of the secret is stored', () => {
+  const store = new MemoryStore();
+  const token = createAccountToken(store, 'verify-email', 'ada');
+  assert.ok(!JSON.stringify(store.list('accountTokens')).includes(token.split('.')[1]));
+});
+
+test('pruning drops expired tokens', () => {
+  const store = new MemoryStore();
+  const live = createAccountToken(store, 'verify-email', 'ada');
+  const stale = createAccountToken(store, 'verify-email', 'bob');
+  expire(store, stale);
+
+  pruneAccountTokens(store);
+  assert.deepEqual(store.list('accountTokens').map(record => record.username), ['ada']);
+  assert.deepEqual(consumeAccountToken(store, 'verify-email', live), { username: 'ada' });
+});
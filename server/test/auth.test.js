@@ -0,0 +1,137 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const {
+  hashPassword,
+  verifyPassword,
+  createSession,
+  authenticateToken,
+  refreshSession,
+  revokeSession,
+  revokeOtherSessions,
+  pruneSessions,
+  publicUser
+} = require('../auth');
+
+// A store with one registered user, 'ada'
+function storeWithUser() {
+  const store = new MemoryStore();
+  store.put('users', 'ada', { id: 'user_1', username: 'ada', email: 'ada@example.com', passwordHash: 'unused' });
+  return store;
+}
+
+// Move a session's expiry times into the past
+function expire(store, sessionId, fields) {
+  const session = store.get('sessions', sessionId);
+  fields.forEach(field => { session[field] = new Date(Date.now() - 1000).toISOString(); });
+  store.put('sessions', sessionId, session);
+}
+
+test('passwords verify against their hash, and nothing else does', async () => {
+  const stored = await hashPassword('correct horse');
+  assert.match(stored, /^scrypt\$16384\$8\$1\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+  assert.equal(await verifyPassword('correct horse', stored), true);
+  assert.equal(await verifyPassword('correct horsE', stored), false);
+  assert.notEqual(await hashPassword('correct horse'), stored, 'each hash has its own salt');
+});
+
+test('malformed password hashes never verify', async () => {
+  for (const stored of [undefined, '', 'plaintext', 'scrypt$16384$8$1$00', 'bcrypt$1$2$3$4$5', 'scrypt$16384$8$1$00$']) {
+    assert.equal(await verifyPassword('anything', stored), false);
+  }
+});
+
+test('a login token authenticates its session until it expires', () => {
+  const store = storeWithUser();
+  const credentials = createSession(store, 'ada');
+
+  const { session, user } = authenticateToken(store, credentials.token);
+  assert.equal(session.id, credentials.sessionId);
+  assert.equal(user.username, 'ada');
+
+  expire(store, credentials.sessionId, ['expiresAt']);
+  assert.deepEqual(authenticateToken(store, credentials.token), { error: 'session-expired' });
+});
+
+test('unknown, tampered and malformed tokens are refused', () => {
+  const store = storeWithUser();
+  const { sessionId, token, refreshToken } = createSession(store, 'ada');
+
+  [`${sessionId}.${'0'.repeat(128)}`, refreshToken, 'no-dot', '.secret', `${sessionId}.`, null, `nope.${token.split('.')[1]}`]
+    .forEach(candidate => assert.deepEqual(authenticateToken(store, candidate), { error: 'invalid-token' }));
+});
+
+test('only hashes of the secrets are stored', () => {
+  const store = storeWithUser();
+  const { sessionId, token, refreshToken } = createSession(store, 'ada');
+  const stored = JSON.stringify(store.get('sessions', sessionId));
+  assert.ok(!stored.includes(token.split('.')[1]));
+  assert.ok(!stored.includes(refreshToken.split('.')[1]));
+});
+
+test('a refresh token trades itself for a new pair, which replaces the old one', () => {
+  const store = storeWithUser();
+  const first = createSession(store, 'ada');
+
+  const { credentials, user } = refreshSession(store, first.refreshToken);
+  assert.equal(user.username, 'ada');
+  assert.equal(credentials.sessionId, first.sessionId);
+  assert.ok(authenticateToken(store, credentials.token).session);
+  assert.deepEqual(authenticateToken(store, first.token), { error: 'invalid-token' });
+});
+
+test('reusing a refresh token ends the session', (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const store = storeWithUser();
+  const first = createSession(store, 'ada');
+  const { credentials } = refreshSession(store, first.refreshToken);
+
+  assert.deepEqual(refreshSession(store, first.refreshToken), { error: 'invalid-token' });
+  assert.equal(store.get('sessions', first.sessionId), null);
+  assert.deepEqual(authenticateToken(store, credentials.token), { error: 'invalid-token' });
+  assert.deepEqual(refreshSession(store, credentials.refreshToken), { error: 'invalid-token' });
+});
+
+test('an expired refresh token ends the session', () => {
+  const store = storeWithUser();
+  const { sessionId, refreshToken } = createSession(store, 'ada');
+  expire(store, sessionId, ['refreshExpiresAt']);
+
+  assert.deepEqual(refreshSession(store, refreshToken), { error: 'session-expired' });
+  assert.equal(store.get('sessions', sessionId), null);
+});
+
+test('revoking sessions', () => {
+  const store = storeWithUser();
+  store.put('users', 'bob', { id: 'user_2', username: 'bob' });
+  const kept = createSession(store, 'ada');
+  const other = createSession(store, 'ada');
+  const another = createSession(store, 'ada');
+  const bobs = createSession(store, 'bob');
+
+  const revoked = revokeOtherSessions(store, 'ada', kept.sessionId);
+  assert.deepEqual(revoked.sort(), [other.sessionId, another.sessionId].sort());
+  assert.ok(authenticateToken(store, kept.token).session);
+  assert.deepEqual(authenticateToken(store, other.token), { error: 'invalid-token' });
+  assert.ok(authenticateToken(store, bobs.token).session);
+
+  revokeSession(store, kept.sessionId);
+  assert.deepEqual(authenticateToken(store, kept.token), { error: 'invalid-token' });
+  assert.deepEqual(revokeOtherSessions(store, 'bob', null), [bobs.sessionId]);
+});
+
+test('pruning drops sessions that can no longer be refreshed', () => {
+  const store = storeWithUser();
+  const live = createSession(store, 'ada');
+  const stale = createSession(store, 'ada');
+  expire(store, stale.sessionId, ['expiresAt', 'refreshExpiresAt']);
+
+  pruneSessions(store);
+  assert.ok(store.get('sessions', live.sessionId));
+  assert.equal(store.get('sessions', stale.sessionId), null);
+});
+
+test('publicUser leaves out the password hash', () => {
+  const visible = publicUser({ id: 'user_1', username: 'ada', email: 'ada@example.com', passwordHash: 'scrypt$…' });
+  assert.deepEqual(visible, { id: 'user_1', username: 'ada', email: 'ada@example.com', twoFactorEnabled: false });
+});
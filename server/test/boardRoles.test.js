@@ -0,0 +1,81 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const { ROLES, EVENT_ROLES, hasRole } = require('../boardRoles');
+const { BoardRegistry, DEFAULT_BOARD_ID } = require('../boardRegistry');
+
+const ada = { id: 'user_ada', username: 'ada' };
+const bob = { id: 'user_bob', username: 'bob' };
+
+test('each role may do what the ones before it may', () => {
+  ROLES.forEach((role, index) => {
+    ROLES.forEach((required, requiredIndex) => {
+      assert.equal(hasRole(role, required), index >= requiredIndex, `${role} for ${required}`);
+    });
+  });
+  assert.equal(hasRole(null, 'viewer'), false);
+  assert.equal(hasRole('admin', 'viewer'), false);
+});
+
+test('every gated event names a known role', () => {
+  Object.entries(EVENT_ROLES).forEach(([event, role]) => assert.ok(ROLES.includes(role), event));
+  assert.equal(EVENT_ROLES['update-workflow'], 'owner');
+  assert.equal(EVENT_ROLES['add-comment'], 'commenter');
+});
+
+test('a new board is for its members only, with its creator as owner', () => {
+  const boards = new BoardRegistry(new MemoryStore());
+  const info = boards.create('Plans', ada);
+
+  assert.equal(boards.roleOf(info.id, ada.id), 'owner');
+  assert.equal(boards.roleOf(info.id, bob.id), null);
+  assert.deepEqual(boards.listFor(bob.id).map(board => board.id), [DEFAULT_BOARD_ID]);
+
+  boards.setMember(info.id, bob, 'commenter');
+  assert.equal(boards.roleOf(info.id, bob.id), 'commenter');
+  boards.setMember(info.id, bob, null);
+  assert.equal(boards.roleOf(info.id, bob.id), null);
+});
+
+test('the main board lets everyone edit, and its admins own it', () => {
+  const boards = new BoardRegistry(new MemoryStore());
+  assert.equal(boards.roleOf(DEFAULT_BOARD_ID, 'guest_1'), 'editor');
+
+  boards.grantMainBoard([ada]);
+  boards.grantMainBoard([ada]);
+  assert.equal(boards.roleOf(DEFAULT_BOARD_ID, ada.id), 'owner');
+  assert.equal(boards.members(DEFAULT_BOARD_ID).length, 1);
+});
+
+test('a board keeps at least one owner', () => {
+  const boards = new BoardRegistry(new MemoryStore());
+  const info = boards.create('Plans', ada);
+
+  assert.equal(boards.setMember(info.id, ada, 'editor'), 'A board needs at least one owner');
+  assert.equal(boards.roleOf(info.id, ada.id), 'owner');
+
+  boards.setMember(info.id, bob, 'owner');
+  assert.equal(boards.setMember(info.id, ada, 'editor'), null);
+  assert.equal(boards.roleOf(info.id, ada.id), 'editor');
+});
+
+test('boards from before roles existed stay open to everyone', () => {
+  const store = new MemoryStore();
+  const boards = new BoardRegistry(store);
+  store.put('boards', 'old', { id: 'old', name: 'Old', createdAt: '2020-01-01T00:00:00.000Z', createdBy: 'system' });
+  assert.equal(boards.roleOf('old', bob.id), 'editor');
+  assert.equal(boards.roleOf('missing', bob.id), null);
+});
+
+test('a guest who registers keeps their boards and memberships', () => {
+  const boards = new BoardRegistry(new MemoryStore());
+  const own = boards.create('Mine', { id: 'guest_1', username: 'Guest-1' });
+  const shared = boards.create('Shared', ada);
+  boards.setMember(shared.id, { id: 'guest_1', username: 'Guest-1' }, 'viewer');
+
+  boards.reattribute('guest_1', bob);
+  assert.equal(boards.getInfo(own.id).createdBy, bob.id);
+  assert.equal(boards.roleOf(own.id, bob.id), 'owner');
+  assert.equal(boards.roleOf(shared.id, bob.id), 'viewer');
+  assert.equal(boards.roleOf(shared.id, 'guest_1'), null);
+});
@@ -0,0 +1,51 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const { BoardState } = require('../boardState');
+
+// A board with a task for each entry of `links` (task id -> the ids it waits on)
+function boardWith(links) {
+  const tasks = Object.entries(links).map(([sharedId, blockedBy]) => ({
+    sharedId,
+    type: 'cube',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    scale: { x: 1, y: 1, z: 1 },
+    color: 0,
+    taskData: { title: sharedId, description: '', status: 'To Do', checklist: [], activityLog: [], blockedBy }
+  }));
+  return new BoardState(new MemoryStore(), 'board', { seed: true, initialObjects: tasks });
+}
+
+test('a task waits on its blockers, and on theirs', () => {
+  const board = boardWith({ design: [], build: ['design'], release: ['build'] });
+  assert.equal(board.isBlockedBy('release', 'build'), true);
+  assert.equal(board.isBlockedBy('release', 'design'), true);
+  assert.equal(board.isBlockedBy('design', 'release'), false);
+});
+
+test('a task may wait on other tasks on the board', () => {
+  const board = boardWith({ design: [], build: [], release: [] });
+  assert.equal(board.canBeBlockedBy('release', ['design', 'build']), true);
+  assert.equal(board.canBeBlockedBy('release', []), true);
+});
+
+test('a task can not wait on itself, on a missing task or on the same task twice', () => {
+  const board = boardWith({ design: [], build: [] });
+  assert.equal(board.canBeBlockedBy('build', ['build']), false);
+  assert.equal(board.canBeBlockedBy('build', ['nowhere']), false);
+  assert.equal(board.canBeBlockedBy('build', ['design', 'design']), false);
+});
+
+test('a task can not wait on a task that already waits on it', () => {
+  const board = boardWith({ design: [], build: ['design'], release: ['build'] });
+  assert.equal(board.canBeBlockedBy('design', ['build']), false);
+  assert.equal(board.canBeBlockedBy('design', ['release']), false, 'not even through other tasks');
+});
+
+test('links a task already has are kept, even to tasks that were deleted', () => {
+  const board = boardWith({ design: [], build: ['design'] });
+  board.deleteObject('design');
+  assert.equal(board.canBeBlockedBy('build', ['design']), true);
+  assert.equal(board.canBeBlockedBy('build', []), true);
+});
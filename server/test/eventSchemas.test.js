@@ -0,0 +1,52 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { validateEvent } = require('../eventSchemas');
+
+const move = {
+  objectId: 'shared_cube',
+  position: { x: 1, y: 0.5, z: -2 },
+  rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+  scale: { x: 1, y: 1, z: 1 },
+  baseVersion: 3
+};
+
+test('well-formed payloads pass', () => {
+  assert.equal(validateEvent('object-moved', [move]), null);
+  assert.equal(validateEvent('add-comment', [{ objectId: 'shared_cube', text: 'Looks good' }]), null);
+  assert.equal(validateEvent('login', [{ username: 'ada', password: 'secret' }], true), null);
+  assert.equal(validateEvent('logout', []), null);
+});
+
+test('unknown events are refused', () => {
+  assert.equal(validateEvent('drop-database', [{}]), "Unknown event 'drop-database'");
+  assert.equal(validateEvent('__proto__', [{}]), "Unknown event '__proto__'");
+});
+
+test('objects are strict: missing, mistyped and extra keys are refused', () => {
+  const { baseVersion, ...unversioned } = move;
+  assert.equal(baseVersion, 3);
+  assert.equal(validateEvent('object-moved', [unversioned]), 'baseVersion must be a finite number');
+  assert.equal(validateEvent('object-moved', [{ ...move, position: { x: 'far', y: 0, z: 0 } }]), 'position.x must be a finite number');
+  assert.equal(validateEvent('object-moved', [{ ...move, admin: true }]), 'admin is not allowed');
+  assert.equal(validateEvent('object-moved', [null]), 'payload must be an object');
+  assert.equal(validateEvent('add-comment', [{ objectId: 'shared_cube', text: 'x'.repeat(2001) }]), 'text must be a string of at most 2000 characters');
+});
+
+test('a property change\'s value is checked against its property', () => {
+  const change = { objectId: 'shared_cube', property: 'taskPriority', value: 'high', baseVersion: 1 };
+  assert.equal(validateEvent('object-property-changed', [change]), null);
+  assert.match(validateEvent('object-property-changed', [{ ...change, value: 'critical' }]), /^value must be one of/);
+  assert.match(validateEvent('object-property-changed', [{ ...change, property: 'owner' }]), /^property must be one of/);
+  assert.equal(validateEvent('object-property-changed', [{ ...change, property: 'taskDueDate', value: 'tomorrow' }]),
+    'value must be a date like 2024-01-31');
+});
+
+test('events without a payload refuse one, and single-payload events refuse more', () => {
+  assert.equal(validateEvent('logout', [{ everyone: true }]), "'logout' takes no payload");
+  assert.equal(validateEvent('add-comment', [{ objectId: 'a', text: 'b' }, 'extra']), "'add-comment' takes a single payload");
+});
+
+test('events answered through an ack need one', () => {
+  assert.equal(validateEvent('login', [{ username: 'ada', password: 'secret' }]), "'login' needs an acknowledgement callback");
+  assert.equal(validateEvent('list-board-members', [], false), null, 'others may come without');
+});
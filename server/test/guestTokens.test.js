@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const { newGuestId, createGuestToken, verifyGuestToken } = require('../guestTokens');
+
+test('a guest token proves the id it was issued for', () => {
+  const store = new MemoryStore();
+  const guestId = newGuestId();
+  assert.match(guestId, /^guest_[0-9a-f-]{36}$/);
+  assert.equal(verifyGuestToken(store, createGuestToken(store, guestId)), guestId);
+});
+
+test('the signing secret outlives the first token, so tokens keep working', () => {
+  const store = new MemoryStore();
+  const token = createGuestToken(store, newGuestId());
+  assert.equal(verifyGuestToken(store, token), verifyGuestToken(store, token));
+  assert.equal(store.list('settings').length, 1);
+});
+
+test('tokens naming another id, or signed elsewhere, are refused', () => {
+  const store = new MemoryStore();
+  const token = createGuestToken(store, 'guest_a');
+  const signature = token.split('.')[1];
+
+  assert.equal(verifyGuestToken(store, `guest_b.${signature}`), null);
+  assert.equal(verifyGuestToken(store, createGuestToken(new MemoryStore(), 'guest_a')), null);
+  assert.equal(verifyGuestToken(store, `guest_a.${signature.slice(2)}`), null);
+});
+
+test('only guest ids are accepted, and malformed tokens are ignored', () => {
+  const store = new MemoryStore();
+  assert.equal(verifyGuestToken(store, createGuestToken(store, 'user_1')), null);
+  ['', 'guest_a', '.abc', 'guest_a.zz', undefined, 42].forEach(token => {
+    assert.equal(verifyGuestToken(store, token), null);
+  });
+});
@@ -0,0 +1,70 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const { createInvite, listInvites, redeemInvite, revokeInvite } = require('../invites');
+
+const INVALID = { error: 'This invite link is not valid' };
+const SPENT = { error: 'This invite link has expired or been used up' };
+
+test('an invite gives its role until it has been used maxUses times', () => {
+  const store = new MemoryStore();
+  const { invite, token } = createInvite(store, 'board1', 'user_1', { role: 'editor', maxUses: 2 });
+  assert.equal(invite.secretHash, undefined);
+
+  assert.equal(redeemInvite(store, token).invite.role, 'editor');
+  assert.equal(redeemInvite(store, token).invite.uses, 1);
+  assert.deepEqual(redeemInvite(store, token), SPENT);
+  assert.deepEqual(redeemInvite(store, token), INVALID, 'a spent invite is dropped');
+});
+
+test('an expired invite is refused', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-01-01T00:00:00Z') });
+  const store = new MemoryStore();
+  const { token } = createInvite(store, 'board1', 'user_1', { role: 'viewer', expiresInHours: 2 });
+
+  t.mock.timers.tick(2 * 60 * 60 * 1000 - 1);
+  assert.ok(redeemInvite(store, token).invite);
+  t.mock.timers.tick(1);
+  assert.deepEqual(redeemInvite(store, token), SPENT);
+});
+
+test('a public invite is the board\'s read-only link, without limits', () => {
+  const store = new MemoryStore();
+  const { invite, token } = createInvite(store, 'board1', 'user_1', { role: 'editor', maxUses: 1, expiresInHours: 1, public: true });
+  assert.equal(invite.role, 'viewer');
+  assert.equal(invite.maxUses, null);
+  assert.equal(invite.expiresAt, null);
+
+  for (let use = 0; use < 3; use++) assert.equal(redeemInvite(store, token).invite.uses, 0);
+});
+
+test('tampered and malformed links are refused', () => {
+  const store = new MemoryStore();
+  const { token } = createInvite(store, 'board1', 'user_1', { role: 'editor' });
+  const [id, secret] = token.split('.');
+
+  [`${id}.${'0'.repeat(secret.length)}`, 'nonsense', `missing.${secret}`, null].forEach(candidate => {
+    assert.deepEqual(redeemInvite(store, candidate), INVALID);
+  });
+});
+
+test('listing a board\'s invites drops the spent ones', () => {
+  const store = new MemoryStore();
+  const once = createInvite(store, 'board1', 'user_1', { role: 'editor', maxUses: 1 });
+  const open = createInvite(store, 'board1', 'user_1', { role: 'viewer' });
+  createInvite(store, 'board2', 'user_1', { role: 'viewer' });
+  redeemInvite(store, once.token);
+
+  assert.deepEqual(listInvites(store, 'board1').map(invite => invite.id), [open.invite.id]);
+  assert.equal(store.get('invites', once.invite.id), null);
+  assert.ok(listInvites(store, 'board1').every(invite => invite.secretHash === undefined));
+});
+
+test('an invite can only be revoked from its own board', () => {
+  const store = new MemoryStore();
+  const { invite, token } = createInvite(store, 'board1', 'user_1', { role: 'editor' });
+
+  assert.equal(revokeInvite(store, 'board2', invite.id), null);
+  assert.equal(revokeInvite(store, 'board1', invite.id).id, invite.id);
+  assert.deepEqual(redeemInvite(store, token), INVALID);
+});
@@ -0,0 +1,85 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { LoginThrottle } = require('../loginThrottle');
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+function throttle() {
+  return new LoginThrottle({ maxFailures: 3, windowMs: 15 * MINUTE, baseLockoutMs: 30 * SECOND, maxLockoutMs: 2 * MINUTE });
+}
+
+test('a key is locked out once its failures reach the limit', () => {
+  const limits = throttle();
+  assert.equal(limits.recordFailure('ada', 0), 0);
+  assert.equal(limits.recordFailure('ada', 1 * SECOND), 0);
+  assert.equal(limits.recordFailure('ada', 2 * SECOND), 30 * SECOND);
+
+  assert.equal(limits.retryAfter('ada', 2 * SECOND), 30 * SECOND);
+  assert.equal(limits.retryAfter('ada', 12 * SECOND), 20 * SECOND);
+  assert.equal(limits.retryAfter('ada', 32 * SECOND), 0);
+  assert.equal(limits.retryAfter('bob', 2 * SECOND), 0, 'other keys are not affected');
+});
+
+test('each lockout in a row lasts twice as long, up to the maximum', () => {
+  const limits = throttle();
+  let now = 0;
+  const lockouts = [];
+  for (let round = 0; round < 4; round++) {
+    let lockoutMs = 0;
+    for (let failure = 0; failure < 3; failure++) lockoutMs = limits.recordFailure('ada', now++);
+    lockouts.push(lockoutMs);
+    now += lockoutMs;
+  }
+  assert.deepEqual(lockouts, [30 * SECOND, 60 * SECOND, 2 * MINUTE, 2 * MINUTE]);
+});
+
+test('failures older than the window no longer count', () => {
+  const limits = throttle();
+  limits.recordFailure('ada', 0);
+  limits.recordFailure('ada', 1 * SECOND);
+  assert.equal(limits.recordFailure('ada', 16 * MINUTE), 0);
+  assert.equal(limits.recordFailure('ada', 16 * MINUTE + SECOND), 0);
+  assert.equal(limits.recordFailure('ada', 16 * MINUTE + 2 * SECOND), 30 * SECOND);
+});
+
+test('a quiet window after a lockout, or a reset, starts the key over', () => {
+  const limits = throttle();
+  for (let failure = 0; failure < 3; failure++) limits.recordFailure('ada', failure);
+  const afterQuiet = 30 * SECOND + 16 * MINUTE;
+  for (let failure = 0; failure < 2; failure++) limits.recordFailure('ada', afterQuiet + failure);
+  assert.equal(limits.recordFailure('ada', afterQuiet + 2), 30 * SECOND, 'back to the first lockout length');
+
+  limits.reset('ada');
+  assert.equal(limits.retryAfter('ada', afterQuiet + 3), 0);
+});
+
+test('attempts are counted before they are checked, so parallel ones can not get past the limit', () => {
+  const limits = throttle();
+  // Ten attempts start before any of them has been checked
+  const started = Array.from({ length: 10 }, () => limits.beginAttempt('ada', 0));
+  assert.deepEqual(started, [0, 0, 0, 30 * SECOND, 30 * SECOND, 30 * SECOND, 30 * SECOND, 30 * SECOND, 30 * SECOND, 30 * SECOND]);
+
+  // The three that went ahead all fail; the key is already locked, and stays so
+  [0, 1, 2].forEach(() => limits.lockIfExhausted('ada', SECOND));
+  assert.equal(limits.retryAfter('ada', SECOND), 29 * SECOND);
+});
+
+test('the attempt that uses up the limit locks the key once it fails', () => {
+  const limits = throttle();
+  for (let attempt = 0; attempt < 3; attempt++) {
+    assert.equal(limits.beginAttempt('ada', attempt * SECOND), 0);
+  }
+  assert.equal(limits.lockIfExhausted('ada', 3 * SECOND), 30 * SECOND);
+  assert.equal(limits.beginAttempt('ada', 4 * SECOND), 29 * SECOND);
+});
+
+test('attempts that succeed are taken back', () => {
+  const limits = throttle();
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const at = attempt * SECOND;
+    assert.equal(limits.beginAttempt('office', at), 0, `attempt ${attempt}`);
+    limits.forgive('office', at);
+  }
+  assert.equal(limits.lockIfExhausted('office', 10 * SECOND), 0);
+});
@@ -0,0 +1,173 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const path = require('node:path');
+const { spawn } = require('node:child_process');
+const { io } = require('socket.io-client');
+
+// The socket handlers, against a server of our own with throwaway (memory) storage
+const PORT = 3101;
+let server;
+
+test.before(() => new Promise((resolve, reject) => {
+  server = spawn(process.execPath, [path.join(__dirname, '..', 'index.js')], {
+    env: { ...process.env, PORT: String(PORT), STORAGE_DRIVER: 'memory' },
+    stdio: ['ignore', 'pipe', 'ignore']
+  });
+  server.stdout.on('data', chunk => {
+    if (chunk.toString().includes('Server listening')) resolve();
+  });
+  server.once('exit', code => reject(new Error(`The server exited with ${code}`)));
+}));
+
+test.after(() => {
+  server.kill();
+});
+
+// Connect a guest, resolving with the socket and who the server says it is once it is on the main board
+function connect() {
+  return new Promise((resolve, reject) => {
+    const socket = io(`http://localhost:${PORT}`, { transports: ['websocket'], forceNew: true });
+    let identity;
+    socket.once('user-identity', user => { identity = user; });
+    socket.once('board-snapshot', () => resolve({ socket, identity }));
+    socket.once('connect_error', reject);
+  });
+}
+
+// The next `event` the socket receives; fails the test rather than hang if it doesn't come
+const next = (socket, event) => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error(`No '${event}' arrived`)), 5000);
+  socket.once(event, data => {
+    clearTimeout(timer);
+    resolve(data);
+  });
+});
+
+test('chat messages are signed by the server, not the sender', async () => {
+  const sender = await connect();
+  const reader = await connect();
+  try {
+    const refused = next(sender.socket, 'invalid-payload');
+    sender.socket.emit('chat-message', { content: 'hello', sender: 'admin', color: '#000000' });
+    assert.equal((await refused).message, 'sender is not allowed');
+
+    const received = next(reader.socket, 'chat-message');
+    sender.socket.emit('chat-message', { content: 'hello' });
+    const message = await received;
+    assert.equal(message.content, 'hello');
+    assert.equal(message.sender, sender.identity.username);
+    assert.equal(message.color, sender.identity.color);
+  } finally {
+    sender.socket.close();
+    reader.socket.close();
+  }
+});
+
+test('avatars are who the socket is signed in as, wherever the client says it stands', async () => {
+  const walker = await connect();
+  const watcher = await connect();
+  try {
+    const refused = next(walker.socket, 'invalid-payload');
+    walker.socket.emit('user-joined', { id: watcher.identity.id, username: 'admin', color: '#000000', position: [0, 0, 0], speaking: false });
+    assert.equal((await refused).message, 'id is not allowed');
+
+    const update = next(watcher.socket, 'users-update');
+    walker.socket.emit('user-joined', { position: [3, 0, 2], speaking: true });
+    const avatar = (await update).find(user => user.id === walker.identity.id);
+    assert.deepEqual(avatar, {
+      id: walker.identity.id,
+      username: walker.identity.username,
+      position: [3, 0, 2],
+      color: walker.identity.color,
+      speaking: true
+    });
+  } finally {
+    walker.socket.close();
+    watcher.socket.close();
+  }
+});
+
+// A task as a client asks for it to be created
+const newTask = (sharedId, taskData = {}) => ({
+  sharedId,
+  type: 'cube',
+  position: { x: -4, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+  scale: { x: 1, y: 1, z: 1 },
+  color: 0,
+  taskData: { title: 'New Task', description: '', status: 'To Do', checklist: [], activityLog: [], ...taskData }
+});
+
+test('a created task starts without the comments and log entries the client made up', async () => {
+  const { socket, identity } = await connect();
+  try {
+    const created = next(socket, 'object-created');
+    socket.emit('request-create-object', newTask('forged_history', {
+      comments: [{ id: 'c1', userId: 'user_ada', username: 'ada', text: 'Approved', timestamp: '2020-01-01T00:00:00.000Z' }],
+      activityLog: [{ timestamp: '2020-01-01T00:00:00.000Z', userId: 'user_ada', action: 'Task Created', details: 'by ada' }]
+    }));
+    const { taskData } = await created;
+    assert.deepEqual(taskData.comments, []);
+    assert.equal(taskData.activityLog.length, 1);
+    assert.equal(taskData.activityLog[0].userId, identity.id);
+  } finally {
+    socket.close();
+  }
+});
+
+test('a task can not be created with unregistered assignees or impossible dependencies', async () => {
+  const { socket } = await connect();
+  try {
+    let rejected = next(socket, 'operation-rejected');
+    socket.emit('request-create-object', newTask('forged_assignee', { assignees: [{ userId: 'user_ada', username: 'ada' }] }));
+    assert.deepEqual(await rejected, {
+      operation: 'request-create-object',
+      objectId: 'forged_assignee',
+      reason: 'unknown-assignee',
+      currentState: null
+    });
+
+    rejected = next(socket, 'operation-rejected');
+    socket.emit('request-create-object', newTask('forged_dependency', { blockedBy: ['no_such_task'] }));
+    assert.equal((await rejected).reason, 'invalid-dependency');
+
+    // Neither was created
+    const snapshot = next(socket, 'board-snapshot');
+    socket.emit('request-board-snapshot');
+    const ids = (await snapshot).objects.map(object => object.sharedId);
+    assert.ok(!ids.includes('forged_assignee') && !ids.includes('forged_dependency'));
+  } finally {
+    socket.close();
+  }
+});
+
+// Ask the server something answered through an ack
+const ask = (socket, event, data) => new Promise(resolve => socket.emit(event, data, resolve));
+
+// Connect and register an account, resolving with the signed-in socket
+async function register(username) {
+  const { socket } = await connect();
+  const response = await ask(socket, 'register', { username, email: `${username}@example.com`, password: 'correct horse battery' });
+  assert.equal(response.success, true, response.error);
+  return socket;
+}
+
+test('users can only be looked up by signed-in users, among the members of their board', async () => {
+  const ada = await register('ada_lookup');
+  const bob = await register('bob_lookup');
+  const cy = await register('cy_lookup');
+  const guest = await connect();
+  try {
+    assert.deepEqual(await ask(guest.socket, 'find-users', { query: 'lookup' }),
+      { success: false, error: 'Only registered users can look up users' });
+
+    const { board } = await ask(ada, 'create-board', { name: 'Plans' });
+    assert.equal((await ask(ada, 'join-board', { boardId: board.id })).success, true);
+    assert.equal((await ask(ada, 'set-board-member', { username: 'bob_lookup', role: 'editor' })).success, true);
+
+    const { users } = await ask(ada, 'find-users', { query: 'lookup' });
+    assert.deepEqual(users.map(user => user.username), ['ada_lookup', 'bob_lookup']);
+  } finally {
+    [ada, bob, cy, guest.socket].forEach(socket => socket.close());
+  }
+});
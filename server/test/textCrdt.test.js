@@ -0,0 +1,116 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { TextCrdt, MAX_PENDING_OPS } = require('../textCrdt');
+
+const insert = (id, after, value) => ({ type: 'insert', id, after, value });
+const remove = (id) => ({ type: 'delete', id });
+
+// Every order the operations could arrive in
+function permutations(items) {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, index) =>
+    permutations([...items.slice(0, index), ...items.slice(index + 1)]).map(rest => [item, ...rest]));
+}
+
+test('fromText seeds the same ids as the client', () => {
+  const doc = TextCrdt.fromText('hé!');
+  assert.equal(doc.text, 'hé!');
+  assert.deepEqual(doc.toJSON().chars.map(([id]) => id), ['1@seed', '2@seed', '3@seed']);
+});
+
+test('concurrent inserts at the same spot end up in the same order on every replica', () => {
+  // Two sites type after the 'a' of 'ab' at the same time
+  const fromAlice = [insert('3@alice', '1@seed', 'X'), insert('4@alice', '3@alice', 'Y')];
+  const fromBob = [insert('3@bob', '1@seed', 'Z')];
+  const fromCarol = [insert('5@carol', '1@seed', 'W')];
+
+  const results = permutations([fromAlice, fromBob, fromCarol]).map(order => {
+    const doc = TextCrdt.fromText('ab');
+    order.forEach(ops => doc.apply(ops));
+    return doc.text;
+  });
+  assert.equal(new Set(results).size, 1, results.join(', '));
+  assert.equal(results[0], 'aWZXYb');
+});
+
+test('concurrent inserts at the start converge too', () => {
+  const ops = [insert('1@alice', null, 'A'), insert('1@bob', null, 'B'), insert('2@alice', '1@alice', 'a')];
+  const results = permutations(ops).map(order => {
+    const doc = new TextCrdt();
+    order.forEach(op => doc.apply([op]));
+    return doc.text;
+  });
+  assert.deepEqual(new Set(results), new Set(['BAa']));
+});
+
+test('an insert next to a concurrently deleted character still lands in place', () => {
+  const a = TextCrdt.fromText('abc');
+  const b = new TextCrdt(a.toJSON());
+  const deletion = [remove('2@seed')];
+  const insertion = [insert('4@bob', '2@seed', 'X')];
+
+  a.apply(deletion);
+  a.apply(insertion);
+  b.apply(insertion);
+  b.apply(deletion);
+  assert.equal(a.text, 'aXc');
+  assert.deepEqual(a.toJSON(), b.toJSON());
+});
+
+test('operations on characters not seen yet wait until those arrive', () => {
+  const doc = TextCrdt.fromText('a');
+  assert.deepEqual(doc.apply([insert('3@bob', '2@bob', 'c'), remove('2@bob')]), []);
+  assert.equal(doc.text, 'a');
+
+  // They are returned once applied, after the character they waited for
+  assert.deepEqual(doc.apply([insert('2@bob', '1@seed', 'b')]),
+    [insert('2@bob', '1@seed', 'b'), insert('3@bob', '2@bob', 'c'), remove('2@bob')]);
+  assert.equal(doc.text, 'ac');
+});
+
+test('only so many operations wait; the oldest are dropped', () => {
+  const doc = TextCrdt.fromText('a');
+  const waiting = Array.from({ length: MAX_PENDING_OPS + 5 }, (_, index) => remove(`${index + 1}@bob`));
+  doc.apply(waiting);
+  assert.equal(doc.pending.length, MAX_PENDING_OPS);
+
+  // 1@bob to 5@bob were dropped, so deleting what arrives now only takes 6@bob
+  const arrived = Array.from({ length: 6 }, (_, index) => insert(`${index + 1}@bob`, '1@seed', 'x'));
+  const applied = doc.apply(arrived);
+  assert.deepEqual(applied.slice(arrived.length), [remove('6@bob')]);
+  assert.equal(doc.text, 'axxxxx');
+});
+
+test('duplicate operations change nothing, and are not returned', () => {
+  const doc = TextCrdt.fromText('ab');
+  const ops = [insert('3@bob', '2@seed', 'c'), remove('1@seed')];
+  assert.deepEqual(doc.apply(ops), ops);
+  assert.deepEqual(doc.apply(ops), []);
+  assert.equal(doc.text, 'bc');
+  assert.equal(doc.toJSON().chars.length, 3);
+});
+
+test('invalid operations are dropped', () => {
+  const doc = TextCrdt.fromText('a');
+  const accepted = doc.apply([
+    insert('bad-id', null, 'x'),
+    insert('2@bob', null, 'xy'),
+    insert('3@bob', 7, 'x'),
+    { type: 'rename', id: '4@bob' },
+    null,
+    insert('5@bob', '1@seed', 'b')
+  ]);
+  assert.deepEqual(accepted, [insert('5@bob', '1@seed', 'b')]);
+  assert.equal(doc.text, 'ab');
+  assert.deepEqual(doc.apply('not a list'), []);
+});
+
+test('the JSON state restores the document, tombstones included', () => {
+  const doc = TextCrdt.fromText('abc');
+  doc.apply([remove('2@seed'), insert('4@bob', '3@seed', 'd')]);
+  const restored = new TextCrdt(JSON.parse(JSON.stringify(doc.toJSON())));
+
+  assert.equal(restored.text, 'acd');
+  restored.apply([insert('5@bob', '2@seed', 'X')]);
+  assert.equal(restored.text, 'aXcd');
+});
@@ -0,0 +1,88 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { generateSecret, verifyCode, otpauthUri, generateBackupCodes, useSecondFactor } = require('../totp');
+const { publicUser } = require('../auth');
+
+// The SHA-1 seed of RFC 6238 appendix B ('12345678901234567890'), in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// RFC 6238 appendix B test vectors (SHA-1), cut down to the six digits we use
+const RFC_VECTORS = [
+  { time: 59, code: '287082' },
+  { time: 1111111109, code: '081804' },
+  { time: 1111111111, code: '050471' },
+  { time: 1234567890, code: '005924' },
+  { time: 2000000000, code: '279037' },
+  { time: 20000000000, code: '353130' }
+];
+
+test('codes match the RFC 6238 test vectors', () => {
+  RFC_VECTORS.forEach(({ time, code }) => {
+    assert.equal(verifyCode(RFC_SECRET, code, -1, time * 1000), Math.floor(time / 30), `code at T=${time}`);
+  });
+});
+
+test('codes from one step either side are accepted, older or newer ones are not', () => {
+  const now = 1111111111 * 1000;
+  assert.equal(verifyCode(RFC_SECRET, '050471', -1, now + 30 * 1000), 37037037);
+  assert.equal(verifyCode(RFC_SECRET, '050471', -1, now - 30 * 1000), 37037037);
+  assert.equal(verifyCode(RFC_SECRET, '050471', -1, now + 90 * 1000), null);
+});
+
+test('malformed codes are refused', () => {
+  ['', '12345', '1234567', 'abcdef', null, 287082].forEach(code => {
+    assert.equal(verifyCode(RFC_SECRET, code, -1, 59 * 1000), null);
+  });
+});
+
+test('a code is refused for a step at or before the last one accepted', () => {
+  const now = 59 * 1000;
+  const step = verifyCode(RFC_SECRET, '287082', -1, now);
+  assert.equal(verifyCode(RFC_SECRET, '287082', step, now), null);
+  assert.equal(verifyCode(RFC_SECRET, '287082', step - 1, now), step);
+});
+
+test('useSecondFactor uses a code up, so it can not be replayed', (t) => {
+  t.mock.timers.enable({ apis: ['Date'], now: 1234567890 * 1000 });
+  const user = { username: 'ada', totp: { secret: RFC_SECRET, enabled: true, lastStep: -1 } };
+
+  const updated = useSecondFactor(user, '005924');
+  assert.ok(updated);
+  assert.equal(updated.totp.lastStep, Math.floor(1234567890 / 30));
+  assert.equal(useSecondFactor(updated, '005924'), null);
+});
+
+test('backup codes work once, in any case and with or without the dash', () => {
+  const { codes, hashes } = generateBackupCodes();
+  assert.equal(codes.length, 10);
+  assert.equal(new Set(codes).size, codes.length);
+  const user = { username: 'ada', totp: { secret: generateSecret(), enabled: true, lastStep: -1 }, backupCodes: hashes };
+
+  const updated = useSecondFactor(user, ` ${codes[3].replace('-', '').toUpperCase()} `);
+  assert.ok(updated);
+  assert.equal(updated.backupCodes.length, 9);
+  assert.equal(useSecondFactor(updated, codes[3]), null);
+  assert.ok(useSecondFactor(updated, codes[4]));
+});
+
+test('users without two-factor authentication have no second factor', () => {
+  assert.equal(useSecondFactor({ username: 'ada' }, '123456'), null);
+});
+
+test('the otpauth URI carries the secret and the code parameters', () => {
+  const secret = generateSecret();
+  assert.match(secret, /^[A-Z2-7]{32}$/);
+  const uri = new URL(otpauthUri('ada lovelace', secret));
+  assert.equal(uri.protocol, 'otpauth:');
+  assert.equal(uri.host, 'totp');
+  assert.equal(decodeURIComponent(uri.pathname), '/Task Board:ada lovelace');
+  assert.equal(uri.searchParams.get('secret'), secret);
+  assert.equal(uri.searchParams.get('digits'), '6');
+  assert.equal(uri.searchParams.get('period'), '30');
+});
+
+test('clients see whether two-factor authentication is on, but not its secret or backup codes', () => {
+  const { hashes } = generateBackupCodes();
+  const visible = publicUser({ id: 'user_1', username: 'ada', totp: { secret: RFC_SECRET, enabled: true, lastStep: 3 }, backupCodes: hashes });
+  assert.deepEqual(visible, { id: 'user_1', username: 'ada', twoFactorEnabled: true });
+});
@@ -0,0 +1,52 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const { BoardState } = require('../boardState');
+const { DEFAULT_ZONES } = require('../workflow');
+
+// A board with the default zones, 'In Progress' limited to two tasks, and a task with each of the given statuses
+function boardWith(statuses, wipPolicy = 'refuse') {
+  const tasks = statuses.map((status, index) => ({
+    sharedId: `task_${index}`,
+    type: 'cube',
+    position: { x: 0, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    scale: { x: 1, y: 1, z: 1 },
+    color: 0,
+    taskData: { title: `Task ${index}`, description: '', status, checklist: [], activityLog: [] }
+  }));
+  const board = new BoardState(new MemoryStore(), 'board', { seed: true, initialObjects: tasks });
+  const result = board.setWorkflow(DEFAULT_ZONES.map(zone => (zone.id === 'in-progress' ? { ...zone, wipLimit: 2 } : zone)), wipPolicy);
+  assert.equal(result.error, undefined);
+  return board;
+}
+
+test('a zone below its limit takes another task', () => {
+  const board = boardWith(['To Do', 'In Progress']);
+  assert.equal(board.wouldExceedWipLimit('task_0', 'In Progress'), false);
+});
+
+test('a zone at its limit takes no more', () => {
+  const board = boardWith(['To Do', 'In Progress', 'In Progress']);
+  assert.equal(board.wouldExceedWipLimit('task_0', 'In Progress'), true);
+  assert.equal(board.wouldExceedWipLimit('new_task', 'In Progress'), true, 'new tasks count too');
+});
+
+test('a task already in a full zone is not moving into it', () => {
+  const board = boardWith(['In Progress', 'In Progress']);
+  assert.equal(board.wouldExceedWipLimit('task_0', 'In Progress'), false);
+});
+
+test('zones without a limit, and unknown zones, are never full', () => {
+  const board = boardWith(['To Do', 'To Do', 'To Do']);
+  assert.equal(board.wouldExceedWipLimit('task_0', 'Done'), false);
+  assert.equal(board.wouldExceedWipLimit('task_0', 'Backlog'), false);
+});
+
+test('a limit may be lowered below what a zone holds', () => {
+  const board = boardWith(['In Progress', 'In Progress'], 'warn');
+  const result = board.setWorkflow(DEFAULT_ZONES.map(zone => (zone.id === 'in-progress' ? { ...zone, wipLimit: 1 } : zone)));
+  assert.equal(result.error, undefined);
+  assert.equal(result.wipPolicy, 'warn');
+  assert.equal(board.wouldExceedWipLimit('new_task', 'In Progress'), true);
+});
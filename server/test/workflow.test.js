@@ -0,0 +1,84 @@
+const test = require('node:test');
+const assert = require('node:assert/strict');
+const { MemoryStore } = require('../storage');
+const { BoardState } = require('../boardState');
+const { DEFAULT_ZONES, MAX_ZONES, layoutZones, workflowError } = require('../workflow');
+
+const zone = (id, name, fields = {}) => ({ id, name, color: '#90ee90', width: 3, depth: 4, ...fields });
+
+// A board whose only task, 'task', sits in the middle of the given zone
+function boardWithTaskIn(status, x) {
+  const task = {
+    sharedId: 'task',
+    type: 'cube',
+    position: { x, y: 0, z: 0 },
+    rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+    scale: { x: 1, y: 1, z: 1 },
+    color: 0,
+    taskData: { title: 'Task', description: '', status, checklist: [], activityLog: [] }
+  };
+  const store = new MemoryStore();
+  return { store, board: new BoardState(store, 'board', { seed: true, initialObjects: [task] }) };
+}
+
+test('zones sit side by side, centred on the origin', () => {
+  assert.deepEqual(layoutZones(DEFAULT_ZONES), [-4, 0, 4]);
+  assert.deepEqual(layoutZones([zone('a', 'A', { width: 2 }), zone('b', 'B', { width: 6 })]), [-3.5, 1.5]);
+  assert.deepEqual(layoutZones([]), []);
+});
+
+test('a workflow needs zones with unique ids and names, and sane colors, sizes and limits', () => {
+  assert.equal(workflowError(DEFAULT_ZONES), null);
+  assert.equal(workflowError([]), 'A workflow needs at least one zone');
+  assert.equal(workflowError(Array.from({ length: MAX_ZONES + 1 }, (_, i) => zone(`z${i}`, `Z${i}`))),
+    `A workflow can have at most ${MAX_ZONES} zones`);
+  assert.equal(workflowError([zone('a', '  ')]), 'Every zone needs a name');
+  assert.equal(workflowError([zone('a', 'Doing'), zone('b', 'doing')]), "There is more than one zone called 'doing'");
+  assert.equal(workflowError([zone('a', 'A'), zone('a', 'B')]), "There is more than one zone with the id 'a'");
+  assert.equal(workflowError([zone('a', 'A', { color: 'green' })]), "The color of 'A' must look like #90ee90");
+  assert.equal(workflowError([zone('a', 'A', { width: 21 })]), "The size of 'A' must be between 1 and 20");
+  assert.equal(workflowError([zone('a', 'A', { wipLimit: 0 })]), "The WIP limit of 'A' must be a whole number from 1 to 1000");
+  assert.equal(workflowError([zone('a', 'A', { wipLimit: 2.5 })]), "The WIP limit of 'A' must be a whole number from 1 to 1000");
+});
+
+test('boards start with the default workflow, and new tasks go to a zone that exists', () => {
+  const { board } = boardWithTaskIn('To Do', -4);
+  assert.deepEqual(board.getLayout().workflow, DEFAULT_ZONES);
+  assert.equal(board.newTaskStatus({ status: 'Done' }), 'Done');
+  assert.equal(board.newTaskStatus({ status: 'Backlog' }), 'To Do');
+  assert.equal(board.newTaskStatus(undefined), 'To Do');
+});
+
+test('tasks follow their zone when it is renamed and moved', () => {
+  const { board } = boardWithTaskIn('In Progress', 0.5);
+  const workflow = [zone('in-progress', ' Doing ', { width: 4 }), zone('todo', 'To Do'), zone('done', 'Done')];
+
+  const result = board.setWorkflow(workflow);
+  assert.deepEqual(result.workflow.map(({ name }) => name), ['Doing', 'To Do', 'Done']);
+  assert.equal(result.objects.length, 1);
+  const task = board.getObject('task');
+  assert.equal(task.taskData.status, 'Doing');
+  assert.equal(task.position.x, layoutZones(result.workflow)[0] + 0.5, 'it keeps its place inside the zone');
+  assert.equal(task.version, 2);
+});
+
+test('a zone can only be removed once it is empty', () => {
+  const { board } = boardWithTaskIn('Done', 4);
+  const withoutDone = DEFAULT_ZONES.filter(({ id }) => id !== 'done');
+  const withoutTodo = DEFAULT_ZONES.filter(({ id }) => id !== 'todo');
+
+  assert.deepEqual(board.setWorkflow(withoutDone), { error: "Move the tasks out of 'Done' before removing it" });
+  assert.equal(board.hasStatus('Done'), true);
+  assert.equal(board.setWorkflow(withoutTodo).error, undefined);
+  assert.equal(board.hasStatus('To Do'), false);
+});
+
+test('a changed workflow is kept for the board', () => {
+  const { store, board } = boardWithTaskIn('To Do', -4);
+  board.setWorkflow([zone('todo', 'Backlog'), ...DEFAULT_ZONES.slice(1)], 'refuse');
+
+  const restored = new BoardState(store, 'board');
+  assert.deepEqual(restored.workflow.map(({ name }) => name), ['Backlog', 'In Progress', 'Done']);
+  assert.equal(restored.wipPolicy, 'refuse');
+  assert.equal(restored.getObject('task').taskData.status, 'Backlog');
+});
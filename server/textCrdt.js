@@ -0,0 +1,122 @@
+// Character-wise sequence CRDT (RGA) for task titles and descriptions.
+// Server-side counterpart of src/utils/textCrdt.ts - the two must integrate operations identically.
+//
+// Characters have ids "<counter>@<site>" and are inserted after another character (or at the start);
+// concurrent inserts at the same spot are ordered by id. Deletes leave tombstones behind.
+// Operations: { type: 'insert', id, after, value } and { type: 'delete', id }
+
+const TEXT_FIELDS = ['title', 'description'];
+const SEED_SITE_ID = 'seed';
+const MAX_PENDING_OPS = 1000; // Ops still waiting beyond this are dropped, oldest first
+
+function parseId(id) {
+  const at = id.indexOf('@');
+  return { counter: Number(id.slice(0, at)), site: id.slice(at + 1) };
+}
+
+function compareIds(a, b) {
+  const idA = parseId(a);
+  const idB = parseId(b);
+  if (idA.counter !== idB.counter) return idA.counter - idB.counter;
+  if (idA.site === idB.site) return 0;
+  return idA.site > idB.site ? 1 : -1;
+}
+
+function isValidOperation(op) {
+  if (!op || typeof op.id !== 'string' || !/^\d+@.+$/.test(op.id)) return false;
+  if (op.type === 'delete') return true;
+  return op.type === 'insert' &&
+    typeof op.value === 'string' &&
+    Array.from(op.value).length === 1 &&
+    (op.after === null || typeof op.after === 'string');
+}
+
+class TextCrdt {
+  // state: { chars: [[id, value, deleted], ...] } in document order
+  constructor(state) {
+    this.chars = [];
+    this.charsById = new Map();
+    this.pending = [];
+    if (state && Array.isArray(state.chars)) {
+      state.chars.forEach(([id, value, deleted]) => {
+        const char = { id, value, deleted: !!deleted };
+        this.chars.push(char);
+        this.charsById.set(id, char);
+      });
+    }
+  }
+
+  // Same ids as TextCrdt.fromText on the client
+  static fromText(text) {
+    const doc = new TextCrdt();
+    let after = null;
+    Array.from(text || '').forEach((value, index) => {
+      const id = `${index + 1}@${SEED_SITE_ID}`;
+      doc.integrateInsert({ type: 'insert', id, after, value });
+      after = id;
+    });
+    return doc;
+  }
+
+  get text() {
+    return this.chars.filter(char => !char.deleted).map(char => char.value).join('');
+  }
+
+  // Apply operations from a client; ops referring to unknown characters wait until those arrive
+  // (up to MAX_PENDING_OPS of them). Returns the ops that changed the document, in the order they were
+  // applied: an op that waited is returned by the call that applies it. Invalid and duplicate ops are dropped.
+  apply(ops) {
+    const valid = (Array.isArray(ops) ? ops : []).filter(isValidOperation);
+    const changed = [];
+    let queue = [...this.pending, ...valid];
+    let progressed = true;
+    while (queue.length > 0 && progressed) {
+      progressed = false;
+      const waiting = [];
+      queue.forEach(op => {
+        const applied = op.type === 'insert' ? this.integrateInsert(op) : this.integrateDelete(op);
+        if (applied === null) {
+          waiting.push(op);
+        } else {
+          progressed = true;
+          if (applied) changed.push(op);
+        }
+      });
+      queue = waiting;
+    }
+    this.pending = queue.slice(-MAX_PENDING_OPS);
+    return changed;
+  }
+
+  toJSON() {
+    return { chars: this.chars.map(char => [char.id, char.value, char.deleted]) };
+  }
+
+  integrateInsert(op) {
+    if (this.charsById.has(op.id)) return false;
+
+    let position = 0;
+    if (op.after !== null) {
+      if (!this.charsById.has(op.after)) return null;
+      position = this.chars.findIndex(char => char.id === op.after) + 1;
+    }
+    while (position < this.chars.length && compareIds(this.chars[position].id, op.id) > 0) {
+      position++;
+    }
+
+    const char = { id: op.id, value: op.value, deleted: false };
+    this.chars.splice(position, 0, char);
+    this.charsById.set(op.id, char);
+    return true;
+  }
+
+  integrateDelete(op) {
+    const char = this.charsById.get(op.id);
+    if (!char) return null;
+    if (char.deleted) return false;
+    char.deleted = true;
+    return true;
+  }
+}
+
+module.exports = { TextCrdt, TEXT_FIELDS, MAX_PENDING_OPS };
@@ -0,0 +1,115 @@
+const crypto = require('crypto');
+
+// Time-based one-time passwords (RFC 6238: HMAC-SHA1, 6 digits, 30 second steps), as authenticator
+// apps generate them, and single-use backup codes for when the app is lost.
+//
+// An account with two-factor authentication has user.totp = { secret, enabled, lastStep } (the base32
+// secret; enabled once the user proved their app has it; lastStep, the last step a code was accepted for,
+// so a code can't be used twice) and user.backupCodes, the SHA-256 hashes of its unused backup codes.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1; // Codes from one step either side are accepted, for clocks that are a little off
+const BACKUP_CODE_COUNT = 10;
+const ISSUER = 'Task Board';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(text) {
+  let bits = 0;
+  let value = 0;
+  const bytes = [];
+  for (const char of text.replace(/=+$/, '').toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character '${char}'`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateSecret() {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// The code for a given step (RFC 4226 HOTP with the step as counter)
+function codeForStep(secret, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+function currentStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+// The step a code is valid for, or null if it isn't valid now. Steps up to and including lastStep are
+// refused, so every code works once.
+function verifyCode(secret, code, lastStep = -1, now = Date.now()) {
+  if (typeof code !== 'string' || !/^\d{6}$/.test(code)) return null;
+  const step = currentStep(now);
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    const candidate = step + drift;
+    if (candidate <= lastStep) continue;
+    if (crypto.timingSafeEqual(Buffer.from(codeForStep(secret, candidate)), Buffer.from(code))) return candidate;
+  }
+  return null;
+}
+
+// What authenticator apps scan (or open) to add the account
+function otpauthUri(username, secret) {
+  const label = encodeURIComponent(`${ISSUER}:${username}`);
+  const params = new URLSearchParams({ secret, issuer: ISSUER, algorithm: 'SHA1', digits: String(DIGITS), period: String(STEP_SECONDS) });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+function hashBackupCode(code) {
+  return crypto.createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+// Returns { codes } to show the user once, and { hashes } to store
+function generateBackupCodes() {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashBackupCode) };
+}
+
+// Check a second factor for a user record: a current code or an unused backup code.
+// Returns the user record updated to use it up, or null if it isn't valid.
+function useSecondFactor(user, code) {
+  if (!user.totp || typeof code !== 'string') return null;
+  const step = verifyCode(user.totp.secret, code.trim(), user.totp.lastStep);
+  if (step !== null) return { ...user, totp: { ...user.totp, lastStep: step } };
+
+  const hash = hashBackupCode(code);
+  const backupCodes = user.backupCodes || [];
+  if (!backupCodes.includes(hash)) return null;
+  return { ...user, backupCodes: backupCodes.filter(stored => stored !== hash) };
+}
+
+module.exports = { generateSecret, verifyCode, otpauthUri, generateBackupCodes, useSecondFactor };
@@ -0,0 +1,123 @@
+// A board's workflow: the zones (columns) its tasks move through, left to right on the board.
+// A task's status is the name of the zone it is in. Each zone is { id, name, color, width, depth, wipLimit };
+// the id stays the same when the zone is renamed, recolored, resized or moved, so tasks can follow it.
+// Zones are laid out side by side in order, ZONE_GAP apart and centred on the origin.
+//
+// wipLimit (optional, null or missing: none) is how many tasks the zone is meant to hold at most. The board's
+// WIP policy says what happens to a move that would put one more in a zone at its limit: 'refuse' it,
+// or 'warn' (it goes ahead and the zone shows it is over its limit).
+//
+// Swimlanes (optional) split the board the other way, along z. The board groups its tasks by 'assignee' (their
+// first one), 'priority' or 'label' (their first one), and each task sits in the cell for its status × lane.
+// A lane is { value, label }; the last one, whose value is null, holds the tasks with no value to group by.
+// Lanes are LANE_DEPTH deep, stacked front to back and centred on the origin; while a board has them, every
+// zone is as deep as all its lanes together.
+// src/utils/workflow.ts mirrors this for the client.
+
+const MAX_ZONES = 12;
+const ZONE_GAP = 1;
+const MIN_ZONE_SIZE = 1;
+const MAX_ZONE_SIZE = 20;
+const MAX_WIP_LIMIT = 1000;
+
+const WIP_POLICIES = ['refuse', 'warn'];
+const DEFAULT_WIP_POLICY = 'warn';
+
+const SWIMLANE_GROUPINGS = ['assignee', 'priority', 'label'];
+const LANE_DEPTH = 2.5;
+const PRIORITY_LANES = ['urgent', 'high', 'medium', 'low'];
+const NO_VALUE_LANES = { assignee: 'Unassigned', priority: 'No priority', label: 'No label' };
+
+// The property change (see boardState.js) that sets what each grouping reads
+const LANE_PROPERTIES = { assignee: 'taskAssignees', priority: 'taskPriority', label: 'taskLabels' };
+
+// The workflow of boards whose owners haven't changed it (the zones App.tsx used to hard-code)
+const DEFAULT_ZONES = [
+  { id: 'todo', name: 'To Do', color: '#ff6347', width: 3, depth: 4 },
+  { id: 'in-progress', name: 'In Progress', color: '#ffd700', width: 3, depth: 4 },
+  { id: 'done', name: 'Done', color: '#90ee90', width: 3, depth: 4 }
+];
+
+// The x coordinate of each zone's centre, in order
+function layoutZones(zones) {
+  const total = zones.reduce((sum, zone) => sum + zone.width, 0) + ZONE_GAP * Math.max(zones.length - 1, 0);
+  let left = -total / 2;
+  return zones.map(zone => {
+    const x = left + zone.width / 2;
+    left += zone.width + ZONE_GAP;
+    return x;
+  });
+}
+
+// The value of the lane a task belongs in, or null for the last lane
+function laneValue(grouping, taskData) {
+  switch (grouping) {
+    case 'assignee': return taskData.assignees && taskData.assignees.length > 0 ? taskData.assignees[0].userId : null;
+    case 'priority': return taskData.priority || null;
+    case 'label': return taskData.labels && taskData.labels.length > 0 ? taskData.labels[0] : null;
+    default: return null;
+  }
+}
+
+// The lanes for grouping the tasks (their taskData) by `grouping`, front to back; none if it is null.
+// Priorities always have a lane each, most urgent first; assignees and labels have one while a task uses them.
+function swimlanes(grouping, tasks) {
+  if (!grouping) return [];
+  let lanes;
+  if (grouping === 'priority') {
+    lanes = PRIORITY_LANES.map(priority => ({ value: priority, label: priority[0].toUpperCase() + priority.slice(1) }));
+  } else {
+    const found = new Map();
+    tasks.forEach(taskData => {
+      const value = laneValue(grouping, taskData);
+      if (value !== null && !found.has(value)) found.set(value, grouping === 'assignee' ? taskData.assignees[0].username : value);
+    });
+    lanes = Array.from(found, ([value, label]) => ({ value, label })).sort((a, b) => a.label.localeCompare(b.label));
+  }
+  return [...lanes, { value: null, label: NO_VALUE_LANES[grouping] }];
+}
+
+// The z coordinate of each lane's centre, in order
+function layoutLanes(lanes) {
+  const front = -(lanes.length * LANE_DEPTH) / 2;
+  return lanes.map((_, index) => front + LANE_DEPTH * (index + 0.5));
+}
+
+// Why a list of zones can't be a workflow, or null if it can
+function workflowError(zones) {
+  if (zones.length === 0) return 'A workflow needs at least one zone';
+  if (zones.length > MAX_ZONES) return `A workflow can have at most ${MAX_ZONES} zones`;
+  const ids = new Set();
+  const names = new Set();
+  for (const zone of zones) {
+    const name = zone.name.trim();
+    if (!name) return 'Every zone needs a name';
+    if (names.has(name.toLowerCase())) return `There is more than one zone called '${name}'`;
+    if (ids.has(zone.id)) return `There is more than one zone with the id '${zone.id}'`;
+    if (!/^#[0-9a-f]{6}$/i.test(zone.color)) return `The color of '${name}' must look like #90ee90`;
+    if ([zone.width, zone.depth].some(size => size < MIN_ZONE_SIZE || size > MAX_ZONE_SIZE)) {
+      return `The size of '${name}' must be between ${MIN_ZONE_SIZE} and ${MAX_ZONE_SIZE}`;
+    }
+    if (zone.wipLimit != null && !(Number.isInteger(zone.wipLimit) && zone.wipLimit >= 1 && zone.wipLimit <= MAX_WIP_LIMIT)) {
+      return `The WIP limit of '${name}' must be a whole number from 1 to ${MAX_WIP_LIMIT}`;
+    }
+    ids.add(zone.id);
+    names.add(name.toLowerCase());
+  }
+  return null;
+}
+
+module.exports = {
+  DEFAULT_ZONES,
+  MAX_ZONES,
+  WIP_POLICIES,
+  DEFAULT_WIP_POLICY,
+  SWIMLANE_GROUPINGS,
+  LANE_DEPTH,
+  LANE_PROPERTIES,
+  layoutZones,
+  laneValue,
+  swimlanes,
+  layoutLanes,
+  workflowError
+};
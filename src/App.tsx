@@ -2,13 +2,83 @@ import { useEffect, useRef, useState, useCallback } from 'react';
 import * as THREE from 'three';
 import { gsap } from 'gsap';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { Socket } from 'socket.io-client';
 import './App.css';
 import PropertiesPanel from './components/PropertiesPanel';
+import BoardMembersPanel from './components/BoardMembersPanel';
+import WorkflowPanel from './components/WorkflowPanel';
+import ProfilePanel from './components/ProfilePanel';
+import AccountLinkDialog from './components/AccountLinkDialog';
+import NotificationManager, { useNotification } from './components/NotificationManager';
 import LandingPage from './components/LandingPage'; // Import LandingPage
 import ThreeDApp from './components/3D/ThreeDApp'; // Import 3D App
 import { useAuth } from './context/AuthContext'; // Import auth context
-import { setSocket } from './services/socket'; // Import socket service
+import { getCurrentUserId, setSocket } from './services/socket'; // Import socket service
+import { authService } from './services/AuthService';
+import { offlineQueue } from './services/offlineQueue'; // Buffers board edits while offline
+import {
+  DEFAULT_BOARD_ID,
+  getBoardIdFromLocation,
+  getBoardUrl,
+  getInviteTokenFromLocation,
+  getAccountLinkFromLocation,
+  clearAccountLink,
+  navigateToBoard
+} from './services/boardRoute';
+import {
+  TASK_TEXT_FIELDS,
+  createTaskTextDocs,
+  getTaskTextDocs,
+  type TaskTextField
+} from './utils/textCrdt';
+import { takeBaseVersion } from './utils/objectVersion';
+import { validated } from './utils/eventSchemas';
+import { openBlockers, type LinkedTask } from './utils/dependencies';
+import { BoardEventSequencer } from './utils/boardEventSequencer';
+import { hasRole } from './utils/boardRoles';
+import {
+  describeTaskField,
+  getTaskField,
+  isTaskFieldProperty,
+  setTaskField,
+  type TaskFieldProperty,
+  type TaskFieldValue
+} from './utils/taskFields';
+import {
+  DEFAULT_WIP_POLICY,
+  DEFAULT_WORKFLOW,
+  LANE_DEPTH,
+  laneAt,
+  laneFieldChange,
+  layoutLanes,
+  isFinalStatus,
+  layoutZones,
+  type LaneField,
+  type Swimlane,
+  type SwimlaneGrouping,
+  type WipPolicy,
+  type WorkflowZone
+} from './utils/workflow';
+import type {
+  AcceptInviteResponse,
+  AppSocket,
+  BoardInfo,
+  BoardLayoutData,
+  BoardObjectData,
+  BoardResponse,
+  BoardRole,
+  BoardSnapshotData,
+  CursorUpdateData,
+  ForbiddenResponse,
+  InvalidPayloadResponse,
+  ObjectPropertyUpdateData,
+  OperationRejectedData,
+  ScreenCursorData,
+  Sequenced,
+  TextOperationsData,
+  UserData,
+  VersionedWriteResponse,
+  WorkflowUpdateData
+} from './types/socketEvents';
 
 export interface ChecklistItem {
   id: string;
@@ -23,48 +93,66 @@ export interface ActivityLogEntry {
   details?: string; // e.g., new title, new status, checklist item text
 }
 
+// Added through 'add-comment'; the server assigns the id, author and timestamp
+export interface TaskComment {
+  id: string;
+  userId: string;
+  username?: string;
+  text: string;
+  timestamp: string;
+}
+
+// A registered user a task is assigned to. The username is the one they log in with, which never changes.
+export interface TaskAssignee {
+  userId: string;
+  username: string;
+}
+
+export type TaskPriority = 'low' | 'medium' | 'high' | 'urgent';
+
 export interface TaskData {
   title: string;
-  status: 'To Do' | 'In Progress' | 'Done';
+  status: string; // The name of one of the board's workflow zones (see utils/workflow.ts)
   description: string;
   checklist: ChecklistItem[];
   activityLog: ActivityLogEntry[];
+  comments?: TaskComment[];
+  assignees?: TaskAssignee[];
+  dueDate?: string | null; // 'YYYY-MM-DD'
+  priority?: TaskPriority | null;
+  labels?: string[];
+  blockedBy?: string[]; // The sharedIds of the tasks this one waits on (see utils/dependencies.ts)
 }
 
+// Title and description are edited through TextEditCommandData instead
 export interface UpdateTaskPropertyCommandData {
   objectId: string;
-  property: 'taskTitle' | 'taskDescription' | 'taskChecklistUpdate' | 'taskStatus';
-  value: string | ChecklistUpdateAction; // string for title/description/status, ChecklistUpdateAction for checklist
-  oldValue: string | ChecklistItem[]; // oldValue for title/description/status or the entire old checklist for context
+  property: 'taskChecklistUpdate' | 'taskStatus' | TaskFieldProperty;
+  value: string | ChecklistUpdateAction | TaskFieldValue; // string for status, ChecklistUpdateAction for checklist, the whole new value for task fields
+  oldValue: string | ChecklistItem[] | TaskFieldValue; // oldValue for status or the entire old checklist for context
+  userId: string;
+}
+
+// One edit of a task's title or description, as seen in the panel when it was typed
+export interface TextEditCommandData {
+  objectId: string;
+  field: TaskTextField;
+  after: string | null; // Id of the character the edit starts after (null = start of the text)
+  deletedIds: string[]; // Ids of the characters the edit replaced
+  deletedText: string;
+  insertedText: string;
   userId: string;
 }
 
 interface ListZone {
-  name: 'To Do' | 'In Progress' | 'Done';
+  id: string;
+  name: string;
   position: THREE.Vector3;
   size: { width: number; depth: number };
   color: THREE.Color;
+  wipLimit?: number | null;
   mesh?: THREE.Mesh;
-}
-
-interface ObjectPropertyUpdateData {
-  objectId: string;
-  property: 'color' | 'scale' | 'taskTitle' | 'taskStatus' | 'taskDescription' | 'taskChecklistUpdate';
-  value: string | number | { x: number; y: number; z: number } | TaskData['status'] | ChecklistUpdateAction;
-  userId?: string; // User who initiated the change
-  activityLogEntry?: ActivityLogEntry; // Optional log entry for this specific update
-}
-
-interface UserData {
-  id: string;
-  color: string;
-  username?: string; // Optional username for authenticated users
-}
-
-interface CursorUpdateData {
-  userId: string;
-  color: string;
-  position: { x: number; y: number; z: number };
+  overLimit?: boolean; // Whether the mesh is showing the WIP limit warning
 }
 
 // Updated Command interface to support imperative commands
@@ -72,10 +160,13 @@ export interface Command<T = any> {
   description: string;
   actionType: string;
   actionData: T;
-  execute(): void;
+  execute(): boolean; // False if it couldn't run (its object is gone), so it isn't recorded for undo
   undo(): void;
 }
 
+// Objects are created from the same data the server stores for them
+type CreateObjectCommandData = BoardObjectData;
+
 interface MoveObjectCommandData {
   objectId: string;
   oldPosition: { x: number; y: number; z: number };
@@ -86,26 +177,8 @@ interface MoveObjectCommandData {
   newScale: { x: number; y: number; z: number };
   oldTaskStatus?: TaskData['status'];
   newTaskStatus?: TaskData['status'];
-}
-
-interface CreateObjectCommandData {
-  sharedId: string;
-  type: 'cube' | 'sphere' | 'torus';
-  position: { x: number; y: number; z: number };
-  rotation: { x: number; y: number; z: number; order?: THREE.EulerOrder };
-  scale: { x: number; y: number; z: number };
-  color: number;
-  taskData: TaskData;
-}
-
-interface DeleteObjectCommandData {
-  sharedId: string;
-  type: 'cube' | 'sphere' | 'torus';
-  position: { x: number; y: number; z: number };
-  rotation: { x: number; y: number; z: number; order: THREE.EulerOrder };
-  scale: { x: number; y: number; z: number };
-  color: number;
-  taskData: TaskData;
+  oldLaneField?: LaneField; // Set when the task was dragged into another swimlane
+  newLaneField?: LaneField;
 }
 
 export interface ChecklistUpdateAction {
@@ -116,6 +189,199 @@ export interface ChecklistUpdateAction {
   completed?: boolean;
 }
 
+// Replace the zone planes on the board (`previous`) with ones for a workflow, laid out as utils/workflow.ts does.
+// With swimlanes, each zone is as deep as all the lanes together.
+const showWorkflowZones = (scene: THREE.Scene, previous: ListZone[], workflow: WorkflowZone[], lanes: Swimlane[]): ListZone[] => {
+  previous.forEach(zone => {
+    if (!zone.mesh) return;
+    scene.remove(zone.mesh);
+    zone.mesh.geometry.dispose();
+    if (zone.mesh.material instanceof THREE.Material) zone.mesh.material.dispose();
+  });
+
+  const centres = layoutZones(workflow);
+  return workflow.map((zone, index) => {
+    const depth = lanes.length > 0 ? lanes.length * LANE_DEPTH : zone.depth;
+    const listZone: ListZone = {
+      id: zone.id,
+      name: zone.name,
+      position: new THREE.Vector3(centres[index], 0.01, 0),
+      size: { width: zone.width, depth },
+      color: new THREE.Color(zone.color),
+      wipLimit: zone.wipLimit
+    };
+    const zoneGeometry = new THREE.PlaneGeometry(zone.width, depth);
+    const zoneMaterial = new THREE.MeshStandardMaterial({ color: listZone.color, side: THREE.DoubleSide, transparent: true, opacity: 0.5 });
+    const zoneMesh = new THREE.Mesh(zoneGeometry, zoneMaterial);
+    zoneMesh.position.copy(listZone.position);
+    zoneMesh.rotation.x = -Math.PI / 2; // Rotate to lay flat on XZ plane
+    scene.add(zoneMesh);
+    listZone.mesh = zoneMesh;
+    return listZone;
+  });
+};
+
+// A flat label on the board floor, drawn on a canvas
+const createFloorLabel = (text: string): THREE.Mesh => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 256;
+  canvas.height = 64;
+  const context = canvas.getContext('2d');
+  if (context) {
+    context.fillStyle = '#333333';
+    context.font = '28px sans-serif';
+    context.textBaseline = 'middle';
+    context.textAlign = 'right';
+    context.fillText(text, 248, 32, 240);
+  }
+  const material = new THREE.MeshBasicMaterial({ map: new THREE.CanvasTexture(canvas), transparent: true, side: THREE.DoubleSide });
+  const label = new THREE.Mesh(new THREE.PlaneGeometry(2, 0.5), material);
+  label.rotation.x = -Math.PI / 2;
+  return label;
+};
+
+// Replace the swimlane markers on the board (`previous`) with a divider between each pair of lanes across
+// all the zones, and each lane's name to the left of the zones
+const showSwimlanes = (scene: THREE.Scene, previous: THREE.Mesh[], workflow: WorkflowZone[], lanes: Swimlane[]): THREE.Mesh[] => {
+  previous.forEach(marker => {
+    scene.remove(marker);
+    marker.geometry.dispose();
+    if (marker.material instanceof THREE.MeshBasicMaterial) {
+      marker.material.map?.dispose();
+      marker.material.dispose();
+    }
+  });
+  if (lanes.length === 0 || workflow.length === 0) return [];
+
+  const zoneCentres = layoutZones(workflow);
+  const left = zoneCentres[0] - workflow[0].width / 2;
+  const right = zoneCentres[zoneCentres.length - 1] + workflow[workflow.length - 1].width / 2;
+  const markers: THREE.Mesh[] = [];
+  layoutLanes(lanes).forEach((centre, index) => {
+    const label = createFloorLabel(lanes[index].label);
+    label.position.set(left - 1.1, 0.02, centre);
+    markers.push(label);
+    if (index === 0) return;
+    const divider = new THREE.Mesh(
+      new THREE.PlaneGeometry(right - left, 0.05),
+      new THREE.MeshBasicMaterial({ color: 0x555555, side: THREE.DoubleSide })
+    );
+    divider.rotation.x = -Math.PI / 2;
+    divider.position.set((left + right) / 2, 0.02, centre - LANE_DEPTH / 2);
+    markers.push(divider);
+  });
+  markers.forEach(marker => scene.add(marker));
+  return markers;
+};
+
+// A random spot in a zone for a task moved into it: in the swimlane at `z` if the board has lanes
+const spotInZone = (zone: ListZone, lanes: Swimlane[], z: number): { x: number; z: number } => {
+  const lane = laneAt(lanes, z);
+  const centre = lane === -1 ? zone.position.z : layoutLanes(lanes)[lane];
+  const depth = lane === -1 ? zone.size.depth : LANE_DEPTH;
+  return {
+    x: zone.position.x + (Math.random() - 0.5) * zone.size.width * 0.8,
+    z: centre + (Math.random() - 0.5) * depth * 0.8
+  };
+};
+
+// How many of the tasks are in the zone called `status`, leaving out `except`
+const countTasksInZone = (objects: THREE.Object3D[], status: string, except?: THREE.Object3D): number =>
+  objects.filter(object => object !== except && object.userData.taskData?.status === status).length;
+
+const WIP_WARNING_COLOR = new THREE.Color(0xff0000);
+
+// Tint the zones that hold more tasks than their WIP limit. Run every frame, so the warning follows
+// whatever changed the tasks (a drop, the panel, another user, a new workflow).
+const showWipWarnings = (zones: ListZone[], objects: THREE.Object3D[]): void => {
+  zones.forEach(zone => {
+    const overLimit = zone.wipLimit != null && countTasksInZone(objects, zone.name) > zone.wipLimit;
+    const material = zone.mesh?.material;
+    if (overLimit === !!zone.overLimit || !(material instanceof THREE.MeshStandardMaterial)) return;
+    zone.overLimit = overLimit;
+    material.color.copy(overLimit ? WIP_WARNING_COLOR : zone.color);
+    material.opacity = overLimit ? 0.8 : 0.5;
+  });
+};
+
+// The tasks among the board's objects, for working out their dependencies
+const linkedTasks = (objects: THREE.Object3D[]): LinkedTask[] =>
+  objects
+    .filter(object => object.userData.taskData)
+    .map(object => ({ id: object.userData.sharedId, taskData: object.userData.taskData }));
+
+const OPEN_BLOCKER_COLOR = 0xff4500;
+const DONE_BLOCKER_COLOR = 0x888888;
+const CONNECTOR_INSET = 0.6; // How far from each task's centre its connectors stop
+
+// Keep an arrow from each blocker to each task it blocks, orange while the blocker is open and grey once it
+// is done. Run every frame, so the arrows follow the tasks while they are dragged or moved by others.
+// `connectors` maps 'blockerId>blockedId' to the arrow for that link.
+const showDependencies = (
+  scene: THREE.Scene,
+  connectors: Map<string, THREE.ArrowHelper>,
+  objects: THREE.Object3D[],
+  workflow: WorkflowZone[]
+): void => {
+  const byId = new Map(objects.map(object => [object.userData.sharedId as string, object]));
+  const linked = new Set<string>();
+  objects.forEach(blocked => {
+    const blockedBy: string[] = blocked.userData.taskData?.blockedBy ?? [];
+    blockedBy.forEach(blockerId => {
+      const blocker = byId.get(blockerId);
+      if (!blocker) return; // Deleted since
+      const key = `${blockerId}>${blocked.userData.sharedId}`;
+      linked.add(key);
+      let arrow = connectors.get(key);
+      if (!arrow) {
+        arrow = new THREE.ArrowHelper();
+        scene.add(arrow);
+        connectors.set(key, arrow);
+      }
+      const direction = blocked.position.clone().sub(blocker.position);
+      const length = direction.length() - 2 * CONNECTOR_INSET;
+      arrow.visible = length > 0;
+      if (length <= 0) return;
+      direction.normalize();
+      arrow.position.copy(blocker.position).addScaledVector(direction, CONNECTOR_INSET);
+      arrow.setDirection(direction);
+      arrow.setLength(length, Math.min(0.3, length * 0.4), 0.15);
+      arrow.setColor(isFinalStatus(workflow, blocker.userData.taskData?.status) ? DONE_BLOCKER_COLOR : OPEN_BLOCKER_COLOR);
+    });
+  });
+  connectors.forEach((arrow, key) => {
+    if (linked.has(key)) return;
+    scene.remove(arrow);
+    arrow.dispose();
+    connectors.delete(key);
+  });
+};
+
+// Replace an object's local state with the server's copy after a rejected write
+const applyServerObjectState = (object: THREE.Mesh, state: CreateObjectCommandData): void => {
+  gsap.killTweensOf(object.position);
+  gsap.killTweensOf(object.rotation);
+  gsap.killTweensOf(object.scale);
+
+  object.position.set(state.position.x, state.position.y, state.position.z);
+  object.rotation.set(state.rotation.x, state.rotation.y, state.rotation.z, state.rotation.order || 'XYZ');
+  object.scale.set(state.scale.x, state.scale.y, state.scale.z);
+  object.updateMatrixWorld(true);
+
+  if (object.material instanceof THREE.MeshStandardMaterial) {
+    object.material.color.set(state.color);
+  }
+  object.userData.originalColor = new THREE.Color(state.color);
+  object.userData.taskData = JSON.parse(JSON.stringify(state.taskData));
+  object.userData.version = state.version ?? 0;
+
+  // Title and description converge through text operations; keep the local documents' text
+  const textDocs = getTaskTextDocs(object);
+  TASK_TEXT_FIELDS.forEach(field => {
+    object.userData.taskData[field] = textDocs[field].text;
+  });
+};
+
 // @ts-ignore - Used in command pattern implementation
 class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
   public actionType = 'moveObject';
@@ -124,15 +390,17 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
   public actionData: MoveObjectCommandData;
 
   private interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>;
-  private socketInstance: Socket;
+  private socketInstance: AppSocket;
   private animateTaskStatusUpdateFn?: (object: THREE.Mesh) => void;
+  private onReconciledFn?: (object: THREE.Mesh) => void;
 
   constructor(
     interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>,
-    socketInstance: Socket,
+    socketInstance: AppSocket,
     actionData: MoveObjectCommandData,
     description: string,
-    animateTaskStatusUpdateFn?: (object: THREE.Mesh) => void
+    animateTaskStatusUpdateFn?: (object: THREE.Mesh) => void,
+    onReconciledFn?: (object: THREE.Mesh) => void
   ) {
     this.interactiveObjectsRef = interactiveObjectsRef;
     this.socketInstance = socketInstance;
@@ -140,15 +408,51 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
     this.description = description;
     this.targetObjectId = actionData.objectId;
     this.animateTaskStatusUpdateFn = animateTaskStatusUpdateFn;
+    this.onReconciledFn = onReconciledFn;
+  }
+
+  // Adopt the version the server assigned, or fall back to its state if the write was rejected
+  private handleWriteResponse(response: VersionedWriteResponse): void {
+    if (!response.success) {
+      if (response.error === 'invalid-payload') {
+        console.error(`[${this.constructor.name}] Server dropped '${response.event}': ${response.message}`);
+        return;
+      }
+      if (response.error === 'forbidden') {
+        // Our role no longer allows the change; take the server's copy back
+        console.warn(`[${this.constructor.name}] Server refused '${response.event}': ${response.message}`);
+        this.socketInstance.emit('request-board-snapshot');
+        return;
+      }
+      this.reconcile(response.rejection);
+      return;
+    }
+    const object = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.targetObjectId);
+    if (object) {
+      object.userData.version = Math.max(object.userData.version ?? 0, response.version);
+    }
+  }
+
+  // Someone else changed the object first: show what the server actually holds
+  reconcile(rejection: OperationRejectedData): void {
+    const object = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.targetObjectId);
+    if (!object || !rejection.currentState) {
+      console.warn(`[MoveCommand] Move of ${this.targetObjectId} rejected (${rejection.reason}) and there is no server state to reconcile with`);
+      return;
+    }
+    console.warn(`[MoveCommand] Move of ${this.targetObjectId} rejected (${rejection.reason}); reconciling with server version ${rejection.currentState.version}`);
+    applyServerObjectState(object, rejection.currentState);
+    this.onReconciledFn?.(object);
   }
 
   private applyStateAndStatus(
     pos: { x: number; y: number; z: number },
     rot: { x: number; y: number; z: number; order: THREE.EulerOrder },
     scaleVal: { x: number; y: number; z: number },
-    status?: TaskData['status']
+    status?: TaskData['status'],
+    laneField?: LaneField
   ): THREE.Mesh | null {
-    console.log(`[MoveObjectCommandImpl] Applying state to ${this.targetObjectId}:`, { pos, rot, scaleVal, status });
+    console.log(`[MoveObjectCommandImpl] Applying state to ${this.targetObjectId}:`, { pos, rot, scaleVal, status, laneField });
 
     // Kill ALL existing animations on this object to prevent conflicts
     gsap.killTweensOf(`object_${this.targetObjectId}_position`);
@@ -249,20 +553,26 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
 
           object.userData.taskData.activityLog.push({
             timestamp: new Date().toISOString(),
-            userId: this.socketInstance.id || 'system',
+            userId: getCurrentUserId(),
             action: 'Status Changed (Undo/Redo)',
             details: `Status changed from '${oldStatus}' to '${status}'`
           });
         }
       }
 
+      // Moving into another swimlane sets the field the lanes group by; refresh the panel if it shows it
+      if (laneField && object.userData.taskData) {
+        setTaskField(object.userData.taskData, laneField.property, laneField.value);
+        this.onReconciledFn?.(object);
+      }
+
       return object;
     }
     console.warn(`[MoveObjectCommandImpl] Object ${this.targetObjectId} not found`);
     return null;
   }
 
-  execute(): void {
+  execute(): boolean {
     console.log(`[MoveCommand] Executing for ${this.targetObjectId}`, this.actionData);
 
     // Kill any existing animations on this object to prevent conflicts
@@ -275,7 +585,7 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
 
     if (!directObject) {
       console.error(`[MoveCommand] Object ${this.targetObjectId} not found for execute`);
-      return;
+      return false;
     }
 
     // Log the current position before applying changes
@@ -287,7 +597,8 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
       this.actionData.newPosition,
       this.actionData.newRotation,
       this.actionData.newScale,
-      this.actionData.newTaskStatus
+      this.actionData.newTaskStatus,
+      this.actionData.newLaneField
     );
 
     if (object) {
@@ -310,7 +621,7 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
           // Create activity log entry
           activityLogEntry = {
             timestamp: new Date().toISOString(),
-            userId: this.socketInstance.id || 'system',
+            userId: getCurrentUserId(),
             action: 'Task status changed',
             details: `Status changed from '${oldStatus || 'Unknown'}' to '${this.actionData.newTaskStatus}'`
           };
@@ -324,20 +635,23 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
       }
 
       // Emit to other clients
-      this.socketInstance.emit('object-moved', {
+      offlineQueue.emit(this.socketInstance, 'object-moved', {
         objectId: this.targetObjectId,
         position: this.actionData.newPosition,
         rotation: this.actionData.newRotation,
         scale: this.actionData.newScale,
         taskStatus: this.actionData.newTaskStatus,
-        userId: this.socketInstance.id,
-        activityLogEntry
-      });
+        laneField: this.actionData.newLaneField,
+        userId: getCurrentUserId(),
+        activityLogEntry,
+        baseVersion: takeBaseVersion(object)
+      }, (response: VersionedWriteResponse) => this.handleWriteResponse(response));
 
       console.log(`[MoveCommand] Executed for ${this.targetObjectId}. New Pos:`, this.actionData.newPosition, `New Status: ${this.actionData.newTaskStatus || 'unchanged'}`);
-    } else {
-      console.error(`[MoveCommand] Failed to execute for ${this.targetObjectId} - object not found after applyStateAndStatus`);
+      return true;
     }
+    console.error(`[MoveCommand] Failed to execute for ${this.targetObjectId} - object not found after applyStateAndStatus`);
+    return false;
   }
 
   undo(): void {
@@ -366,7 +680,8 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
       this.actionData.oldPosition,
       this.actionData.oldRotation,
       this.actionData.oldScale,
-      this.actionData.oldTaskStatus
+      this.actionData.oldTaskStatus,
+      this.actionData.oldLaneField
     );
 
     if (object) {
@@ -389,7 +704,7 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
           // Create activity log entry
           activityLogEntry = {
             timestamp: new Date().toISOString(),
-            userId: this.socketInstance.id || 'system',
+            userId: getCurrentUserId(),
             action: 'Task status changed (undo)',
             details: `Status changed from '${currentStatus || 'Unknown'}' back to '${this.actionData.oldTaskStatus}'`
           };
@@ -403,15 +718,17 @@ class MoveObjectCommandImpl implements Command<MoveObjectCommandData> {
       }
 
       // Emit to other clients
-      this.socketInstance.emit('object-moved', {
+      offlineQueue.emit(this.socketInstance, 'object-moved', {
         objectId: this.targetObjectId,
         position: this.actionData.oldPosition,
         rotation: this.actionData.oldRotation,
         scale: this.actionData.oldScale,
         taskStatus: this.actionData.oldTaskStatus,
-        userId: this.socketInstance.id,
-        activityLogEntry
-      });
+        laneField: this.actionData.oldLaneField,
+        userId: getCurrentUserId(),
+        activityLogEntry,
+        baseVersion: takeBaseVersion(object)
+      }, (response: VersionedWriteResponse) => this.handleWriteResponse(response));
 
       console.log(`[MoveCommand] Undone for ${this.targetObjectId}. Old Pos:`, this.actionData.oldPosition, `Old Status: ${this.actionData.oldTaskStatus || 'unchanged'}`);
     } else {
@@ -427,31 +744,68 @@ class UpdateTaskPropertyCommandImpl implements Command<UpdateTaskPropertyCommand
   public actionData: UpdateTaskPropertyCommandData;
 
   private interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>;
-  private socket: Socket;
+  private socket: AppSocket;
+  private onReconciledFn?: (object: THREE.Mesh) => void;
 
-  private oldValue: string | ChecklistItem[] | undefined;
+  private oldValue: string | ChecklistItem[] | TaskFieldValue | undefined;
 
   constructor(
     interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>,
-    socket: Socket,
+    socket: AppSocket,
     actionData: UpdateTaskPropertyCommandData,
-    description: string
+    description: string,
+    onReconciledFn?: (object: THREE.Mesh) => void
   ) {
     this.interactiveObjectsRef = interactiveObjectsRef;
     this.socket = socket;
     this.actionData = actionData;
     this.description = description;
     this.targetObjectId = actionData.objectId;
+    this.onReconciledFn = onReconciledFn;
+  }
+
+  // Adopt the version the server assigned, or fall back to its state if the write was rejected
+  private handleWriteResponse(response: VersionedWriteResponse): void {
+    if (!response.success) {
+      if (response.error === 'invalid-payload') {
+        console.error(`[${this.constructor.name}] Server dropped '${response.event}': ${response.message}`);
+        return;
+      }
+      if (response.error === 'forbidden') {
+        // Our role no longer allows the change; take the server's copy back
+        console.warn(`[${this.constructor.name}] Server refused '${response.event}': ${response.message}`);
+        this.socket.emit('request-board-snapshot');
+        return;
+      }
+      this.reconcile(response.rejection);
+      return;
+    }
+    const object = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.targetObjectId);
+    if (object) {
+      object.userData.version = Math.max(object.userData.version ?? 0, response.version);
+    }
+  }
+
+  // Someone else changed the task first: show what the server actually holds
+  reconcile(rejection: OperationRejectedData): void {
+    const object = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.targetObjectId);
+    if (!object || !rejection.currentState) {
+      console.warn(`[UpdateTaskPropertyCommandImpl] Update of ${this.targetObjectId} rejected (${rejection.reason}) and there is no server state to reconcile with`);
+      return;
+    }
+    console.warn(`[UpdateTaskPropertyCommandImpl] Update of ${this.targetObjectId} rejected (${rejection.reason}); reconciling with server version ${rejection.currentState.version}`);
+    applyServerObjectState(object, rejection.currentState);
+    this.onReconciledFn?.(object);
   }
 
-  execute(): void {
+  execute(): boolean {
     try {
       console.log(`[UpdateTaskPropertyCommandImpl] Executing for ${this.actionData.objectId}:`, this.actionData.property);
 
       const object = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.actionData.objectId);
       if (!object) {
         console.error(`[UpdateTaskPropertyCommandImpl EXECUTE] Object not found: ${this.actionData.objectId}`);
-        return;
+        return false;
       }
 
       // Initialize taskData if it doesn't exist
@@ -469,17 +823,9 @@ class UpdateTaskPropertyCommandImpl implements Command<UpdateTaskPropertyCommand
       const taskData = object.userData.taskData;
 
       // Store old value for undo
-      if (this.actionData.property === 'taskTitle') {
-        this.oldValue = taskData.title;
-        taskData.title = this.actionData.value as string;
-        console.log(`[UpdateTaskPropertyCommandImpl] Updated title from "${this.oldValue}" to "${taskData.title}"`);
-      } else if (this.actionData.property === 'taskDescription') {
-        this.oldValue = taskData.description;
-        taskData.description = this.actionData.value as string;
-        console.log(`[UpdateTaskPropertyCommandImpl] Updated description`);
-      } else if (this.actionData.property === 'taskStatus') {
+      if (this.actionData.property === 'taskStatus') {
         this.oldValue = taskData.status;
-        const newStatus = this.actionData.value as 'To Do' | 'In Progress' | 'Done';
+        const newStatus = this.actionData.value as TaskData['status'];
 
         // Only update if the status actually changed
         if (taskData.status !== newStatus) {
@@ -534,31 +880,43 @@ class UpdateTaskPropertyCommandImpl implements Command<UpdateTaskPropertyCommand
             return item;
           });
         }
+      } else if (isTaskFieldProperty(this.actionData.property)) {
+        this.oldValue = getTaskField(taskData, this.actionData.property);
+        setTaskField(taskData, this.actionData.property, this.actionData.value as TaskFieldValue);
       }
 
       // Add activity log
       if (!taskData.activityLog) taskData.activityLog = [];
 
+      let action = `Updated ${this.actionData.property}`;
+      let details = typeof this.actionData.value === 'object' ?
+        JSON.stringify(this.actionData.value) :
+        String(this.actionData.value);
+      if (isTaskFieldProperty(this.actionData.property)) {
+        const described = describeTaskField(this.actionData.property, this.actionData.value as TaskFieldValue);
+        action = `Changed ${described.field}`;
+        details = described.details;
+      }
+
       const activityLogEntry = {
         timestamp: new Date().toISOString(),
         userId: this.actionData.userId,
-        action: `Updated ${this.actionData.property}`,
-        details: typeof this.actionData.value === 'object' ?
-          JSON.stringify(this.actionData.value) :
-          String(this.actionData.value)
+        action,
+        details
       };
 
       taskData.activityLog.push(activityLogEntry);
 
       // Emit socket event with full task data for better synchronization
-      this.socket.emit('object-property-updated', {
+      offlineQueue.emit(this.socket, 'object-property-changed', {
         objectId: this.actionData.objectId,
         property: this.actionData.property,
         value: this.actionData.value,
         userId: this.actionData.userId,
         activityLogEntry: activityLogEntry,
-        fullTaskData: JSON.parse(JSON.stringify(taskData)) // Deep copy to ensure clean data
-      });
+        fullTaskData: JSON.parse(JSON.stringify(taskData)), // Deep copy to ensure clean data
+        baseVersion: takeBaseVersion(object)
+      }, (response: VersionedWriteResponse) => this.handleWriteResponse(response));
 
       // Visual feedback
       if (object.material instanceof THREE.MeshStandardMaterial) {
@@ -586,8 +944,10 @@ class UpdateTaskPropertyCommandImpl implements Command<UpdateTaskPropertyCommand
       }
 
       console.log(`[UpdateTaskPropertyCommandImpl] Executed for ${this.actionData.objectId}:`, this.actionData.property, this.actionData.value);
+      return true;
     } catch (error) {
       console.error(`[UpdateTaskPropertyCommandImpl] Error executing:`, error);
+      return false;
     }
   }
 
@@ -608,44 +968,49 @@ class UpdateTaskPropertyCommandImpl implements Command<UpdateTaskPropertyCommand
       }
 
       // Restore old value based on property type
-      if (this.actionData.property === 'taskTitle' && typeof this.oldValue === 'string') {
-        console.log(`[UpdateTaskPropertyCommandImpl] Undoing title change from "${taskData.title}" to "${this.oldValue}"`);
-        taskData.title = this.oldValue;
-      } else if (this.actionData.property === 'taskDescription' && typeof this.oldValue === 'string') {
-        console.log(`[UpdateTaskPropertyCommandImpl] Undoing description change`);
-        taskData.description = this.oldValue;
-      } else if (this.actionData.property === 'taskStatus' && typeof this.oldValue === 'string') {
+      if (this.actionData.property === 'taskStatus' && typeof this.oldValue === 'string') {
         console.log(`[UpdateTaskPropertyCommandImpl] Undoing status change from "${taskData.status}" to "${this.oldValue}"`);
-        taskData.status = this.oldValue as 'To Do' | 'In Progress' | 'Done';
+        taskData.status = this.oldValue as TaskData['status'];
       } else if (this.actionData.property === 'taskChecklistUpdate' && Array.isArray(this.oldValue)) {
         console.log(`[UpdateTaskPropertyCommandImpl] Undoing checklist change, restoring ${this.oldValue.length} items`);
         // Deep copy to avoid reference issues
         taskData.checklist = JSON.parse(JSON.stringify(this.oldValue));
+      } else if (isTaskFieldProperty(this.actionData.property) && this.oldValue !== undefined) {
+        setTaskField(taskData, this.actionData.property, this.oldValue as TaskFieldValue);
       }
 
       // Add activity log entry for the undo action
       if (!taskData.activityLog) taskData.activityLog = [];
 
+      let action = `Undo ${this.actionData.property}`;
+      let details = typeof this.oldValue === 'object' ?
+        JSON.stringify(this.oldValue) :
+        String(this.oldValue || '');
+      if (isTaskFieldProperty(this.actionData.property)) {
+        const described = describeTaskField(this.actionData.property, (this.oldValue ?? this.actionData.oldValue) as TaskFieldValue);
+        action = `Reverted ${described.field}`;
+        details = described.details;
+      }
+
       const activityLogEntry = {
         timestamp: new Date().toISOString(),
         userId: this.actionData.userId,
-        action: `Undo ${this.actionData.property}`,
-        details: typeof this.oldValue === 'object' ?
-          JSON.stringify(this.oldValue) :
-          String(this.oldValue || '')
+        action,
+        details
       };
 
       taskData.activityLog.push(activityLogEntry);
 
       // Emit socket event for undo with full task data
-      this.socket.emit('object-property-updated', {
+      offlineQueue.emit(this.socket, 'object-property-changed', {
         objectId: this.actionData.objectId,
         property: this.actionData.property,
-        value: this.oldValue,
+        value: this.oldValue ?? this.actionData.oldValue,
         userId: this.actionData.userId,
         activityLogEntry: activityLogEntry,
-        fullTaskData: JSON.parse(JSON.stringify(taskData)) // Deep copy for clean data
-      });
+        fullTaskData: JSON.parse(JSON.stringify(taskData)), // Deep copy for clean data
+        baseVersion: takeBaseVersion(object)
+      }, (response: VersionedWriteResponse) => this.handleWriteResponse(response));
 
       // Visual feedback - flash cyan for undo
       if (object.material instanceof THREE.MeshStandardMaterial) {
@@ -679,222 +1044,101 @@ class UpdateTaskPropertyCommandImpl implements Command<UpdateTaskPropertyCommand
   }
 }
 
-// @ts-ignore - Used in command pattern implementation
-class CreateObjectCommandImpl implements Command<CreateObjectCommandData> {
-  public actionType = 'createObject';
+// Edits a task's title or description through its text CRDT, so concurrent typing merges instead of overwriting.
+// Undo re-inserts the replaced text and removes what was typed, again as CRDT operations.
+class TextEditCommandImpl implements Command<TextEditCommandData> {
+  public actionType = 'textEdit';
   public targetObjectId: string;
   public description: string;
-  public actionData: CreateObjectCommandData;
+  public actionData: TextEditCommandData;
 
-  private sceneRef: React.MutableRefObject<THREE.Scene | null>;
   private interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>;
-  private originalMaterialsRef: React.MutableRefObject<Map<THREE.Object3D, THREE.Material | THREE.Material[]>>;
-  private socket: Socket;
+  private socket: AppSocket;
+
+  private idsToRemove: string[]; // Characters execute() deletes
+  private insertedIds: string[] = []; // Characters the last execute() inserted, deleted again by undo()
 
   constructor(
-    sceneRef: React.MutableRefObject<THREE.Scene | null>,
     interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>,
-    originalMaterialsRef: React.MutableRefObject<Map<THREE.Object3D, THREE.Material | THREE.Material[]>>,
-    socket: Socket,
-    actionData: CreateObjectCommandData,
+    socket: AppSocket,
+    actionData: TextEditCommandData,
     description: string
   ) {
-    this.sceneRef = sceneRef;
     this.interactiveObjectsRef = interactiveObjectsRef;
-    this.originalMaterialsRef = originalMaterialsRef;
     this.socket = socket;
     this.actionData = actionData;
     this.description = description;
-    this.targetObjectId = actionData.sharedId;
+    this.targetObjectId = actionData.objectId;
+    this.idsToRemove = actionData.deletedIds;
   }
 
-  execute(): void {
-    if (!this.sceneRef.current) return;
-
-    let existingObject = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.actionData.sharedId);
-    if (existingObject) {
-      existingObject.position.set(this.actionData.position.x, this.actionData.position.y, this.actionData.position.z);
-      existingObject.rotation.set(this.actionData.rotation.x, this.actionData.rotation.y, this.actionData.rotation.z, this.actionData.rotation.order);
-      existingObject.scale.set(this.actionData.scale.x, this.actionData.scale.y, this.actionData.scale.z);
-      if (existingObject.material instanceof THREE.MeshStandardMaterial) {
-        existingObject.material.color.setHex(this.actionData.color);
-      }
-      existingObject.userData.originalColor = new THREE.Color(this.actionData.color);
-      existingObject.userData.taskData = {
-        ...this.actionData.taskData,
-        activityLog: this.actionData.taskData.activityLog ? [...this.actionData.taskData.activityLog] : []
-      };
-      existingObject.userData.objectType = this.actionData.type;
-      console.log(`[CreateCommand] Updated existing object ${this.actionData.sharedId} during execute.`);
-    } else {
-      let newObjectGeometry: THREE.BufferGeometry;
-      if (this.actionData.type === 'cube') newObjectGeometry = new THREE.BoxGeometry(1, 1, 1);
-      else if (this.actionData.type === 'sphere') newObjectGeometry = new THREE.SphereGeometry(0.75, 32, 32);
-      else if (this.actionData.type === 'torus') newObjectGeometry = new THREE.TorusGeometry(0.6, 0.2, 16, 100);
-      else return;
-
-      const newObjectMaterial = new THREE.MeshStandardMaterial({ color: this.actionData.color });
-      const newObject = new THREE.Mesh(newObjectGeometry, newObjectMaterial);
-      newObject.position.set(this.actionData.position.x, this.actionData.position.y, this.actionData.position.z);
-      newObject.rotation.set(this.actionData.rotation.x, this.actionData.rotation.y, this.actionData.rotation.z, this.actionData.rotation.order);
-      newObject.scale.set(this.actionData.scale.x, this.actionData.scale.y, this.actionData.scale.z);
-      newObject.userData.sharedId = this.actionData.sharedId;
-      newObject.userData.originalColor = new THREE.Color(this.actionData.color);
-      newObject.userData.objectType = this.actionData.type;
-      newObject.userData.taskData = {
-        ...this.actionData.taskData,
-        activityLog: this.actionData.taskData.activityLog ? [...this.actionData.taskData.activityLog] : []
-      };
-
-      this.sceneRef.current.add(newObject);
-      this.interactiveObjectsRef.current.push(newObject);
-      this.originalMaterialsRef.current.set(newObject, newObjectMaterial.clone());
-      console.log(`[CreateCommand] Created new object ${this.actionData.sharedId} during execute.`);
+  // Apply a local edit to the object's document and send the resulting operations.
+  // Returns the ids of the inserted characters, or null if the object is gone.
+  private applyEdit(deleteIds: string[], text: string): string[] | null {
+    const object = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.actionData.objectId);
+    if (!object) {
+      console.error(`[TextEditCommandImpl] Object not found: ${this.actionData.objectId}`);
+      return null;
     }
 
-    this.socket.emit('request-create-object', this.actionData);
-  }
-
-  undo(): void {
-    let objectToRemove = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.actionData.sharedId) || null;
-
-    if (!this.sceneRef.current || !objectToRemove) {
-        console.log(`[CreateCommand] Undo: Object ${this.actionData.sharedId} not found for removal.`);
-        return;
+    const doc = getTaskTextDocs(object)[this.actionData.field];
+    const ops = doc.edit(this.actionData.after, deleteIds, text);
+    if (object.userData.taskData) {
+      object.userData.taskData[this.actionData.field] = doc.text;
     }
 
-    this.sceneRef.current.remove(objectToRemove);
-    this.interactiveObjectsRef.current = this.interactiveObjectsRef.current.filter(
-      (obj) => obj.userData.sharedId !== this.actionData.sharedId
-    );
-    this.originalMaterialsRef.current.delete(objectToRemove);
-
-    if (objectToRemove.geometry) objectToRemove.geometry.dispose();
-    if (objectToRemove.material) {
-        if (Array.isArray(objectToRemove.material)) {
-            objectToRemove.material.forEach(mat => mat.dispose());
-        } else {
-            (objectToRemove.material as THREE.Material).dispose();
-        }
+    if (ops.length > 0) {
+      const payload: TextOperationsData = {
+        objectId: this.actionData.objectId,
+        field: this.actionData.field,
+        ops,
+        userId: this.actionData.userId
+      };
+      offlineQueue.emit(this.socket, 'text-operations', payload);
     }
-
-    this.socket.emit('request-delete-object', { objectId: this.actionData.sharedId });
-    console.log(`[CreateCommand] Undone for ${this.targetObjectId}`);
-  }
-}
-
-// @ts-ignore - Used in command pattern implementation
-class DeleteObjectCommandImpl implements Command<DeleteObjectCommandData> {
-  public actionType = 'deleteObject';
-  public targetObjectId: string;
-  public description: string;
-  public actionData: DeleteObjectCommandData;
-
-  private sceneRef: React.MutableRefObject<THREE.Scene | null>;
-  private interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>;
-  private originalMaterialsRef: React.MutableRefObject<Map<THREE.Object3D, THREE.Material | THREE.Material[]>>;
-  private socket: Socket;
-  private selectedObjectRef: React.MutableRefObject<THREE.Mesh | null>;
-  private setCurrentSelectedObjectForPanelFn: (object: THREE.Mesh | null) => void;
-
-  constructor(
-    sceneRef: React.MutableRefObject<THREE.Scene | null>,
-    interactiveObjectsRef: React.MutableRefObject<THREE.Mesh[]>,
-    originalMaterialsRef: React.MutableRefObject<Map<THREE.Object3D, THREE.Material | THREE.Material[]>>,
-    socket: Socket,
-    selectedObjectRef: React.MutableRefObject<THREE.Mesh | null>,
-    setCurrentSelectedObjectForPanelFn: (object: THREE.Mesh | null) => void,
-    actionData: DeleteObjectCommandData,
-    description: string
-  ) {
-    this.sceneRef = sceneRef;
-    this.interactiveObjectsRef = interactiveObjectsRef;
-    this.originalMaterialsRef = originalMaterialsRef;
-    this.socket = socket;
-    this.selectedObjectRef = selectedObjectRef;
-    this.setCurrentSelectedObjectForPanelFn = setCurrentSelectedObjectForPanelFn;
-    this.actionData = actionData;
-    this.description = description;
-    this.targetObjectId = actionData.sharedId;
+    return ops.filter(op => op.type === 'insert').map(op => op.id);
   }
 
-  execute(): void {
-    if (!this.sceneRef.current) return;
-    const objectToDelete = this.interactiveObjectsRef.current.find(
-      (obj) => obj.userData.sharedId === this.actionData.sharedId
-    );
-
-    if (objectToDelete) {
-      this.sceneRef.current.remove(objectToDelete);
-      this.interactiveObjectsRef.current = this.interactiveObjectsRef.current.filter(
-        (obj) => obj.userData.sharedId !== this.actionData.sharedId
-      );
-      this.originalMaterialsRef.current.delete(objectToDelete);
-
-      if (this.selectedObjectRef.current && this.selectedObjectRef.current.userData.sharedId === this.actionData.sharedId) {
-        this.selectedObjectRef.current = null;
-        this.setCurrentSelectedObjectForPanelFn(null);
-      }
-
-      if (objectToDelete.geometry) objectToDelete.geometry.dispose();
-      if (objectToDelete.material) {
-        if (Array.isArray(objectToDelete.material)) {
-            objectToDelete.material.forEach(mat => mat.dispose());
-        } else {
-            (objectToDelete.material as THREE.Material).dispose();
-        }
-      }
-
-      this.socket.emit('request-delete-object', { objectId: this.actionData.sharedId });
-      console.log(`[DeleteCommand] Executed for ${this.targetObjectId}`);
-    } else {
-        console.log(`[DeleteCommand] Execute: Object ${this.targetObjectId} not found for deletion.`);
-    }
+  execute(): boolean {
+    const insertedIds = this.applyEdit(this.idsToRemove, this.actionData.insertedText);
+    if (!insertedIds) return false;
+    this.insertedIds = insertedIds;
+    return true;
   }
 
   undo(): void {
-    if (!this.sceneRef.current) return;
-
-    let existingObject = this.interactiveObjectsRef.current.find(obj => obj.userData.sharedId === this.actionData.sharedId);
-    if (existingObject) {
-        console.log(`[DeleteCommand] Object ${this.actionData.sharedId} already exists during undo. Updating instead of recreating.`);
-        existingObject.position.set(this.actionData.position.x, this.actionData.position.y, this.actionData.position.z);
-        existingObject.rotation.set(this.actionData.rotation.x, this.actionData.rotation.y, this.actionData.rotation.z, this.actionData.rotation.order);
-        existingObject.scale.set(this.actionData.scale.x, this.actionData.scale.y, this.actionData.scale.z);
-        if (existingObject.material instanceof THREE.MeshStandardMaterial) {
-            existingObject.material.color.setHex(this.actionData.color);
-        }
-        existingObject.userData.originalColor = new THREE.Color(this.actionData.color);
-        existingObject.userData.taskData = {...this.actionData.taskData};
-        existingObject.userData.objectType = this.actionData.type;
-    } else {
-        let newObjectGeometry: THREE.BufferGeometry;
-        if (this.actionData.type === 'cube') newObjectGeometry = new THREE.BoxGeometry(1, 1, 1);
-        else if (this.actionData.type === 'sphere') newObjectGeometry = new THREE.SphereGeometry(0.75, 32, 32);
-        else if (this.actionData.type === 'torus') newObjectGeometry = new THREE.TorusGeometry(0.6, 0.2, 16, 100);
-        else return;
-
-        const newObjectMaterial = new THREE.MeshStandardMaterial({ color: this.actionData.color });
-        const newObject = new THREE.Mesh(newObjectGeometry, newObjectMaterial);
-        newObject.position.set(this.actionData.position.x, this.actionData.position.y, this.actionData.position.z);
-        newObject.rotation.set(this.actionData.rotation.x, this.actionData.rotation.y, this.actionData.rotation.z, this.actionData.rotation.order);
-        newObject.scale.set(this.actionData.scale.x, this.actionData.scale.y, this.actionData.scale.z);
-        newObject.userData.sharedId = this.actionData.sharedId;
-        newObject.userData.originalColor = new THREE.Color(this.actionData.color);
-        newObject.userData.objectType = this.actionData.type;
-        newObject.userData.taskData = {...this.actionData.taskData};
-
-        this.sceneRef.current.add(newObject);
-        this.interactiveObjectsRef.current.push(newObject);
-        this.originalMaterialsRef.current.set(newObject, newObjectMaterial.clone());
-    }
-
-    this.socket.emit('request-create-object', this.actionData);
+    this.idsToRemove = this.applyEdit(this.insertedIds, this.actionData.deletedText) ?? [];
   }
 }
 
+// Build the mesh for a board object received from the server (snapshot or object-created)
+const createObjectMesh = (data: CreateObjectCommandData): THREE.Mesh | null => {
+  let geometry: THREE.BufferGeometry;
+  if (data.type === 'cube') geometry = new THREE.BoxGeometry(1, 1, 1);
+  else if (data.type === 'sphere') geometry = new THREE.SphereGeometry(0.75, 32, 32);
+  else if (data.type === 'torus') geometry = new THREE.TorusGeometry(0.6, 0.2, 16, 100);
+  else return null;
+
+  const material = new THREE.MeshStandardMaterial({ color: data.color });
+  const mesh = new THREE.Mesh(geometry, material);
+  mesh.position.set(data.position.x, data.position.y, data.position.z);
+  mesh.rotation.set(data.rotation.x, data.rotation.y, data.rotation.z, data.rotation.order || 'XYZ');
+  mesh.scale.set(data.scale.x, data.scale.y, data.scale.z);
+  mesh.userData.sharedId = data.sharedId;
+  mesh.userData.originalColor = new THREE.Color(data.color);
+  mesh.userData.objectType = data.type;
+  mesh.userData.version = data.version ?? 0;
+  mesh.userData.textDocs = createTaskTextDocs(data.taskData, data.text);
+  mesh.userData.taskData = {
+    ...data.taskData,
+    checklist: data.taskData.checklist ? [...data.taskData.checklist] : [],
+    activityLog: data.taskData.activityLog ? [...data.taskData.activityLog] : []
+  };
+  return mesh;
+};
+
 // Debug listeners for Socket.IO client - these are defined at global scope for debugging help
-const debugSocketListeners = (socket: Socket) => {
+const debugSocketListeners = (socket: AppSocket) => {
   socket.on("connect", () => {
     console.log("Socket.IO connected successfully:", socket.id);
   });
@@ -913,18 +1157,6 @@ const debugSocketListeners = (socket: Socket) => {
     }
   });
 
-  socket.on("connect_timeout", (timeout: any) => {
-    console.error("Socket.IO connect_timeout:", timeout);
-  });
-
-  socket.on("error", (err: any) => {
-    console.error("Socket.IO error:", err);
-    console.error(`Error message: ${err.message}`);
-    if (err.data) {
-      console.error("Error data:", err.data);
-    }
-  });
-
   socket.on("disconnect", (reason: string, description?: any) => {
     console.warn(`Socket.IO disconnected: ${reason}`);
     if (description) {
@@ -935,39 +1167,34 @@ const debugSocketListeners = (socket: Socket) => {
     }
   });
 
-  socket.on("reconnect_attempt", (attemptNumber: number) => {
-    console.log(`Socket.IO reconnect_attempt: ${attemptNumber}`);
+  // Connection-level events are emitted by the manager, not the socket
+  socket.io.on("error", (err: Error) => {
+    console.error("Socket.IO error:", err);
+    console.error(`Error message: ${err.message}`);
   });
 
-  socket.on("reconnecting", (attemptNumber: number) => {
-    console.log(`Socket.IO reconnecting: attempt ${attemptNumber}`);
+  socket.io.on("reconnect_attempt", (attemptNumber: number) => {
+    console.log(`Socket.IO reconnect_attempt: ${attemptNumber}`);
   });
 
-  socket.on("reconnect_error", (err: any) => {
+  socket.io.on("reconnect_error", (err: Error) => {
     console.error("Socket.IO reconnect_error:", err);
     console.error(`Reconnect error message: ${err.message}`);
-    if (err.data) {
-      console.error("Reconnect error data:", err.data);
-    }
   });
 
-  socket.on("reconnect_failed", () => {
+  socket.io.on("reconnect_failed", () => {
     console.error("Socket.IO reconnect_failed");
   });
 
-  socket.on("ping", () => {
-    console.log("Socket.IO ping sent by client");
-  });
-
-  socket.on("pong", (latency: number) => {
-    console.log(`Socket.IO pong received by client: ${latency}ms`);
+  socket.io.on("ping", () => {
+    console.log("Socket.IO ping received from server");
   });
 };
 
 
 function App() {
   const { authState, initializeSocket: authInitializeSocket } = useAuth(); // Access auth context
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<AppSocket | null>(null);
   const sceneRef = useRef<THREE.Scene | null>(null);
   const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
@@ -978,6 +1205,16 @@ function App() {
   const remoteCursorsRef = useRef(new Map<string, THREE.Mesh>());
   const groundPlaneRef = useRef<THREE.Plane>(new THREE.Plane(new THREE.Vector3(0, 1, 0), 0));
   const listZonesRef = useRef<ListZone[]>([]);
+  // The current board's workflow; the ref is for the scene's event handlers
+  const [workflow, setWorkflow] = useState<WorkflowZone[]>(DEFAULT_WORKFLOW);
+  const workflowRef = useRef<WorkflowZone[]>(DEFAULT_WORKFLOW);
+  const [wipPolicy, setWipPolicy] = useState<WipPolicy>(DEFAULT_WIP_POLICY);
+  const wipPolicyRef = useRef<WipPolicy>(DEFAULT_WIP_POLICY);
+  const [swimlanes, setSwimlanes] = useState<SwimlaneGrouping | null>(null);
+  const swimlanesRef = useRef<SwimlaneGrouping | null>(null);
+  const lanesRef = useRef<Swimlane[]>([]);
+  const laneMarkersRef = useRef<THREE.Mesh[]>([]);
+  const connectorsRef = useRef(new Map<string, THREE.ArrowHelper>()); // Dependency arrows (see showDependencies)
   const undoStackRef = useRef<Command[]>([]);
   const redoStackRef = useRef<Command[]>([]);
   // Used for future object creation to ensure unique IDs
@@ -991,6 +1228,25 @@ function App() {
   const [connectedUsers, setConnectedUsers] = useState<UserData[]>([]);
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
+  const [boards, setBoards] = useState<BoardInfo[]>([]);
+  const [currentBoardId, setCurrentBoardId] = useState<string>(getBoardIdFromLocation);
+  const currentBoardIdRef = useRef<string>(currentBoardId);
+  // Orders the current board's events by seq and asks the server for any it missed
+  const boardSequencerRef = useRef(new BoardEventSequencer({
+    requestEvents: since => {
+      if (socketRef.current?.connected) socketRef.current.emit('request-board-events', { since });
+    },
+    requestSnapshot: () => {
+      if (socketRef.current?.connected) socketRef.current.emit('request-board-snapshot');
+    }
+  }));
+  const [isConnected, setIsConnected] = useState(false);
+  const [selfUserId, setSelfUserId] = useState(getCurrentUserId); // To mark ourselves in the user list
+  // Our role on the current board; the ref is for the scene's event handlers
+  const [boardRole, setBoardRole] = useState<BoardRole | null>(null);
+  const boardRoleRef = useRef<BoardRole | null>(null);
+  const [pendingOfflineEdits, setPendingOfflineEdits] = useState(0);
+  const notify = useNotification();
 
   // Initialize socket with authentication
   const initializeSocket = useCallback(() => {
@@ -1056,7 +1312,6 @@ function App() {
         if (authState.isAuthenticated && authState.user) {
           console.log('[Socket connect] Sending user authentication data');
           socket.emit('user-authenticated', {
-            userId: authState.user.id,
             username: authState.user.username,
             color: authState.user.color || '#' + Math.floor(Math.random()*16777215).toString(16)
           });
@@ -1089,8 +1344,10 @@ function App() {
     taskStatus?: TaskData['status'];
   } | null>(null);
 
-  const [showLandingPage, setShowLandingPage] = useState(true); // State to control landing page visibility
+  // A registered user's session is resumed on reload, so they go straight to the board
+  const [showLandingPage, setShowLandingPage] = useState(() => !authService.getStoredUser()?.refreshToken);
   const [is3DMode, setIs3DMode] = useState(false); // State for 3D mode
+  const [accountLink, setAccountLink] = useState(getAccountLinkFromLocation); // Opened from a mailed link
   const [forceUpdate, setForceUpdate] = useState(0); // State to force re-render
 
   const sphereYUpdateAttempted = useRef(false); // To track if Y-update has been attempted
@@ -1115,6 +1372,11 @@ function App() {
     }
   }, [authState.isAuthenticated, initializeSocket]);
 
+  // The session could not be resumed or refreshed: back to the login form, which says why
+  useEffect(() => {
+    if (authState.sessionExpired) setShowLandingPage(true);
+  }, [authState.sessionExpired]);
+
   useEffect(() => {
     currentSelectedObjectForPanelRef.current = currentSelectedObjectForPanel;
   }, [currentSelectedObjectForPanel]);
@@ -1171,15 +1433,188 @@ function App() {
     }
   }, []); // Depends on refs: currentSelectedObjectForPanelRef, originalMaterials
 
+  // After a rejected write has been replaced by the server's state, refresh the panel if it shows that object
+  const handleObjectReconciled = useCallback((reconciledObject: THREE.Mesh) => {
+    if (currentSelectedObjectForPanelRef.current?.userData.sharedId === reconciledObject.userData.sharedId) {
+      setCurrentSelectedObjectForPanel(null);
+      setCurrentSelectedObjectForPanel(reconciledObject);
+    }
+  }, []); // Depends on refs: currentSelectedObjectForPanelRef
+
+  // Show the current board's layout: new zone planes and swimlanes on the board, new choices in the panels
+  const applyWorkflow = useCallback((layout: BoardLayoutData) => {
+    workflowRef.current = layout.workflow;
+    setWorkflow(layout.workflow);
+    wipPolicyRef.current = layout.wipPolicy;
+    setWipPolicy(layout.wipPolicy);
+    swimlanesRef.current = layout.swimlanes;
+    setSwimlanes(layout.swimlanes);
+    lanesRef.current = layout.lanes;
+    if (sceneRef.current) {
+      listZonesRef.current = showWorkflowZones(sceneRef.current, listZonesRef.current, layout.workflow, layout.lanes);
+      laneMarkersRef.current = showSwimlanes(sceneRef.current, laneMarkersRef.current, layout.workflow, layout.lanes);
+    }
+  }, []); // Depends on refs: workflowRef, wipPolicyRef, swimlanesRef, lanesRef, sceneRef, listZonesRef, laneMarkersRef
+
+  // Whether a task may move into another zone, given the zone's WIP limit and the board's policy.
+  // The server applies the same policy, so a refused move wouldn't get through anyway.
+  const admitToZone = useCallback((zone: ListZone, object: THREE.Object3D): boolean => {
+    if (zone.wipLimit == null || countTasksInZone(interactiveObjects.current, zone.name, object) < zone.wipLimit) return true;
+    if (wipPolicyRef.current === 'refuse') {
+      notify.warning(`'${zone.name}' already holds its limit of ${zone.wipLimit} tasks`);
+      return false;
+    }
+    notify.warning(`'${zone.name}' is now over its limit of ${zone.wipLimit} tasks`);
+    return true;
+  }, [notify]); // Depends on refs: interactiveObjects, wipPolicyRef
+
+  // Warn when a task is moved into the last zone while tasks it waits on are still open
+  const warnOpenBlockers = useCallback((object: THREE.Object3D, status: string) => {
+    const taskData = object.userData.taskData as TaskData | undefined;
+    if (!taskData || !isFinalStatus(workflowRef.current, status)) return;
+    const open = openBlockers(taskData, linkedTasks(interactiveObjects.current), workflowRef.current);
+    if (open.length === 0) return;
+    notify.warning(`"${taskData.title}" is still waiting on ${open.map(task => `"${task.taskData.title}"`).join(', ')}`);
+  }, [notify]); // Depends on refs: workflowRef, interactiveObjects
+
   const updateUndoRedoState = useCallback(() => {
     setCanUndo(undoStackRef.current.length > 0);
     setCanRedo(redoStackRef.current.length > 0);
   }, []);
 
+  // Send the edits queued while offline, then tell the user which of them clashed with someone else's changes
+  const replayOfflineEdits = useCallback(async (boardId: string) => {
+    const socket = getSocket();
+    if (!socket) return;
+
+    const { replayed, conflicts } = await offlineQueue.replay(socket, boardId);
+    if (replayed === 0) return;
+    console.log(`[replayOfflineEdits] Replayed ${replayed} offline edits, ${conflicts.length} conflicts`);
+
+    // Our scene still shows the offline edits as we made them; take the server's version of the board
+    socket.emit('request-board-snapshot');
+
+    if (conflicts.length === 0) {
+      notify.success(`Synced ${replayed} offline ${replayed === 1 ? 'edit' : 'edits'}`);
+      return;
+    }
+    conflicts.forEach(({ operation, rejection }) => {
+      if ('error' in rejection) {
+        notify.error(`An offline edit could not be applied: ${rejection.message}`, 8000);
+        return;
+      }
+      const title = rejection.currentState?.taskData.title || 'a task';
+      const reason = rejection.reason === 'not-found'
+        ? `"${title}" was deleted while you were offline`
+        : rejection.reason === 'unknown-assignee'
+          ? `"${title}" can only be assigned to registered users`
+          : rejection.reason === 'unknown-status'
+            ? `the board's zones changed while you were offline`
+            : rejection.reason === 'wip-limit'
+              ? `the zone you moved "${title}" to is at its WIP limit`
+              : rejection.reason === 'invalid-dependency'
+                ? `"${title}" can't wait on a task that is gone or already waits on it`
+                : `someone else changed "${title}" while you were offline`;
+      console.warn('[replayOfflineEdits] Conflict replaying', operation.event, rejection);
+      notify.warning(`Your offline edit was not applied: ${reason}`, 8000);
+    });
+  }, [getSocket, notify]);
+
+  // Switch the socket to a board's room; the server answers with that board's snapshot,
+  // or only with upToDate when we are rejoining and have already seen every change
+  const joinBoard = useCallback((boardId: string) => {
+    const socket = getSocket();
+    if (!socket) {
+      console.warn('[joinBoard] Socket not initialized');
+      return;
+    }
+
+    // Rejoining the same board (after a reconnect): only the events we missed are sent back
+    const since = currentBoardIdRef.current === boardId ? boardSequencerRef.current.current ?? undefined : undefined;
+    socket.emit('join-board', { boardId, since }, (response: BoardResponse) => {
+      if (!response.success) {
+        console.warn(`[joinBoard] Could not join board ${boardId}:`, response.error);
+        if (boardId !== DEFAULT_BOARD_ID) {
+          alert(`${response.error || 'Board not found'}. Opening the main board instead.`);
+          navigateToBoard(DEFAULT_BOARD_ID);
+        }
+        return;
+      }
+
+      console.log(`[joinBoard] Joined board ${boardId}`);
+      if (currentBoardIdRef.current !== boardId) {
+        // Commands recorded on another board can't be undone here
+        undoStackRef.current = [];
+        redoStackRef.current = [];
+        updateUndoRedoState();
+        boardSequencerRef.current.reset(null);
+      }
+      currentBoardIdRef.current = boardId;
+      setCurrentBoardId(boardId);
+      offlineQueue.setBoard(boardId);
+      replayOfflineEdits(boardId).catch(error => console.error('[joinBoard] Failed to replay offline edits:', error));
+    });
+  }, [getSocket, updateUndoRedoState, replayOfflineEdits]);
+
+  // Open an invite link: the server makes us a member of its board (or, for a public link, lets us view it)
+  // and we switch to that board. The invite's URL is replaced by the board's either way.
+  const acceptInvite = useCallback((token: string) => {
+    const socket = getSocket();
+    if (!socket) return;
+
+    socket.emit('accept-invite', { token }, (response: AcceptInviteResponse) => {
+      if (!response.success || !response.board) {
+        console.warn('[acceptInvite] Invite refused:', response.error);
+        notify.error(response.error || 'This invite link is not valid', 8000);
+        navigateToBoard(currentBoardIdRef.current);
+        return;
+      }
+      notify.success(`You can now open "${response.board.name || response.board.id}" as ${response.role}`);
+      navigateToBoard(response.board.id);
+    });
+  }, [getSocket, notify]);
+
+  // Show how many edits are waiting for the connection to come back
+  useEffect(() => offlineQueue.subscribe(setPendingOfflineEdits), []);
+
+  // Follow board links opened while the app is running
+  useEffect(() => {
+    const handleHashChange = () => {
+      const inviteToken = getInviteTokenFromLocation();
+      if (inviteToken) {
+        acceptInvite(inviteToken);
+        return;
+      }
+      const boardId = getBoardIdFromLocation();
+      if (boardId !== currentBoardIdRef.current) {
+        joinBoard(boardId);
+      }
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [joinBoard, acceptInvite]);
+
+  const handleCreateBoard = useCallback(() => {
+    const socket = getSocket();
+    const name = window.prompt('Name for the new board:');
+    if (!socket || name === null) return;
+
+    socket.emit('create-board', { name }, (response: { success: boolean; board?: BoardInfo; error?: string }) => {
+      if (response.success && response.board) {
+        navigateToBoard(response.board.id);
+      } else {
+        console.error('[handleCreateBoard] Failed to create board:', response.error);
+      }
+    });
+  }, [getSocket]);
+
   const recordAndExecuteCommand = useCallback((command: Command) => {
     try {
       console.log(`[recordAndExecuteCommand] Executing command: ${command.description}`);
-      command.execute();
+      if (!command.execute()) {
+        console.warn(`[recordAndExecuteCommand] Not recorded, as it didn't run: ${command.description}`);
+        return;
+      }
 
       // Add to undo stack
       undoStackRef.current.push(command);
@@ -1192,10 +1627,6 @@ function App() {
         objectIdForRefresh = (command.actionData as UpdateTaskPropertyCommandData).objectId;
       } else if (command.actionType === 'moveObject' && command.actionData) {
         objectIdForRefresh = (command.actionData as MoveObjectCommandData).objectId;
-      } else if (command.actionType === 'createObject' && command.actionData) {
-        objectIdForRefresh = (command.actionData as CreateObjectCommandData).sharedId;
-      } else if (command.actionType === 'deleteObject' && command.actionData) {
-        objectIdForRefresh = (command.actionData as DeleteObjectCommandData).sharedId;
       }
 
       if (objectIdForRefresh && currentSelectedObjectForPanelRef.current && currentSelectedObjectForPanelRef.current.userData.sharedId === objectIdForRefresh) {
@@ -1233,10 +1664,6 @@ function App() {
           objectIdForRefresh = (command.actionData as UpdateTaskPropertyCommandData).objectId;
         } else if (command.actionType === 'moveObject' && command.actionData) {
           objectIdForRefresh = (command.actionData as MoveObjectCommandData).objectId;
-        } else if (command.actionType === 'createObject' && command.actionData) {
-          objectIdForRefresh = (command.actionData as CreateObjectCommandData).sharedId;
-        } else if (command.actionType === 'deleteObject' && command.actionData) {
-          objectIdForRefresh = (command.actionData as DeleteObjectCommandData).sharedId;
         }
 
         if (objectIdForRefresh) {
@@ -1294,8 +1721,11 @@ function App() {
         const command = redoStackRef.current.pop()!;
         console.log(`[handleRedo] Redoing command: ${command.description}`);
 
-        // Execute the redo operation
-        command.execute();
+        // Execute the redo operation; one that can no longer run is dropped rather than put back for undo
+        if (!command.execute()) {
+          updateUndoRedoState();
+          return;
+        }
 
         // Add to undo stack
         undoStackRef.current.push(command);
@@ -1307,10 +1737,6 @@ function App() {
           objectIdForRefresh = (command.actionData as UpdateTaskPropertyCommandData).objectId;
         } else if (command.actionType === 'moveObject' && command.actionData) {
           objectIdForRefresh = (command.actionData as MoveObjectCommandData).objectId;
-        } else if (command.actionType === 'createObject' && command.actionData) {
-          objectIdForRefresh = (command.actionData as CreateObjectCommandData).sharedId;
-        } else if (command.actionType === 'deleteObject' && command.actionData) {
-          objectIdForRefresh = (command.actionData as DeleteObjectCommandData).sharedId;
         }
 
         if (objectIdForRefresh) {
@@ -1364,9 +1790,9 @@ function App() {
 
   const handlePropertyUpdateFromPanel = useCallback((
     objectId: string,
-    property: 'taskTitle' | 'taskDescription' | 'taskChecklistUpdate' | 'taskStatus',
-    value: string | ChecklistUpdateAction,
-    oldValue: string | ChecklistItem[]
+    property: UpdateTaskPropertyCommandData['property'],
+    value: UpdateTaskPropertyCommandData['value'],
+    oldValue: UpdateTaskPropertyCommandData['oldValue']
   ) => {
     console.log(`[handlePropertyUpdateFromPanel] Updating ${property} for ${objectId}:`, value);
 
@@ -1376,12 +1802,22 @@ function App() {
       return;
     }
 
+    // A new status moves the task into another zone, which may be at its WIP limit
+    const destination = property === 'taskStatus' ? listZonesRef.current.find(zone => zone.name === value) : undefined;
+    if (destination && !admitToZone(destination, object)) {
+      // The panel has already shown the new status; put the old one back
+      if (object.userData.taskData && typeof oldValue === 'string') object.userData.taskData.status = oldValue;
+      handleObjectReconciled(object);
+      return;
+    }
+    if (property === 'taskStatus' && typeof value === 'string') warnOpenBlockers(object, value);
+
     const commandData: UpdateTaskPropertyCommandData = {
       objectId,
       property,
       value,
       oldValue,
-      userId: getSocket()?.id || 'system',
+      userId: getCurrentUserId(),
     };
 
     const socket = getSocket();
@@ -1395,12 +1831,13 @@ function App() {
       interactiveObjects,
       socket,
       commandData,
-      description
+      description,
+      handleObjectReconciled
     );
 
     // If this is a status update, also update the object's position to match the new zone
     if (property === 'taskStatus' && typeof value === 'string') {
-      const newStatus = value as 'To Do' | 'In Progress' | 'Done';
+      const newStatus = value as TaskData['status'];
       const targetZone = listZonesRef.current.find(zone => zone.name === newStatus);
 
       if (targetZone && targetZone.mesh) {
@@ -1409,12 +1846,9 @@ function App() {
         // Store original position for potential undo
         const originalPosition = object.position.clone();
 
-        // Calculate new position with random offset for natural placement
-        const newPosition = new THREE.Vector3(
-          targetZone.position.x + (Math.random() - 0.5) * targetZone.size.width * 0.8,
-          object.position.y, // Keep the same height
-          targetZone.position.z + (Math.random() - 0.5) * targetZone.size.depth * 0.8
-        );
+        // Calculate new position with random offset for natural placement (in the same swimlane, if any)
+        const spot = spotInZone(targetZone, lanesRef.current, object.position.z);
+        const newPosition = new THREE.Vector3(spot.x, object.position.y, spot.z); // Keep the same height
 
         // Update object's userData with the new status immediately
         if (!object.userData.taskData) {
@@ -1473,7 +1907,7 @@ function App() {
         });
 
         // Emit position update to other clients
-        socket.emit('object-moved', {
+        offlineQueue.emit(socket, 'object-moved', {
           objectId: objectId,
           position: {
             x: newPosition.x,
@@ -1492,7 +1926,12 @@ function App() {
             z: object.scale.z
           },
           taskStatus: newStatus,
-          userId: socket.id
+          userId: getCurrentUserId(),
+          baseVersion: takeBaseVersion(object)
+        }, (response: VersionedWriteResponse) => {
+          if (response.success || response.error !== 'operation-rejected' || !response.rejection.currentState) return;
+          applyServerObjectState(object, response.rejection.currentState);
+          handleObjectReconciled(object);
         });
 
         // Add activity log entry for the status change
@@ -1503,7 +1942,7 @@ function App() {
         if (object.userData.taskData && object.userData.taskData.activityLog) {
           object.userData.taskData.activityLog.push({
             timestamp: new Date().toISOString(),
-            userId: socket.id || 'system',
+            userId: getCurrentUserId(),
             action: 'Status Changed via Panel',
             details: `Status changed to '${newStatus}'`
           });
@@ -1512,7 +1951,26 @@ function App() {
     }
 
     recordAndExecuteCommand(command);
-  }, [recordAndExecuteCommand, getSocket]); // Added getSocket to dependencies
+  }, [recordAndExecuteCommand, getSocket, handleObjectReconciled, admitToZone, warnOpenBlockers]); // Added getSocket to dependencies
+
+  const handleTextEditFromPanel = useCallback((
+    objectId: string,
+    edit: Omit<TextEditCommandData, 'objectId' | 'userId'>
+  ) => {
+    const socket = getSocket();
+    if (!socket) {
+      console.error('Cannot edit text: socket not initialized');
+      return;
+    }
+
+    const command = new TextEditCommandImpl(
+      interactiveObjects,
+      socket,
+      { ...edit, objectId, userId: getCurrentUserId() },
+      `Edit ${edit.field} for ${objectId}`
+    );
+    recordAndExecuteCommand(command);
+  }, [recordAndExecuteCommand, getSocket]);
 
   // Handler to switch from LandingPage to the main app
   const handleEnterApp = () => {
@@ -1563,90 +2021,12 @@ function App() {
       interactiveObjects.current = [];
       originalMaterials.current = new Map<THREE.Object3D, THREE.Material | THREE.Material[]>();
       remoteCursorsRef.current = new Map<string, THREE.Mesh>();
-      listZonesRef.current = [
-        { name: 'To Do', position: new THREE.Vector3(-4, 0.01, 0), size: { width: 3, depth: 4 }, color: new THREE.Color(0xff6347) /* Tomato */ },
-        { name: 'In Progress', position: new THREE.Vector3(0, 0.01, 0), size: { width: 3, depth: 4 }, color: new THREE.Color(0xffd700) /* Gold */ },
-        { name: 'Done', position: new THREE.Vector3(4, 0.01, 0), size: { width: 3, depth: 4 }, color: new THREE.Color(0x90ee90) /* LightGreen */ },
-      ];
-
-      listZonesRef.current.forEach(zoneData => {
-        const zoneGeometry = new THREE.PlaneGeometry(zoneData.size.width, zoneData.size.depth);
-        const zoneMaterial = new THREE.MeshStandardMaterial({ color: zoneData.color, side: THREE.DoubleSide, transparent: true, opacity: 0.5 });
-        const zoneMesh = new THREE.Mesh(zoneGeometry, zoneMaterial);
-        zoneMesh.position.copy(zoneData.position);
-        zoneMesh.rotation.x = -Math.PI / 2; // Rotate to lay flat on XZ plane
-        scene.add(zoneMesh);
-        zoneData.mesh = zoneMesh; // Store mesh reference
-      });
+      // The board's own workflow arrives with its snapshot; until then show the last one we had
+      listZonesRef.current = showWorkflowZones(scene, [], workflowRef.current, lanesRef.current);
+      laneMarkersRef.current = showSwimlanes(scene, [], workflowRef.current, lanesRef.current);
+      connectorsRef.current = new Map();
 
-      const cubeGeometry = new THREE.BoxGeometry(1, 1, 1);
-      const cubeMaterial = new THREE.MeshStandardMaterial({ color: 0x007bff, name: 'cubeMaterial' });
-      const cube = new THREE.Mesh(cubeGeometry, cubeMaterial);
-      cube.position.x = -2;
-      cube.userData.originalColor = new THREE.Color(0x007bff);
-      cube.userData.sharedId = 'shared_cube';
-      cube.userData.objectType = 'cube'; // Assuming objectType might be useful
-      cube.userData.taskData = {
-        title: 'Cube Task',
-        description: 'Default description for cube task.',
-        status: 'To Do',
-        checklist: [],
-        activityLog: [{
-          timestamp: new Date().toISOString(),
-          userId: 'system',
-          action: 'Task Created',
-          details: 'Task initialized for shared_cube'
-        }]
-      };
-      scene.add(cube);
-      interactiveObjects.current.push(cube);
-      originalMaterials.current.set(cube, cubeMaterial.clone());
-
-      const sphereGeometry = new THREE.SphereGeometry(0.75, 32, 32);
-      const sphereMaterial = new THREE.MeshStandardMaterial({ color: 0xff4500, name: 'sphereMaterial' });
-      const sphere = new THREE.Mesh(sphereGeometry, sphereMaterial);
-      sphere.position.x = 0;
-      sphere.userData.originalColor = new THREE.Color(0xff4500);
-      sphere.userData.sharedId = 'shared_sphere';
-      sphere.userData.objectType = 'sphere';
-      sphere.userData.taskData = {
-        title: 'Sphere Task',
-        description: 'Default description for sphere task.',
-        status: 'To Do',
-        checklist: [],
-        activityLog: [{
-          timestamp: new Date().toISOString(),
-          userId: 'system',
-          action: 'Task Created',
-          details: 'Task initialized for shared_sphere'
-        }]
-      };
-      scene.add(sphere);
-      interactiveObjects.current.push(sphere);
-      originalMaterials.current.set(sphere, sphereMaterial.clone());
-
-      const torusGeometry = new THREE.TorusGeometry(0.6, 0.2, 16, 100);
-      const torusMaterial = new THREE.MeshStandardMaterial({ color: 0x28a745, name: 'torusMaterial' });
-      const torus = new THREE.Mesh(torusGeometry, torusMaterial);
-      torus.position.x = 2;
-      torus.userData.originalColor = new THREE.Color(0x28a745);
-      torus.userData.sharedId = 'shared_torus';
-      torus.userData.objectType = 'torus';
-      torus.userData.taskData = {
-        title: 'Torus Task',
-        description: 'Default description for torus task.',
-        status: 'To Do',
-        checklist: [],
-        activityLog: [{
-          timestamp: new Date().toISOString(),
-          userId: 'system',
-          action: 'Task Created',
-          details: 'Task initialized for shared_torus'
-        }]
-      };
-      scene.add(torus);
-      interactiveObjects.current.push(torus);
-      originalMaterials.current.set(torus, torusMaterial.clone());
+      // Task objects come from the server's board-snapshot (see handler below)
 
       const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
       scene.add(ambientLight);
@@ -1655,58 +2035,6 @@ function App() {
       scene.add(directionalLight);
       camera.position.z = 5;
 
-      gsap.to(cube.rotation, { y: Math.PI * 2, duration: 7, repeat: -1, ease: 'linear' });
-      gsap.to(sphere.rotation, { y: -Math.PI * 2, duration: 10, repeat: -1, ease: 'linear' });
-      gsap.to(torus.rotation, { x: Math.PI * 2, duration: 8, repeat: -1, ease: 'linear' });
-
-      // Additional GSAP animations:
-
-      // For cube: color change (animating r, g, b properties of the THREE.Color object)
-      // This assumes cube.material.color is a THREE.Color object, which it is for MeshStandardMaterial
-      if (cube && cube.material && (cube.material as THREE.MeshStandardMaterial).color) {
-        gsap.to((cube.material as THREE.MeshStandardMaterial).color, {
-          r: 1, // Target red
-          g: 0.2, // A bit of green
-          b: 0.2, // A bit of blue -> resulting in a reddish hue
-          duration: 3,
-          repeat: -1,
-          yoyo: true,
-          ease: 'power1.inOut'
-        });
-      }
-
-      // For sphere: add rotation around X-axis to complement existing Y-axis rotation
-      if (sphere) {
-        gsap.to(sphere.rotation, {
-          x: Math.PI * 2,
-          duration: 12,
-          repeat: -1,
-          ease: 'linear',
-          delay: 0.5 // Stagger with Y rotation
-        });
-      }
-
-      // For torus: make its emissive property pulse
-      if (torus && torus.material instanceof THREE.MeshStandardMaterial) {
-        const torusStandardMaterial = torus.material as THREE.MeshStandardMaterial;
-        // Ensure emissive property exists and is a THREE.Color
-        if (!torusStandardMaterial.emissive) {
-          torusStandardMaterial.emissive = new THREE.Color(0x000000);
-        }
-        // Define a target emissive color (e.g., a fraction of its diffuse color)
-        const targetEmissiveColor = new THREE.Color(torusStandardMaterial.color).multiplyScalar(0.4);
-
-        gsap.to(torusStandardMaterial.emissive, {
-          r: targetEmissiveColor.r,
-          g: targetEmissiveColor.g,
-          b: targetEmissiveColor.b,
-          duration: 2.0,
-          repeat: -1,
-          yoyo: true,
-          ease: 'sine.inOut'
-        });
-      }
-
       const socket = getSocket();
 
       if (!socket) {
@@ -1716,11 +2044,11 @@ function App() {
 
       socket.on('connect', () => {
         console.log('Connected to server with ID:', socket.id);
+        setIsConnected(true);
 
         // Send user information if authenticated
         if (authState.isAuthenticated && authState.user) {
           socket.emit('user-authenticated', {
-            id: authState.user.id,
             username: authState.user.username,
             color: authState.user.color || '#' + Math.floor(Math.random()*16777215).toString(16)
           });
@@ -1728,19 +2056,45 @@ function App() {
         } else {
           console.log('[Socket connect] Connected as guest with socket ID:', socket.id);
         }
+
+        // A reconnect puts us back on the default board server-side; rejoin the one we were viewing
+        joinBoard(currentBoardIdRef.current);
       });
 
+      socket.on('boards-updated', validated('boards-updated', (updatedBoards: BoardInfo[]) => {
+        setBoards(updatedBoards);
+      }));
+
+      // Sent for the board we are on, when we join it and whenever an owner changes our role
+      socket.on('board-role', validated('board-role', ({ boardId, role }) => {
+        console.log(`[Socket board-role] ${role || 'no access'} on board ${boardId}`);
+        boardRoleRef.current = role;
+        setBoardRole(role);
+        if (!role && boardId !== DEFAULT_BOARD_ID) {
+          notify.warning('You no longer have access to this board. Opening the main board instead.', 8000);
+          navigateToBoard(DEFAULT_BOARD_ID);
+        }
+      }));
+
       socket.on('disconnect', () => {
         console.log('Disconnected from server');
+        setIsConnected(false);
       });
 
+      // Board events are applied in seq order; a gap holds later ones back until the missing ones arrive
+      const inSequence = <T extends { seq: number }>(handler: (data: T) => void) =>
+        (data: T) => boardSequencerRef.current.receive(data.seq, () => handler(data));
+
+      // The server confirms the seq of our own changes, which it doesn't echo back to us
+      socket.on('board-seq', validated('board-seq', inSequence(() => {})));
+
       socket.on('server-event', (data) => {
         console.log('Received server-event:', data);
       });
 
       // Add cursor-move event handler
-      socket.on('cursor-move', (data: { userId: string; x: number; y: number }) => {
-        if (data.userId === socket.id) return; // Don't process your own cursor
+      socket.on('cursor-move', validated('cursor-move', (data: ScreenCursorData) => {
+        if (data.userId === getCurrentUserId()) return; // Don't process your own cursor
 
         // Get user color from connected users
         const userColor = connectedUsers.find(u => u.id === data.userId)?.color || '#ff0000';
@@ -1820,10 +2174,11 @@ function App() {
             }
           }
         }
-      });
+      }));
 
-      socket.on('user-list-updated', (incomingUsers: UserData[]) => {
+      socket.on('user-list-updated', validated('user-list-updated', (incomingUsers: UserData[]) => {
         console.log('Received user-list-updated:', incomingUsers);
+        setSelfUserId(getCurrentUserId()); // The server sends our identity before any list that has us in it
 
         const validUsers = incomingUsers
           .filter(user => user && typeof user.id === 'string' && user.id.trim() !== '')
@@ -1840,7 +2195,7 @@ function App() {
         const validUserIdsFromServer = new Set(validUsers.map(u => u.id));
 
         validUsers.forEach(user => {
-          if (user.id === socket.id) return;
+          if (user.id === getCurrentUserId()) return;
 
           let cursorMesh = remoteCursorsRef.current.get(user.id);
           if (!cursorMesh) {
@@ -1906,16 +2261,19 @@ function App() {
             }
           }
         });
-      });
+      }));
 
-      socket.on('object-updated', (data: {
+      socket.on('object-updated', validated('object-updated', inSequence((data: {
         objectId: string,
         position: { x: number, y: number, z: number },
         rotation: { x: number, y: number, z: number, order?: THREE.EulerOrder },
         scale: { x: number; y: number; z: number },
         taskStatus?: TaskData['status'],
+        laneField?: LaneField,
         activityLogEntry?: ActivityLogEntry,
-        userId?: string
+        userId?: string,
+        version?: number,
+        seq: number
       }) => {
         console.log(`[Socket object-updated] Received update for ${data.objectId}:`, data);
         const objectToUpdate = interactiveObjects.current.find(obj => obj.userData.sharedId === data.objectId);
@@ -1924,8 +2282,11 @@ function App() {
           return;
         }
 
-        // Only update if we're not currently dragging this object
+        // Only update if we're not currently dragging this object.
+        // The version is left alone while dragging, so the drag's own write is rejected as stale and reconciled.
         if (objectToUpdate.userData.sharedId !== selectedObject.current?.userData.sharedId || !isDraggingRef.current) {
+          if (typeof data.version === 'number') objectToUpdate.userData.version = data.version;
+
           // Update position, rotation, and scale
           objectToUpdate.position.set(data.position.x, data.position.y, data.position.z);
           objectToUpdate.rotation.set(data.rotation.x, data.rotation.y, data.rotation.z, data.rotation.order || 'XYZ');
@@ -1966,15 +2327,28 @@ function App() {
             }
           }
 
+          // Dragged into another swimlane: take the lane's value for the field the lanes group by
+          if (data.laneField && objectToUpdate.userData.taskData) {
+            setTaskField(objectToUpdate.userData.taskData, data.laneField.property, data.laneField.value);
+          }
+
           // Update panel if this is the currently selected object
           if (currentSelectedObjectForPanelRef.current === objectToUpdate) {
             setCurrentSelectedObjectForPanel(null);
             setCurrentSelectedObjectForPanel(objectToUpdate);
           }
         }
-      });
+      })));
 
-      socket.on('object-created', (data: CreateObjectCommandData) => {
+      socket.on('comment-added', validated('comment-added', inSequence(({ objectId, comment }) => {
+        const commentedObject = interactiveObjects.current.find(obj => obj.userData.sharedId === objectId);
+        const taskData = commentedObject?.userData.taskData as TaskData | undefined;
+        if (!taskData) return;
+        if (!taskData.comments) taskData.comments = [];
+        if (!taskData.comments.some(existing => existing.id === comment.id)) taskData.comments.push(comment);
+      })));
+
+      socket.on('object-created', validated('object-created', inSequence((data: Sequenced<CreateObjectCommandData>) => {
         if (!sceneRef.current) return;
 
         const existingObject = interactiveObjects.current.find(obj => obj.userData.sharedId === data.sharedId);
@@ -1983,58 +2357,145 @@ function App() {
             return;
         }
 
-        let newObjectGeometry: THREE.BufferGeometry;
-        if (data.type === 'cube') newObjectGeometry = new THREE.BoxGeometry(1, 1, 1);
-        else if (data.type === 'sphere') newObjectGeometry = new THREE.SphereGeometry(0.75, 32, 32);
-        else if (data.type === 'torus') newObjectGeometry = new THREE.TorusGeometry(0.6, 0.2, 16, 100);
-        else return;
-        const newObjectMaterial = new THREE.MeshStandardMaterial({ color: data.color });
-        const newObject = new THREE.Mesh(newObjectGeometry, newObjectMaterial);
-        newObject.position.set(data.position.x, data.position.y, data.position.z);
-        newObject.rotation.set(data.rotation.x, data.rotation.y, data.rotation.z, data.rotation.order);
-        newObject.scale.set(data.scale.x, data.scale.y, data.scale.z);
-        newObject.userData.sharedId = data.sharedId;
-        newObject.userData.originalColor = new THREE.Color(data.color);
-        newObject.userData.objectType = data.type;
-        newObject.userData.taskData = {
-          ...data.taskData,
-          activityLog: data.taskData.activityLog ? [...data.taskData.activityLog] : []
-        };
+        const newObject = createObjectMesh(data);
+        if (!newObject) return;
 
         sceneRef.current.add(newObject);
         interactiveObjects.current.push(newObject);
-        originalMaterials.current.set(newObject, newObjectMaterial.clone());
-      });
+        originalMaterials.current.set(newObject, (newObject.material as THREE.MeshStandardMaterial).clone());
+      })));
 
-      socket.on('object-deleted', (data: { objectId: string }) => {
+      // The server owns the board: rebuild every task object from its snapshot
+      socket.on('board-snapshot', validated('board-snapshot', (data: BoardSnapshotData) => {
         if (!sceneRef.current) return;
-        const objectToDelete = interactiveObjects.current.find(obj => obj.userData.sharedId === data.objectId);
-        if (objectToDelete) {
-          console.log(`[Socket object-deleted] Received delete for ${data.objectId}`);
-          sceneRef.current.remove(objectToDelete);
-
-          if (objectToDelete.geometry) objectToDelete.geometry.dispose();
-          if (objectToDelete.material) {
-              if (Array.isArray(objectToDelete.material)) {
-                  objectToDelete.material.forEach(mat => mat.dispose());
-              } else {
-                  (objectToDelete.material as THREE.Material).dispose();
-              }
-          }
+        console.log(`[Socket board-snapshot] Received ${data.objects.length} objects`);
+
+        interactiveObjects.current.forEach(obj => {
+          gsap.killTweensOf(obj.position);
+          gsap.killTweensOf(obj.rotation);
+          gsap.killTweensOf(obj.scale);
+          obj.parent?.remove(obj);
+          if (obj.geometry) obj.geometry.dispose();
+          if (obj.material instanceof THREE.Material) obj.material.dispose();
+        });
+        interactiveObjects.current = [];
+        originalMaterials.current = new Map();
+
+        data.objects.forEach(objectData => {
+          const mesh = createObjectMesh(objectData);
+          if (!mesh || !sceneRef.current) return;
+          sceneRef.current.add(mesh);
+          interactiveObjects.current.push(mesh);
+          originalMaterials.current.set(mesh, (mesh.material as THREE.MeshStandardMaterial).clone());
+        });
 
-          interactiveObjects.current = interactiveObjects.current.filter(obj => obj.userData.sharedId !== data.objectId);
-          originalMaterials.current.delete(objectToDelete);
-          if (selectedObject.current && selectedObject.current.userData.sharedId === data.objectId) {
-            selectedObject.current = null;
-          }
+        // Point the selection at the rebuilt mesh (or drop it if the object is gone)
+        const selectedId = currentSelectedObjectForPanelRef.current?.userData.sharedId;
+        const reselected = selectedId
+          ? interactiveObjects.current.find(obj => obj.userData.sharedId === selectedId) || null
+          : null;
+        selectedObject.current = reselected;
+        setCurrentSelectedObjectForPanel(reselected);
+
+        applyWorkflow(data);
+
+        // Changes that arrived while the snapshot was on its way are applied on top of it
+        boardSequencerRef.current.reset({ epoch: data.epoch, seq: data.seq });
+      }));
+
+      // An owner changed the zones or lanes, or the lanes changed with the tasks; the tasks that took a zone's
+      // new name, moved with it or moved into their lane come along
+      socket.on('workflow-updated', validated('workflow-updated', inSequence((data: Sequenced<WorkflowUpdateData>) => {
+        applyWorkflow(data);
+        data.objects.forEach(objectData => {
+          const object = interactiveObjects.current.find(obj => obj.userData.sharedId === objectData.sharedId);
+          if (!object) return;
+          applyServerObjectState(object, objectData);
+          handleObjectReconciled(object);
+        });
+      })));
+
+      // Someone else typed in a title or description; the panel picks it up through the document
+      socket.on('text-operations', validated('text-operations', inSequence((data: Sequenced<TextOperationsData>) => {
+        const objectToUpdate = interactiveObjects.current.find(obj => obj.userData.sharedId === data.objectId);
+        if (!objectToUpdate) {
+          console.warn(`[Socket text-operations] Object with ID ${data.objectId} not found locally.`);
+          return;
+        }
+        const doc = getTaskTextDocs(objectToUpdate)[data.field];
+        if (doc && doc.apply(data.ops) && objectToUpdate.userData.taskData) {
+          objectToUpdate.userData.taskData[data.field] = doc.text;
+        }
+      })));
+
+      // Take a board object out of the scene (deleted, or a create the server refused)
+      const removeObject = (objectId: string) => {
+        const objectToDelete = interactiveObjects.current.find(obj => obj.userData.sharedId === objectId);
+        if (!sceneRef.current || !objectToDelete) return;
+        sceneRef.current.remove(objectToDelete);
+
+        if (objectToDelete.geometry) objectToDelete.geometry.dispose();
+        if (objectToDelete.material) {
+            if (Array.isArray(objectToDelete.material)) {
+                objectToDelete.material.forEach(mat => mat.dispose());
+            } else {
+                (objectToDelete.material as THREE.Material).dispose();
+            }
         }
-      });
 
-      socket.on('object-property-updated', (data: ObjectPropertyUpdateData & { fullTaskData?: TaskData }) => {
+        interactiveObjects.current = interactiveObjects.current.filter(obj => obj.userData.sharedId !== objectId);
+        originalMaterials.current.delete(objectToDelete);
+        if (selectedObject.current && selectedObject.current.userData.sharedId === objectId) {
+          selectedObject.current = null;
+        }
+      };
+
+      // Replies to writes sent without an ack callback; commands handle their own rejections
+      socket.on('operation-rejected', validated('operation-rejected', (data: OperationRejectedData) => {
+        console.warn(`[Socket operation-rejected] ${data.operation} on ${data.objectId} rejected: ${data.reason}`);
+        const rejectedObject = interactiveObjects.current.find(obj => obj.userData.sharedId === data.objectId);
+        if (rejectedObject && data.operation === 'request-create-object' && !data.currentState) {
+          // The server didn't take the task we added locally: take it out again
+          const why = data.reason === 'wip-limit'
+            ? 'its zone is at its WIP limit'
+            : data.reason === 'unknown-assignee'
+              ? 'tasks can only be assigned to registered users'
+              : data.reason === 'invalid-dependency'
+                ? `it can't wait on a task that is gone or already waits on it`
+                : 'the board refused it';
+          notify.warning(`"${rejectedObject.userData.taskData?.title || 'The task'}" was not added: ${why}`);
+          removeObject(data.objectId);
+          return;
+        }
+        if (!rejectedObject || !data.currentState) return;
+        applyServerObjectState(rejectedObject, data.currentState);
+        handleObjectReconciled(rejectedObject);
+      }));
+
+      // The server dropped something we sent because its payload was malformed (a client bug)
+      socket.on('invalid-payload', validated('invalid-payload', (data: InvalidPayloadResponse) => {
+        console.error(`[Socket invalid-payload] Server dropped '${data.event}': ${data.message}`);
+      }));
+
+      // Our role doesn't allow something we already applied locally (e.g. it changed meanwhile): undo it
+      socket.on('permission-denied', validated('permission-denied', (data: ForbiddenResponse) => {
+        console.warn(`[Socket permission-denied] Server refused '${data.event}': ${data.message}`);
+        notify.error(`Not allowed: ${data.message}`);
+        socket.emit('request-board-snapshot');
+      }));
+
+      socket.on('object-deleted', validated('object-deleted', inSequence((data: { objectId: string; seq: number }) => {
+        if (!sceneRef.current) return;
+        console.log(`[Socket object-deleted] Received delete for ${data.objectId}`);
+        removeObject(data.objectId);
+      })));
+
+      socket.on('object-property-updated', validated('object-property-updated', inSequence((data: Sequenced<ObjectPropertyUpdateData & { version?: number }>) => {
         console.log('[Socket object-property-updated] Received data:', JSON.stringify(data, null, 2));
 
         const objectToUpdate = interactiveObjects.current.find(obj => obj.userData.sharedId === data.objectId);
         if (objectToUpdate) {
+          if (typeof data.version === 'number') objectToUpdate.userData.version = data.version;
           console.log(`[Socket object-property-updated] Found object ${data.objectId}. Current taskData BEFORE update:`, JSON.stringify(objectToUpdate.userData.taskData, null, 2));
           let panelNeedsRefresh = false;
 
@@ -2042,6 +2503,11 @@ function App() {
           if (data.fullTaskData && typeof data.fullTaskData === 'object') {
             console.log(`[Socket object-property-updated] Received full taskData, applying complete update`);
             objectToUpdate.userData.taskData = { ...data.fullTaskData };
+            // Title and description come from the text documents, which merge concurrent edits
+            const textDocs = getTaskTextDocs(objectToUpdate);
+            TASK_TEXT_FIELDS.forEach(field => {
+              objectToUpdate.userData.taskData[field] = textDocs[field].text;
+            });
             panelNeedsRefresh = true;
           } else {
             // Otherwise, update individual properties
@@ -2095,35 +2561,6 @@ function App() {
                 });
                 console.log(`[Socket object-property-updated] Pushed generated activityLogEntry for remote scale update.`);
               }
-            } else if (taskData && data.property === 'taskTitle' && typeof data.value === 'string') {
-              const oldTitle = taskData.title;
-              taskData.title = data.value;
-              console.log(`[Socket object-property-updated] Task title updated for ${data.objectId}. Old: "${oldTitle}", New: "${taskData.title}"`);
-              panelNeedsRefresh = true;
-              if (data.userId && data.activityLogEntry) {
-                const logExists = taskData.activityLog.some(entry =>
-                    entry.timestamp === data.activityLogEntry!.timestamp && entry.userId === data.activityLogEntry!.userId && entry.action === data.activityLogEntry!.action
-                );
-                if (!logExists) {
-                    taskData.activityLog.push(data.activityLogEntry);
-                    console.log(`[Socket object-property-updated] Pushed received activityLogEntry for title update.`);
-                } else {
-                    console.log(`[Socket object-property-updated] Skipped pushing duplicate activityLogEntry for title update.`);
-                }
-              } else if (data.userId) {
-                  taskData.activityLog.push({
-                    timestamp: new Date().toISOString(),
-                    userId: data.userId,
-                    action: 'Task title updated (remote)',
-                    details: `Title changed from "${oldTitle}" to "${data.value}"`
-                  });
-                  console.log(`[Socket object-property-updated] Pushed generated activityLogEntry for remote title update.`);
-              }
-            } else if (taskData && data.property === 'taskDescription' && typeof data.value === 'string') {
-              // const oldDescription = taskData.description; // Commented out as it's unused
-              taskData.description = data.value;
-              console.log(`[Socket object-property-updated] Task description updated for ${data.objectId}.`);
-              panelNeedsRefresh = true;
             } else if (taskData && data.property === 'taskStatus' && typeof data.value === 'string') {
               const oldStatus = taskData.status;
               const newStatus = data.value as TaskData['status'];
@@ -2218,24 +2655,40 @@ function App() {
                 });
                 console.log(`[Socket object-property-updated] Pushed generated activityLogEntry for remote checklist update.`);
               }
+            } else if (taskData && isTaskFieldProperty(data.property)) {
+              setTaskField(taskData, data.property, data.value as TaskFieldValue);
+              panelNeedsRefresh = true;
+              if (data.activityLogEntry) {
+                const logExists = taskData.activityLog.some(entry => entry.timestamp === data.activityLogEntry!.timestamp && entry.userId === data.activityLogEntry!.userId && entry.action === data.activityLogEntry!.action);
+                if (!logExists) taskData.activityLog.push(data.activityLogEntry);
+              } else if (data.userId) {
+                const { field, details } = describeTaskField(data.property, data.value as TaskFieldValue);
+                taskData.activityLog.push({
+                  timestamp: new Date().toISOString(),
+                  userId: data.userId,
+                  action: `Changed ${field} (remote)`,
+                  details
+                });
+              }
             }
             console.log(`[Socket object-property-updated] Object ${data.objectId} taskData AFTER update:`, JSON.stringify(objectToUpdate.userData.taskData, null, 2));
+          }
 
-            if (panelNeedsRefresh) {
-              if (currentSelectedObjectForPanelRef.current && currentSelectedObjectForPanelRef.current.userData.sharedId === data.objectId) {
-                console.log(`[Socket object-property-updated] Requesting panel refresh for ${data.objectId}.`);
-                setCurrentSelectedObjectForPanel(null);
-                setCurrentSelectedObjectForPanel(objectToUpdate);
-              }
+          // Full task data counts too: that is how task fields and checklists usually arrive
+          if (panelNeedsRefresh) {
+            if (currentSelectedObjectForPanelRef.current && currentSelectedObjectForPanelRef.current.userData.sharedId === data.objectId) {
+              console.log(`[Socket object-property-updated] Requesting panel refresh for ${data.objectId}.`);
+              setCurrentSelectedObjectForPanel(null);
+              setCurrentSelectedObjectForPanel(objectToUpdate);
             }
           }
         } else {
           console.warn(`[Socket object-property-updated] Object with ID ${data.objectId} not found locally.`);
         }
-      });
+      })));
 
-      socket.on('cursor-updated', (data: CursorUpdateData) => {
-        if (data.userId === socket.id) return;
+      socket.on('cursor-updated', validated('cursor-updated', (data: CursorUpdateData) => {
+        if (data.userId === getCurrentUserId()) return;
 
         // Get user color from connected users or use the one from data
         const userColor = data.color || connectedUsers.find(u => u.id === data.userId)?.color || '#ff0000';
@@ -2309,9 +2762,9 @@ function App() {
             });
           }
         }
-      });
+      }));
 
-      socket.on('user-cursor-removed', (data: { userId: string }) => {
+      socket.on('user-cursor-removed', validated('user-cursor-removed', (data: { userId: string }) => {
         const cursorToRemove = remoteCursorsRef.current.get(data.userId);
         if (cursorToRemove) {
           // Remove cursor from scene
@@ -2335,7 +2788,14 @@ function App() {
           remoteCursorsRef.current.delete(data.userId);
           console.log(`[Client] Removed cursor for user ${data.userId}`);
         }
-      });
+      }));
+
+      // Handlers are in place; join the board from the URL (this also sends us its snapshot)
+      setIsConnected(socket.connected);
+      joinBoard(currentBoardIdRef.current);
+      socket.emit('list-boards', (availableBoards: BoardInfo[]) => setBoards(availableBoards));
+      const inviteToken = getInviteTokenFromLocation();
+      if (inviteToken) acceptInvite(inviteToken);
 
       const raycaster = new THREE.Raycaster();
       const mouse = new THREE.Vector2();
@@ -2380,8 +2840,11 @@ function App() {
           if (raycaster.ray.intersectPlane(dragPlaneRef.current, intersectionRef.current)) {
             offsetRef.current.copy(worldPosition.current).sub(intersectionRef.current);
           }
-          controls.enabled = false;
-          isDraggingRef.current = true;
+          // Only editors move tasks; everyone else can still select them to read them
+          if (hasRole(boardRoleRef.current, 'editor')) {
+            controls.enabled = false;
+            isDraggingRef.current = true;
+          }
         } else {
           if (selectedObject.current) {
             gsap.killTweensOf(selectedObject.current.scale);
@@ -2427,6 +2890,7 @@ function App() {
           const oldState = initialDragStateRef.current;
 
           let finalNewStatusForCommand: TaskData['status'] | undefined = oldState.taskStatus;
+          let laneChange: ReturnType<typeof laneFieldChange> = null;
 
           if (currentObj.userData.taskData) {
             const actualOldStatusAtDragStart = oldState.taskStatus;
@@ -2452,14 +2916,18 @@ function App() {
 
             if (finalDropZone) {
               finalNewStatusForCommand = finalDropZone.name;
-              if (finalNewStatusForCommand !== actualOldStatusAtDragStart) {
-                currentObj.position.set(
-                  finalDropZone.position.x + (Math.random() - 0.5) * finalDropZone.size.width * 0.8,
-                  currentObj.position.y,
-                  finalDropZone.position.z + (Math.random() - 0.5) * finalDropZone.size.depth * 0.8
-                );
+              if (finalNewStatusForCommand !== actualOldStatusAtDragStart && !admitToZone(finalDropZone, currentObj)) {
+                // The zone is full and the board refuses moves past its limit: the task goes back where it was
+                finalNewStatusForCommand = actualOldStatusAtDragStart;
+                currentObj.position.copy(oldState.position);
+              } else if (finalNewStatusForCommand !== actualOldStatusAtDragStart) {
+                warnOpenBlockers(currentObj, finalNewStatusForCommand);
+                const spot = spotInZone(finalDropZone, lanesRef.current, currentObj.position.z);
+                currentObj.position.set(spot.x, currentObj.position.y, spot.z);
                 console.log(`Task ${currentObj.userData.sharedId} status will change from ${actualOldStatusAtDragStart} to ${finalNewStatusForCommand} and snapped to new zone.`);
               }
+              // Dropped in another swimlane: the task takes that lane's assignee, priority or label
+              laneChange = laneFieldChange(swimlanesRef.current, lanesRef.current, currentObj.userData.taskData, currentObj.position.z);
             }
           }
 
@@ -2472,7 +2940,8 @@ function App() {
             oldScale: { x: oldState.scale.x, y: oldState.scale.y, z: oldState.scale.z },
             newScale: { x: currentObj.scale.x, y: currentObj.scale.y, z: currentObj.scale.z },
             oldTaskStatus: oldState.taskStatus,
-            newTaskStatus: finalNewStatusForCommand
+            newTaskStatus: finalNewStatusForCommand,
+            ...laneChange
           };
 
           const posChanged = !oldState.position.equals(currentObj.position);
@@ -2480,13 +2949,14 @@ function App() {
           const scaleChanged = !oldState.scale.equals(currentObj.scale);
           const statusChangedByThisDrag = oldState.taskStatus !== finalNewStatusForCommand;
 
-          if (posChanged || rotChanged || scaleChanged || statusChangedByThisDrag) {
+          if (posChanged || rotChanged || scaleChanged || statusChangedByThisDrag || laneChange) {
             const moveCommand = new MoveObjectCommandImpl(
               interactiveObjects,
               socket,
               commandData,
               `Update ${currentObj.userData.sharedId}`,
-              animateTaskStatusUpdate
+              animateTaskStatusUpdate,
+              handleObjectReconciled
             );
             recordAndExecuteCommand(moveCommand);
           }
@@ -2502,6 +2972,8 @@ function App() {
       const animate = () => {
         requestAnimationFrame(animate);
         controls.update();
+        showWipWarnings(listZonesRef.current, interactiveObjects.current);
+        if (sceneRef.current) showDependencies(sceneRef.current, connectorsRef.current, interactiveObjects.current, workflowRef.current);
         if (sceneRef.current && cameraRef.current && rendererRef.current) {
           rendererRef.current.render(sceneRef.current, cameraRef.current);
         }
@@ -2545,6 +3017,15 @@ function App() {
             socket.off('server-event');
             socket.off('object-updated');
             socket.off('object-created');
+            socket.off('board-snapshot');
+            socket.off('board-seq');
+            socket.off('boards-updated');
+            socket.off('board-role');
+            socket.off('operation-rejected');
+            socket.off('invalid-payload');
+            socket.off('permission-denied');
+            socket.off('comment-added');
+            socket.off('text-operations');
             socket.off('object-deleted');
             socket.off('user-list-updated');
             socket.off('object-property-updated');
@@ -2622,6 +3103,8 @@ function App() {
             }
           });
           listZonesRef.current = [];
+          laneMarkersRef.current = sceneRef.current ? showSwimlanes(sceneRef.current, laneMarkersRef.current, [], []) : [];
+          if (sceneRef.current) showDependencies(sceneRef.current, connectorsRef.current, [], []);
 
           sceneRef.current = null;
           cameraRef.current = null;
@@ -2643,7 +3126,7 @@ function App() {
         console.error('[Main Effect] Error stack:', error.stack);
       }
     }
-  }, [showLandingPage, is3DMode, forceUpdate, recordAndExecuteCommand, updateUndoRedoState, handleUndo, handleRedo, animateTaskStatusUpdate, getSocket]);
+  }, [showLandingPage, is3DMode, forceUpdate, recordAndExecuteCommand, updateUndoRedoState, handleUndo, handleRedo, animateTaskStatusUpdate, getSocket, joinBoard, handleObjectReconciled, notify, acceptInvite, applyWorkflow, admitToZone, warnOpenBlockers]);
 
   const sphereExists = interactiveObjects.current.some(obj => obj.userData.sharedId === 'shared_sphere');
 
@@ -2718,96 +3201,11 @@ function App() {
     scene.add(directionalLight);
 
     // Add list zones
-    listZonesRef.current = [
-      { name: 'To Do', position: new THREE.Vector3(-4, 0.01, 0), size: { width: 3, depth: 4 }, color: new THREE.Color(0xff6347) /* Tomato */ },
-      { name: 'In Progress', position: new THREE.Vector3(0, 0.01, 0), size: { width: 3, depth: 4 }, color: new THREE.Color(0xffd700) /* Gold */ },
-      { name: 'Done', position: new THREE.Vector3(4, 0.01, 0), size: { width: 3, depth: 4 }, color: new THREE.Color(0x90ee90) /* LightGreen */ },
-    ];
-
-    listZonesRef.current.forEach(zoneData => {
-      const zoneGeometry = new THREE.PlaneGeometry(zoneData.size.width, zoneData.size.depth);
-      const zoneMaterial = new THREE.MeshStandardMaterial({ color: zoneData.color, side: THREE.DoubleSide, transparent: true, opacity: 0.5 });
-      const zoneMesh = new THREE.Mesh(zoneGeometry, zoneMaterial);
-      zoneMesh.position.copy(zoneData.position);
-      zoneMesh.rotation.x = -Math.PI / 2; // Rotate to lay flat on XZ plane
-      scene.add(zoneMesh);
-      zoneData.mesh = zoneMesh; // Store mesh reference
-    });
+    listZonesRef.current = showWorkflowZones(scene, [], workflowRef.current, lanesRef.current);
+    laneMarkersRef.current = showSwimlanes(scene, [], workflowRef.current, lanesRef.current);
+    connectorsRef.current = new Map();
 
-    // Add the original objects (cube, sphere, torus)
-    const cubeGeometry = new THREE.BoxGeometry(1, 1, 1);
-    const cubeMaterial = new THREE.MeshStandardMaterial({ color: 0x007bff, name: 'cubeMaterial' });
-    const cube = new THREE.Mesh(cubeGeometry, cubeMaterial);
-    cube.position.x = -2;
-    cube.userData.originalColor = new THREE.Color(0x007bff);
-    cube.userData.sharedId = 'shared_cube';
-    cube.userData.objectType = 'cube';
-    cube.userData.taskData = {
-      title: 'Cube Task',
-      description: 'Default description for cube task.',
-      status: 'To Do',
-      checklist: [],
-      activityLog: [{
-        timestamp: new Date().toISOString(),
-        userId: 'system',
-        action: 'Task Created',
-        details: 'Task initialized for shared_cube'
-      }]
-    };
-    scene.add(cube);
-    interactiveObjects.current.push(cube);
-    originalMaterials.current.set(cube, cubeMaterial.clone());
-
-    const sphereGeometry = new THREE.SphereGeometry(0.75, 32, 32);
-    const sphereMaterial = new THREE.MeshStandardMaterial({ color: 0xff4500, name: 'sphereMaterial' });
-    const sphere = new THREE.Mesh(sphereGeometry, sphereMaterial);
-    sphere.position.x = 0;
-    sphere.userData.originalColor = new THREE.Color(0xff4500);
-    sphere.userData.sharedId = 'shared_sphere';
-    sphere.userData.objectType = 'sphere';
-    sphere.userData.taskData = {
-      title: 'Sphere Task',
-      description: 'Default description for sphere task.',
-      status: 'To Do',
-      checklist: [],
-      activityLog: [{
-        timestamp: new Date().toISOString(),
-        userId: 'system',
-        action: 'Task Created',
-        details: 'Task initialized for shared_sphere'
-      }]
-    };
-    scene.add(sphere);
-    interactiveObjects.current.push(sphere);
-    originalMaterials.current.set(sphere, sphereMaterial.clone());
-
-    const torusGeometry = new THREE.TorusGeometry(0.6, 0.2, 16, 100);
-    const torusMaterial = new THREE.MeshStandardMaterial({ color: 0x28a745, name: 'torusMaterial' });
-    const torus = new THREE.Mesh(torusGeometry, torusMaterial);
-    torus.position.x = 2;
-    torus.userData.originalColor = new THREE.Color(0x28a745);
-    torus.userData.sharedId = 'shared_torus';
-    torus.userData.objectType = 'torus';
-    torus.userData.taskData = {
-      title: 'Torus Task',
-      description: 'Default description for torus task.',
-      status: 'To Do',
-      checklist: [],
-      activityLog: [{
-        timestamp: new Date().toISOString(),
-        userId: 'system',
-        action: 'Task Created',
-        details: 'Task initialized for shared_torus'
-      }]
-    };
-    scene.add(torus);
-    interactiveObjects.current.push(torus);
-    originalMaterials.current.set(torus, torusMaterial.clone());
-
-    // Add animations
-    gsap.to(cube.rotation, { y: Math.PI * 2, duration: 7, repeat: -1, ease: 'linear' });
-    gsap.to(sphere.rotation, { y: -Math.PI * 2, duration: 10, repeat: -1, ease: 'linear' });
-    gsap.to(torus.rotation, { x: Math.PI * 2, duration: 8, repeat: -1, ease: 'linear' });
+    // Task objects are added by the board-snapshot handler once the server sends the board
 
     // Set up raycaster for object interaction
     const raycaster = new THREE.Raycaster();
@@ -2865,8 +3263,7 @@ function App() {
         // Also emit 2D coordinates for fallback
         socket.emit('cursor-move', {
           x: event.clientX,
-          y: event.clientY,
-          userId: socket.id
+          y: event.clientY
         });
       }
 
@@ -2947,8 +3344,8 @@ function App() {
         selectedObject.current = newSelectedObject;
         setCurrentSelectedObjectForPanel(newSelectedObject);
 
-        // Start drag operation
-        isDraggingRef.current = true;
+        // Start drag operation (only editors move tasks)
+        isDraggingRef.current = hasRole(boardRoleRef.current, 'editor');
 
         // Store initial state for undo/redo
         initialDragStateRef.current = {
@@ -3026,6 +3423,7 @@ function App() {
           const oldState = initialDragStateRef.current;
 
           let finalNewStatusForCommand: TaskData['status'] | undefined = oldState.taskStatus;
+          let laneChange: ReturnType<typeof laneFieldChange> = null;
 
           if (currentObj.userData.taskData) {
             const actualOldStatusAtDragStart = oldState.taskStatus;
@@ -3051,14 +3449,18 @@ function App() {
 
             if (finalDropZone) {
               finalNewStatusForCommand = finalDropZone.name;
-              if (finalNewStatusForCommand !== actualOldStatusAtDragStart) {
-                currentObj.position.set(
-                  finalDropZone.position.x + (Math.random() - 0.5) * finalDropZone.size.width * 0.8,
-                  currentObj.position.y,
-                  finalDropZone.position.z + (Math.random() - 0.5) * finalDropZone.size.depth * 0.8
-                );
+              if (finalNewStatusForCommand !== actualOldStatusAtDragStart && !admitToZone(finalDropZone, currentObj)) {
+                // The zone is full and the board refuses moves past its limit: the task goes back where it was
+                finalNewStatusForCommand = actualOldStatusAtDragStart;
+                currentObj.position.copy(oldState.position);
+              } else if (finalNewStatusForCommand !== actualOldStatusAtDragStart) {
+                warnOpenBlockers(currentObj, finalNewStatusForCommand);
+                const spot = spotInZone(finalDropZone, lanesRef.current, currentObj.position.z);
+                currentObj.position.set(spot.x, currentObj.position.y, spot.z);
                 console.log(`Task ${currentObj.userData.sharedId} status will change from ${actualOldStatusAtDragStart} to ${finalNewStatusForCommand} and snapped to new zone.`);
               }
+              // Dropped in another swimlane: the task takes that lane's assignee, priority or label
+              laneChange = laneFieldChange(swimlanesRef.current, lanesRef.current, currentObj.userData.taskData, currentObj.position.z);
             }
           }
 
@@ -3071,7 +3473,8 @@ function App() {
             oldScale: { x: oldState.scale.x, y: oldState.scale.y, z: oldState.scale.z },
             newScale: { x: currentObj.scale.x, y: currentObj.scale.y, z: currentObj.scale.z },
             oldTaskStatus: oldState.taskStatus,
-            newTaskStatus: finalNewStatusForCommand
+            newTaskStatus: finalNewStatusForCommand,
+            ...laneChange
           };
 
           const posChanged = !oldState.position.equals(currentObj.position);
@@ -3079,13 +3482,14 @@ function App() {
           const scaleChanged = !oldState.scale.equals(currentObj.scale);
           const statusChangedByThisDrag = oldState.taskStatus !== finalNewStatusForCommand;
 
-          if ((posChanged || rotChanged || scaleChanged || statusChangedByThisDrag) && socket) {
+          if ((posChanged || rotChanged || scaleChanged || statusChangedByThisDrag || laneChange) && socket) {
             const moveCommand = new MoveObjectCommandImpl(
               interactiveObjects,
               socket,
               commandData,
               `Update ${currentObj.userData.sharedId}`,
-              animateTaskStatusUpdate
+              animateTaskStatusUpdate,
+              handleObjectReconciled
             );
             recordAndExecuteCommand(moveCommand);
           }
@@ -3180,19 +3584,22 @@ function App() {
             selectedObject.current.userData.taskData.status = newZone.name;
 
             // Add to activity log
-            selectedObject.current.userData.taskData.activityLog.push({
+            const activityLogEntry: ActivityLogEntry = {
               timestamp: new Date().toISOString(),
               userId: user?.id || 'anonymous',
               action: 'Status Changed',
               details: `Status changed from ${currentStatus} to ${newZone.name}`
-            });
+            };
+            selectedObject.current.userData.taskData.activityLog.push(activityLogEntry);
 
-            // Emit status change to other users
+            // Emit status change to other users; a rejection comes back as 'operation-rejected'
             if (socket) {
-              socket.emit('task-status-update', {
+              offlineQueue.emit(socket, 'task-status-update', {
                 objectId: selectedObject.current.userData.sharedId,
                 newStatus: newZone.name,
-                oldStatus: currentStatus
+                oldStatus: currentStatus,
+                baseVersion: takeBaseVersion(selectedObject.current),
+                activityLogEntry
               });
             }
 
@@ -3216,6 +3623,8 @@ function App() {
     const animate = () => {
       animationFrameId = requestAnimationFrame(animate);
       controls.update();
+      showWipWarnings(listZonesRef.current, interactiveObjects.current);
+      showDependencies(scene, connectorsRef.current, interactiveObjects.current, workflowRef.current);
 
       // Force a render of the scene
       renderer.render(scene, camera);
@@ -3280,7 +3689,7 @@ function App() {
       if (!overlay) return;
       overlay.innerHTML = '';
       connectedUsers.forEach(user => {
-        if (user.id === getSocket()?.id) return; // Don't show your own cursor
+        if (user.id === getCurrentUserId()) return; // Don't show your own cursor
         const cursorMesh = remoteCursorsRef.current.get(user.id);
         if (cursorMesh && rendererRef.current && cameraRef.current) {
           // Project 3D position to 2D screen
@@ -3304,7 +3713,7 @@ function App() {
           dot.style.width = '14px';
           dot.style.height = '14px';
           dot.style.borderRadius = '50%';
-          dot.style.background = user.color;
+          dot.style.background = user.avatarUrl ? `center / cover url("${user.avatarUrl}")` : user.color;
           dot.style.border = '2px solid #fff';
           dot.style.boxShadow = `0 0 6px ${user.color}`;
           dot.style.opacity = '0.95';
@@ -3370,9 +3779,24 @@ function App() {
     console.log('[handleExit3DMode] Transition to 2D mode initiated');
   };
 
+  const accountLinkDialog = accountLink && (
+    <AccountLinkDialog
+      link={accountLink}
+      onClose={() => {
+        clearAccountLink();
+        setAccountLink(null);
+      }}
+    />
+  );
+
   // Main return statement
   if (showLandingPage) {
-    return <LandingPage onEnterApp={handleEnterApp} />;
+    return (
+      <>
+        <LandingPage onEnterApp={handleEnterApp} />
+        {accountLinkDialog}
+      </>
+    );
   }
 
   // 3D Mode
@@ -3419,11 +3843,21 @@ function App() {
         <PropertiesPanel
           selectedObject={currentSelectedObjectForPanel}
           socket={getSocket()}
+          role={boardRole}
+          workflow={workflow}
           onPropertyUpdate={(property, value, oldValue) => {
             if (currentSelectedObjectForPanel?.userData?.sharedId) {
               handlePropertyUpdateFromPanel(currentSelectedObjectForPanel.userData.sharedId, property, value, oldValue);
             }
           }}
+          onTextEdit={(edit) => {
+            if (currentSelectedObjectForPanel?.userData?.sharedId) {
+              handleTextEditFromPanel(currentSelectedObjectForPanel.userData.sharedId, edit);
+            }
+          }}
+          tasks={linkedTasks(interactiveObjects.current)}
+          onBlockedByChange={(objectId, blockedBy, oldBlockedBy) =>
+            handlePropertyUpdateFromPanel(objectId, 'taskBlockedBy', blockedBy, oldBlockedBy)}
         />
       )}
       <div style={{
@@ -3439,8 +3873,8 @@ function App() {
         gap: '10px'
       }}>
         <div>
-          <button onClick={handleUndo} disabled={!canUndo}>Undo</button>
-          <button onClick={handleRedo} disabled={!canRedo}>Redo</button>
+          <button onClick={handleUndo} disabled={!canUndo || !hasRole(boardRole, 'editor')}>Undo</button>
+          <button onClick={handleRedo} disabled={!canRedo || !hasRole(boardRole, 'editor')}>Redo</button>
           <button
             onClick={() => {
               // Make sure socket is initialized before entering 3D mode
@@ -3462,24 +3896,71 @@ function App() {
             Enter 3D Mode
           </button>
         </div>
+        <ProfilePanel />
+        <div>
+          <h4>Board:</h4>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <select
+              value={currentBoardId}
+              onChange={(e) => navigateToBoard(e.target.value)}
+              style={{ flex: 1 }}
+            >
+              {!boards.some(board => board.id === currentBoardId) && (
+                <option value={currentBoardId}>{currentBoardId}</option>
+              )}
+              {boards.map(board => (
+                <option key={board.id} value={board.id}>{board.name || board.id}</option>
+              ))}
+            </select>
+            <button onClick={handleCreateBoard}>New Board</button>
+            <button
+              onClick={() => navigator.clipboard?.writeText(getBoardUrl(currentBoardId))}
+              title="Copy a link to this board"
+            >
+              Copy Link
+            </button>
+          </div>
+          {boardRole && (
+            <BoardMembersPanel socket={getSocket()} boardId={currentBoardId} role={boardRole} />
+          )}
+          {boardRole === 'owner' && (
+            <WorkflowPanel socket={getSocket()} workflow={workflow} wipPolicy={wipPolicy} swimlanes={swimlanes} />
+          )}
+          {(!isConnected || pendingOfflineEdits > 0) && (
+            <p style={{ margin: '6px 0 0', fontSize: 12, color: '#b36b00' }}>
+              {isConnected ? 'Syncing' : 'Offline'}
+              {pendingOfflineEdits > 0 && ` - ${pendingOfflineEdits} ${pendingOfflineEdits === 1 ? 'edit' : 'edits'} waiting to sync`}
+            </p>
+          )}
+        </div>
         <div>
           <h4>Connected Users:</h4>
           {connectedUsers.length > 0 ? (
             <ul>
               {connectedUsers.map(user => (
                 <li key={user.id} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
-                  <span style={{
-                    display: 'inline-block',
-                    width: 14,
-                    height: 14,
-                    borderRadius: '50%',
-                    background: user.color,
-                    border: '1px solid #888',
-                    marginRight: 4
-                  }} />
-                  <span style={{ fontWeight: user.id === getSocket()?.id ? 'bold' : 'normal', color: user.id === getSocket()?.id ? '#007bff' : '#222' }}>
-                    {user.id === getSocket()?.id ?
-                      `You (${authState.user?.username || 'Guest'})` :
+                  {user.avatarUrl ? (
+                    <img src={user.avatarUrl} alt="" style={{
+                      width: 20,
+                      height: 20,
+                      borderRadius: '50%',
+                      border: `2px solid ${user.color}`,
+                      marginRight: 4
+                    }} />
+                  ) : (
+                    <span style={{
+                      display: 'inline-block',
+                      width: 14,
+                      height: 14,
+                      borderRadius: '50%',
+                      background: user.color,
+                      border: '1px solid #888',
+                      marginRight: 4
+                    }} />
+                  )}
+                  <span style={{ fontWeight: user.id === selfUserId ? 'bold' : 'normal', color: user.id === selfUserId ? '#007bff' : '#222' }}>
+                    {user.id === selfUserId ?
+                      `You (${user.username || 'Guest'})` :
                       (user.username || `Guest-${user.id.substring(0, 5)}`)}
                   </span>
                   {/* Collaborative cursor indicator */}
@@ -3488,21 +3969,21 @@ function App() {
                     width: 10,
                     height: 10,
                     borderRadius: '50%',
-                    background: user.id === getSocket()?.id ? '#007bff' : user.color,
+                    background: user.id === selfUserId ? '#007bff' : user.color,
                     marginLeft: 4,
                     opacity: 0.7,
-                    border: user.id === getSocket()?.id ? '2px solid #007bff' : '1px solid #888',
-                    boxShadow: user.id !== getSocket()?.id ? '0 0 4px ' + user.color : 'none',
+                    border: user.id === selfUserId ? '2px solid #007bff' : '1px solid #888',
+                    boxShadow: user.id !== selfUserId ? '0 0 4px ' + user.color : 'none',
                     transition: 'background 0.2s, box-shadow 0.2s'
                   }} />
                   {/* Real-time presence indicator */}
                   <span style={{
                     marginLeft: 4,
-                    color: user.id === getSocket()?.id ? '#007bff' : '#28a745',
+                    color: user.id === selfUserId ? '#007bff' : '#28a745',
                     fontSize: 12,
                     fontWeight: 600
                   }}>
-                    {user.id === getSocket()?.id ? 'Online (You)' : 'Online'}
+                    {user.id === selfUserId ? 'Online (You)' : 'Online'}
                   </span>
                 </li>
               ))}
@@ -3511,9 +3992,10 @@ function App() {
             <p>No other users connected.</p>
           )}
         </div>
-        {/* Advanced: Toast/notification area */}
-        <div id="toast-root" style={{ position: 'fixed', bottom: 24, left: 24, zIndex: 2000 }}></div>
+        {/* Toasts, e.g. offline edits that clashed with someone else's changes */}
+        <NotificationManager position="bottom-left" />
       </div>
+      {accountLinkDialog}
       {/* Advanced: Confetti canvas (optional, for confetti libraries) */}
       <canvas id="confetti-canvas" style={{ position: 'fixed', pointerEvents: 'none', top: 0, left: 0, width: '100vw', height: '100vh', zIndex: 3000 }} />
       {/* Collaborative cursors overlay */}
@@ -4,28 +4,12 @@ import { Text, Html, PositionalAudio } from '@react-three/drei';
 import { Vector3 } from 'three';
 import { animate, utils } from 'animejs';
 import { socket } from '../../services/socket';
+import { validated } from '../../utils/eventSchemas';
+import type { ChatMessage, User3D } from '../../types/socketEvents';
 import { useAuth } from '../../context/AuthContext';
 import './ThreeDChatRoom.css';
 
 // Types
-interface ChatMessage {
-  id: string;
-  sender: string;
-  content: string;
-  timestamp: number;
-  position: [number, number, number];
-  color: string;
-}
-
-interface User3D {
-  id: string;
-  username: string;
-  position: [number, number, number];
-  color: string;
-  speaking: boolean;
-}
-
-// Message Bubble Component
 interface MessageBubbleProps {
   message: ChatMessage;
 }
@@ -237,30 +221,21 @@ const ThreeDChatRoom: React.FC = () => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [users, setUsers] = useState<User3D[]>([]);
   const [inputMessage, setInputMessage] = useState('');
-  const [currentUserPosition, setCurrentUserPosition] = useState<[number, number, number]>([0, 0, 0]);
 
   useEffect(() => {
     // Listen for new messages
-    socket.on('chat-message', (message: ChatMessage) => {
+    socket.on('chat-message', validated('chat-message', (message: ChatMessage) => {
       setMessages(prev => [...prev, message]);
-    });
+    }));
 
     // Listen for user updates
-    socket.on('users-update', (connectedUsers: User3D[]) => {
+    socket.on('users-update', validated('users-update', (connectedUsers: User3D[]) => {
       setUsers(connectedUsers);
-    });
+    }));
 
-    // Initialize current user
+    // Initialize current user; the server knows who we are
     if (user) {
-      const currentUser: User3D = {
-        id: user.id,
-        username: user.username,
-        position: [0, 0, 0],
-        color: user.color || '#61dafb',
-        speaking: false
-      };
-
-      socket.emit('user-joined', currentUser);
+      socket.emit('user-joined', { position: [0, 0, 0], speaking: false });
     }
 
     return () => {
@@ -272,25 +247,14 @@ const ThreeDChatRoom: React.FC = () => {
   const handleSendMessage = () => {
     if (!inputMessage.trim() || !user) return;
 
-    const newMessage: ChatMessage = {
-      id: `msg-${Date.now()}`,
-      sender: user.username,
-      content: inputMessage,
-      timestamp: Date.now(),
-      position: [currentUserPosition[0], currentUserPosition[1] + 1, currentUserPosition[2]],
-      color: user.color || '#61dafb'
-    };
-
-    // Emit message to server
-    socket.emit('chat-message', newMessage);
+    // Emit message to server, which signs it and places it above our avatar
+    socket.emit('chat-message', { content: inputMessage });
 
     // Clear input
     setInputMessage('');
   };
 
   const handleUserMove = (position: [number, number, number]) => {
-    setCurrentUserPosition(position);
-
     // Emit position update
     if (user) {
       socket.emit('user-move', {
@@ -4,27 +4,11 @@ import { Text, Html, useCursor } from '@react-three/drei';
 import { Vector3 } from 'three';
 import { animate, utils } from 'animejs';
 import { socket } from '../../services/socket';
+import { validated } from '../../utils/eventSchemas';
+import type { KanbanCard, KanbanColumn } from '../../types/socketEvents';
 import './ThreeDKanban.css';
 
 // Types
-interface KanbanCard {
-  id: string;
-  title: string;
-  description: string;
-  status: string;
-  assignee?: string;
-  color: string;
-  position: [number, number, number];
-}
-
-interface KanbanColumn {
-  id: string;
-  title: string;
-  position: [number, number, number];
-  cards: KanbanCard[];
-}
-
-// Card Component
 interface CardProps {
   card: KanbanCard;
   onDragStart: (card: KanbanCard) => void;
@@ -282,9 +266,9 @@ const ThreeDKanban: React.FC = () => {
   
   useEffect(() => {
     // Listen for board updates from other users
-    socket.on('kanban-update', (updatedColumns) => {
+    socket.on('kanban-update', validated('kanban-update', (updatedColumns) => {
       setColumns(updatedColumns);
-    });
+    }));
     
     return () => {
       socket.off('kanban-update');
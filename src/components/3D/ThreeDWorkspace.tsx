@@ -5,17 +5,19 @@ import { Vector3, Euler } from 'three';
 import { animate } from 'animejs';
 import { useAuth } from '../../context/AuthContext';
 import { socket } from '../../services/socket';
+import { validated } from '../../utils/eventSchemas';
+import type { User3D } from '../../types/socketEvents';
 
 // 3D Workspace component
 const ThreeDWorkspace: React.FC = () => {
   const { user } = useAuth();
-  const [users, setUsers] = useState<any[]>([]);
+  const [users, setUsers] = useState<User3D[]>([]);
 
   useEffect(() => {
     // Listen for user updates
-    socket.on('users-update', (connectedUsers) => {
+    socket.on('users-update', validated('users-update', (connectedUsers) => {
       setUsers(connectedUsers);
-    });
+    }));
 
     return () => {
       socket.off('users-update');
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+import type { AccountLink } from '../services/boardRoute';
+import './AuthForm.css';
+
+interface AccountLinkDialogProps {
+  link: AccountLink;
+  onClose: () => void;
+}
+
+/**
+ * Shown over the app when it is opened from a link the server mailed: confirms the email address, or
+ * asks for a new password. Works signed in or not. Each link works once, so nothing is sent until the
+ * user confirms.
+ */
+const AccountLinkDialog: React.FC<AccountLinkDialogProps> = ({ link, onClose }) => {
+  const { verifyEmail, resetPassword } = useAuth();
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [done, setDone] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isReset = link.purpose === 'reset-password';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isReset && newPassword !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    setIsSubmitting(true);
+    const request = isReset
+      ? resetPassword(link.token, newPassword).then(() => 'Your password has been changed. Log in with the new one.')
+      : verifyEmail(link.token).then(() => 'Thanks, your email address is confirmed.');
+    request
+      .then(message => {
+        setDone(message);
+        setError(null);
+      })
+      .catch((requestError: Error) => setError(requestError.message))
+      .finally(() => setIsSubmitting(false));
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(0, 0, 0, 0.6)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        zIndex: 10000
+      }}
+    >
+      <div className="auth-form-box" style={{ maxWidth: 360 }}>
+        <h2>{isReset ? 'Choose a new password' : 'Confirm your email address'}</h2>
+
+        {error && <div className="auth-error">{error}</div>}
+
+        {done ? (
+          <p className="auth-notice">{done}</p>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            {isReset && (
+              <>
+                <div className="form-group">
+                  <label htmlFor="reset-password">New Password</label>
+                  <div className="input-with-icon">
+                    <i className="password-icon">🔒</i>
+                    <input
+                      type="password"
+                      id="reset-password"
+                      value={newPassword}
+                      onChange={(e) => setNewPassword(e.target.value)}
+                      placeholder="Enter a new password"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="form-group">
+                  <label htmlFor="reset-confirm-password">Confirm Password</label>
+                  <div className="input-with-icon">
+                    <i className="password-icon">🔒</i>
+                    <input
+                      type="password"
+                      id="reset-confirm-password"
+                      value={confirmPassword}
+                      onChange={(e) => setConfirmPassword(e.target.value)}
+                      placeholder="Confirm the new password"
+                      required
+                    />
+                  </div>
+                </div>
+              </>
+            )}
+            <button type="submit" className="auth-submit-btn" disabled={isSubmitting}>
+              <span className="btn-text">{isReset ? 'Change password' : 'Confirm my email address'}</span>
+            </button>
+          </form>
+        )}
+
+        <div className="auth-switch">
+          <p onClick={onClose}>{done ? 'Continue' : 'Cancel'}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountLinkDialog;
@@ -8,18 +8,48 @@ interface AuthFormProps {
   onRegister: (username: string, email: string, password: string, color: string) => void;
   isLoading: boolean;
   error?: string;
+  lockedUntil?: number; // Time (ms) until which the server refuses logins after too many failures
+  secondFactorRequired?: boolean; // The password was right; ask for the two-factor code instead
+  onSecondFactor?: (code: string) => void;
+  onCancelSecondFactor?: () => void;
+  onRequestPasswordReset?: (email: string) => Promise<void>;
 }
 
-const AuthForm: React.FC<AuthFormProps> = ({ onLogin, onRegister, isLoading, error }) => {
+const AuthForm: React.FC<AuthFormProps> = ({
+  onLogin,
+  onRegister,
+  isLoading,
+  error,
+  lockedUntil,
+  secondFactorRequired,
+  onSecondFactor,
+  onCancelSecondFactor,
+  onRequestPasswordReset
+}) => {
   const [isLoginMode, setIsLoginMode] = useState(true);
   const [username, setUsername] = useState('');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [avatarColor, setAvatarColor] = useState('#3498db');
+  const [lockSecondsLeft, setLockSecondsLeft] = useState(0);
+  const [code, setCode] = useState('');
+  const [isResetMode, setIsResetMode] = useState(false); // Asking for a password reset link
+  const [resetNotice, setResetNotice] = useState<string | null>(null);
+  const [resetError, setResetError] = useState<string | null>(null);
   const formRef = useRef<HTMLDivElement>(null);
   const submitBtnRef = useRef<HTMLButtonElement>(null);
 
+  // Count down a lockout so the user can see when to try again
+  useEffect(() => {
+    const update = () => setLockSecondsLeft(lockedUntil ? Math.max(Math.ceil((lockedUntil - Date.now()) / 1000), 0) : 0);
+    update();
+    if (!lockedUntil) return;
+    const timer = setInterval(update, 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+  const isLockedOut = isLoginMode && lockSecondsLeft > 0;
+
   // Button hover animation
   const animateButton = (e: React.MouseEvent<HTMLButtonElement>) => {
     if (isLoading) return;
@@ -73,12 +103,144 @@ const AuthForm: React.FC<AuthFormProps> = ({ onLogin, onRegister, isLoading, err
     setIsLoginMode((prevMode) => !prevMode);
   };
 
+  const handleSecondFactorSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSecondFactor?.(code.trim());
+  };
+
+  const handleResetSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onRequestPasswordReset?.(email.trim())
+      .then(() => {
+        setResetNotice('If an account uses that email address, a link to reset its password is on its way.');
+        setResetError(null);
+      })
+      .catch((error: Error) => setResetError(error.message));
+  };
+
+  const leaveResetMode = () => {
+    setIsResetMode(false);
+    setResetNotice(null);
+    setResetError(null);
+  };
+
+  if (isLoginMode && isResetMode) {
+    return (
+      <div className="auth-form-container">
+        <div className="auth-form-box" ref={formRef}>
+          <h2>Reset password</h2>
+
+          {resetError && <div className="auth-error">{resetError}</div>}
+          {resetNotice && <div className="auth-notice">{resetNotice}</div>}
+
+          <form onSubmit={handleResetSubmit}>
+            <div className="form-group">
+              <label htmlFor="reset-email">Email</label>
+              <div className="input-with-icon">
+                <i className="email-icon">✉️</i>
+                <input
+                  type="email"
+                  id="reset-email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="The email address of your account"
+                  required
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              className="auth-submit-btn"
+              onMouseEnter={animateButton}
+              onMouseLeave={resetButton}
+            >
+              <span className="btn-icon">✉️</span>
+              <span className="btn-text">Send reset link</span>
+            </button>
+          </form>
+
+          <div className="auth-switch">
+            <p onClick={leaveResetMode}>Back to login</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isLoginMode && secondFactorRequired) {
+    return (
+      <div className="auth-form-container">
+        <div className="auth-form-box" ref={formRef}>
+          <h2>Two-factor authentication</h2>
+
+          {isLockedOut ? (
+            <div className="auth-error">Too many failed login attempts. Try again in {lockSecondsLeft} s.</div>
+          ) : (
+            error && <div className="auth-error">{error}</div>
+          )}
+
+          <form onSubmit={handleSecondFactorSubmit}>
+            <div className="form-group">
+              <label htmlFor="two-factor-code">Enter the 6-digit code from your authenticator app, or a backup code</label>
+              <div className="input-with-icon">
+                <i className="password-icon">🔑</i>
+                <input
+                  type="text"
+                  id="two-factor-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                />
+              </div>
+            </div>
+
+            <button
+              type="submit"
+              className="auth-submit-btn"
+              disabled={isLoading || isLockedOut}
+              onMouseEnter={animateButton}
+              onMouseLeave={resetButton}
+            >
+              {isLoading ? (
+                <LoadingAnimation type="dots" size="small" color="#ffffff" />
+              ) : (
+                <>
+                  <span className="btn-icon">🚀</span>
+                  <span className="btn-text">Verify</span>
+                </>
+              )}
+            </button>
+          </form>
+
+          <div className="auth-switch">
+            <p
+              onClick={() => {
+                setCode('');
+                onCancelSecondFactor?.();
+              }}
+            >
+              Back to login
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="auth-form-container">
       <div className="auth-form-box" ref={formRef}>
         <h2>{isLoginMode ? 'Login' : 'Register'}</h2>
 
-        {error && <div className="auth-error">{error}</div>}
+        {isLockedOut ? (
+          <div className="auth-error">Too many failed login attempts. Try again in {lockSecondsLeft} s.</div>
+        ) : (
+          error && <div className="auth-error">{error}</div>
+        )}
 
         <form onSubmit={handleSubmit}>
           <div className="form-group">
@@ -163,7 +325,7 @@ const AuthForm: React.FC<AuthFormProps> = ({ onLogin, onRegister, isLoading, err
           <button
             type="submit"
             className="auth-submit-btn"
-            disabled={isLoading}
+            disabled={isLoading || isLockedOut}
             ref={submitBtnRef}
             onMouseEnter={animateButton}
             onMouseLeave={resetButton}
@@ -185,6 +347,9 @@ const AuthForm: React.FC<AuthFormProps> = ({ onLogin, onRegister, isLoading, err
               ? "Don't have an account? Register"
               : "Already have an account? Login"}
           </p>
+          {isLoginMode && onRequestPasswordReset && (
+            <p onClick={() => setIsResetMode(true)}>Forgot your password?</p>
+          )}
         </div>
       </div>
     </div>
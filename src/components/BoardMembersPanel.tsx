@@ -0,0 +1,200 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { AppSocket, BoardInvite, BoardMember, BoardMembersResponse, BoardRole, InvitesResponse } from '../types/socketEvents';
+import { BOARD_ROLES, hasRole } from '../utils/boardRoles';
+import { getCurrentUserId } from '../services/socket';
+import { getInviteUrl } from '../services/boardRoute';
+
+interface BoardMembersPanelProps {
+  socket: AppSocket | null;
+  boardId: string;
+  role: BoardRole; // Our role; only owners can change the members
+}
+
+// Expiry choices for new invite links, in hours (0: never)
+const INVITE_EXPIRY_OPTIONS = [
+  { hours: 0, label: 'Never expires' },
+  { hours: 1, label: '1 hour' },
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '7 days' }
+];
+
+const describeInvite = (invite: BoardInvite) => {
+  if (invite.public) return 'Public read-only link';
+  const limits = [
+    invite.expiresAt && `until ${new Date(invite.expiresAt).toLocaleString()}`,
+    invite.maxUses && `${invite.uses}/${invite.maxUses} uses`
+  ].filter(Boolean);
+  return `${invite.role} invite${limits.length > 0 ? ` (${limits.join(', ')})` : ''}`;
+};
+
+/**
+ * Who can do what on the current board. Collapsed to a button until opened; owners can add members
+ * by username, change their roles and remove them, and create and revoke invite links.
+ */
+const BoardMembersPanel: React.FC<BoardMembersPanelProps> = ({ socket, boardId, role }) => {
+  const [open, setOpen] = useState(false);
+  const [members, setMembers] = useState<BoardMember[]>([]);
+  const [newMemberName, setNewMemberName] = useState('');
+  const [newMemberRole, setNewMemberRole] = useState<BoardRole>('editor');
+  const [error, setError] = useState<string | null>(null);
+  const [invites, setInvites] = useState<BoardInvite[]>([]);
+  const [inviteRole, setInviteRole] = useState<BoardRole>('editor');
+  const [inviteExpiryHours, setInviteExpiryHours] = useState(0);
+  const [inviteMaxUses, setInviteMaxUses] = useState('');
+  const [newInviteUrl, setNewInviteUrl] = useState<string | null>(null);
+  const isOwner = hasRole(role, 'owner');
+
+  const handleResponse = useCallback((response: BoardMembersResponse) => {
+    if (response.success && response.members) {
+      setMembers(response.members);
+      setError(null);
+    } else {
+      setError(response.error || 'Could not update the members');
+    }
+  }, []);
+
+  const handleInvitesResponse = useCallback((response: InvitesResponse) => {
+    if (response.success && response.invites) {
+      setInvites(response.invites);
+      setError(null);
+    } else {
+      setError(response.error || 'Could not update the invite links');
+    }
+    if (response.token) setNewInviteUrl(getInviteUrl(response.token));
+  }, []);
+
+  // Reload whenever the panel is opened or we switch boards while it is open
+  useEffect(() => {
+    if (!open || !socket) return;
+    socket.emit('list-board-members', handleResponse);
+    setNewInviteUrl(null);
+    if (isOwner) {
+      socket.emit('list-invites', handleInvitesResponse);
+    } else {
+      setInvites([]);
+    }
+  }, [open, socket, boardId, isOwner, handleResponse, handleInvitesResponse]);
+
+  const setMember = (member: { userId?: string; username?: string }, memberRole: BoardRole | null) => {
+    socket?.emit('set-board-member', { ...member, role: memberRole }, handleResponse);
+  };
+
+  const handleAddMember = () => {
+    const username = newMemberName.trim();
+    if (!username) return;
+    setMember({ username }, newMemberRole);
+    setNewMemberName('');
+  };
+
+  const createInvite = (isPublic: boolean) => {
+    const maxUses = parseInt(inviteMaxUses, 10);
+    socket?.emit('create-invite', {
+      role: isPublic ? 'viewer' : inviteRole,
+      expiresInHours: !isPublic && inviteExpiryHours > 0 ? inviteExpiryHours : undefined,
+      maxUses: !isPublic && maxUses > 0 ? maxUses : undefined,
+      public: isPublic
+    }, handleInvitesResponse);
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} style={{ marginTop: 6 }}>
+        Members ({role})
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 6, fontSize: 13 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <strong>Members</strong>
+        <button onClick={() => setOpen(false)} title="Hide members">&times;</button>
+      </div>
+      {members.length === 0 && <p style={{ margin: '4px 0', color: '#666' }}>No members; the board is open to everyone.</p>}
+      <ul style={{ listStyle: 'none', padding: 0, margin: '4px 0' }}>
+        {members.map(member => (
+          <li key={member.userId} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+            <span style={{ flex: 1 }}>
+              {member.username || `Guest-${member.userId.substring(6, 11)}`}
+              {member.userId === getCurrentUserId() && ' (You)'}
+            </span>
+            {isOwner ? (
+              <>
+                <select value={member.role} onChange={(e) => setMember({ userId: member.userId }, e.target.value as BoardRole)}>
+                  {BOARD_ROLES.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+                <button onClick={() => setMember({ userId: member.userId }, null)} title="Remove from the board">&times;</button>
+              </>
+            ) : (
+              <span style={{ color: '#666' }}>{member.role}</span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {isOwner && (
+        <div style={{ display: 'flex', gap: 4 }}>
+          <input
+            type="text"
+            value={newMemberName}
+            onChange={(e) => setNewMemberName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddMember()}
+            placeholder="Username"
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <select value={newMemberRole} onChange={(e) => setNewMemberRole(e.target.value as BoardRole)}>
+            {BOARD_ROLES.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+          <button onClick={handleAddMember}>Add</button>
+        </div>
+      )}
+      {isOwner && (
+        <div style={{ marginTop: 8 }}>
+          <strong>Invite links</strong>
+          <ul style={{ listStyle: 'none', padding: 0, margin: '4px 0' }}>
+            {invites.map(invite => (
+              <li key={invite.id} style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 4 }}>
+                <span style={{ flex: 1 }}>{describeInvite(invite)}</span>
+                <button
+                  onClick={() => socket?.emit('revoke-invite', { inviteId: invite.id }, handleInvitesResponse)}
+                  title="Revoke this link"
+                >
+                  &times;
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
+            <select value={inviteRole} onChange={(e) => setInviteRole(e.target.value as BoardRole)}>
+              {BOARD_ROLES.map(option => <option key={option} value={option}>{option}</option>)}
+            </select>
+            <select value={inviteExpiryHours} onChange={(e) => setInviteExpiryHours(Number(e.target.value))}>
+              {INVITE_EXPIRY_OPTIONS.map(option => <option key={option.hours} value={option.hours}>{option.label}</option>)}
+            </select>
+            <input
+              type="number"
+              min={1}
+              value={inviteMaxUses}
+              onChange={(e) => setInviteMaxUses(e.target.value)}
+              placeholder="Any number of uses"
+              style={{ width: 130 }}
+            />
+            <button onClick={() => createInvite(false)}>Create invite link</button>
+            {!invites.some(invite => invite.public) && (
+              <button onClick={() => createInvite(true)}>Create public read-only link</button>
+            )}
+          </div>
+          {newInviteUrl && (
+            <div style={{ display: 'flex', gap: 4, marginTop: 4 }}>
+              <input type="text" readOnly value={newInviteUrl} onFocus={(e) => e.target.select()} style={{ flex: 1, minWidth: 0 }} />
+              <button onClick={() => navigator.clipboard?.writeText(newInviteUrl)}>Copy</button>
+            </div>
+          )}
+          {newInviteUrl && <p style={{ margin: '2px 0 0', color: '#666' }}>Copy it now; it won't be shown again.</p>}
+        </div>
+      )}
+      {error && <p style={{ margin: '4px 0 0', color: '#c0392b' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default BoardMembersPanel;
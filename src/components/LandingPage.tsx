@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../context/AuthContext';
+import { LoginError } from '../services/AuthService';
 import AuthForm from './AuthForm';
 import AnimatedBackground from './AnimatedBackground';
 import ParticlesAnimation from './ParticlesAnimation';
@@ -19,8 +20,10 @@ interface LandingPageProps {
 }
 
 const LandingPage: React.FC<LandingPageProps> = ({ onEnterApp }) => {
-  const { authState, login, register, mockLogin, initializeSocket } = useAuth();
+  const { authState, login, loginSecondFactor, register, requestPasswordReset, mockLogin, initializeSocket } = useAuth();
   const [error, setError] = useState<string | undefined>(undefined);
+  const [lockedUntil, setLockedUntil] = useState<number | undefined>(undefined); // After too many failed logins
+  const [loginChallenge, setLoginChallenge] = useState<string | null>(null); // Waiting for a two-factor code
   const headerRef = useRef<HTMLDivElement>(null);
   const authSectionRef = useRef<HTMLDivElement>(null);
   const titleRef = useRef<HTMLHeadingElement>(null);
@@ -162,6 +165,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onEnterApp }) => {
       });
 
       await login(username, password);
+      setLockedUntil(undefined);
 
       // Exit animation using page transition hook
       if (pageRef.current) {
@@ -169,18 +173,49 @@ const LandingPage: React.FC<LandingPageProps> = ({ onEnterApp }) => {
         onEnterApp();
       }
     } catch (error) {
-      // Error animation
-      animate('.auth-error', {
-        translateX: [0, -10, 10, -10, 10, 0],
-        duration: 600,
-        easing: 'easeInOutQuad'
-      });
+      // The password was right; the form asks for the code next
+      if (error instanceof LoginError && error.code === 'second-factor-required' && error.challenge) {
+        setLoginChallenge(error.challenge);
+        setError(undefined);
+        return;
+      }
+      showLoginError(error);
+    }
+  };
 
-      if (error instanceof Error) {
-        setError(error.message);
-      } else {
-        setError('Login failed. Please try again.');
+  const handleSecondFactor = async (code: string) => {
+    if (!loginChallenge) return;
+    try {
+      await loginSecondFactor(loginChallenge, code);
+      setLoginChallenge(null);
+      setLockedUntil(undefined);
+
+      if (pageRef.current) {
+        await animateExit(pageRef.current);
+        onEnterApp();
       }
+    } catch (error) {
+      // Anything but a wrong code means starting the login over
+      if (!(error instanceof LoginError && error.code === 'invalid-code')) setLoginChallenge(null);
+      showLoginError(error);
+    }
+  };
+
+  const showLoginError = (error: unknown) => {
+    // Error animation
+    animate('.auth-error', {
+      translateX: [0, -10, 10, -10, 10, 0],
+      duration: 600,
+      easing: 'easeInOutQuad'
+    });
+
+    if (error instanceof LoginError && error.code === 'locked-out' && error.retryAfter) {
+      setLockedUntil(Date.now() + error.retryAfter * 1000);
+    }
+    if (error instanceof Error) {
+      setError(error.message);
+    } else {
+      setError('Login failed. Please try again.');
     }
   };
 
@@ -307,7 +342,15 @@ const LandingPage: React.FC<LandingPageProps> = ({ onEnterApp }) => {
               onLogin={handleLogin}
               onRegister={handleRegister}
               isLoading={authState.loading}
-              error={error}
+              error={error ?? authState.error ?? undefined}
+              lockedUntil={lockedUntil}
+              secondFactorRequired={loginChallenge !== null}
+              onSecondFactor={handleSecondFactor}
+              onCancelSecondFactor={() => {
+                setLoginChallenge(null);
+                setError(undefined);
+              }}
+              onRequestPasswordReset={requestPasswordReset}
             />
 
             <div className="guest-login-container">
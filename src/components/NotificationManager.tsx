@@ -13,23 +13,24 @@ interface NotificationManagerProps {
   maxNotifications?: number;
 }
 
-export const useNotification = () => {
-  // This will be injected by the NotificationContext later if needed
-  const addNotification = (message: string, type: 'success' | 'error' | 'info' | 'warning', duration: number = 3000) => {
-    const event = new CustomEvent('add-notification', { 
-      detail: { message, type, duration, id: Date.now().toString() } 
-    });
-    window.dispatchEvent(event);
-  };
+// Notifications travel to the mounted NotificationManager as window events, so this needs no context
+const addNotification = (message: string, type: 'success' | 'error' | 'info' | 'warning', duration: number = 3000) => {
+  const event = new CustomEvent('add-notification', {
+    detail: { message, type, duration, id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}` }
+  });
+  window.dispatchEvent(event);
+};
 
-  return {
-    success: (message: string, duration?: number) => addNotification(message, 'success', duration),
-    error: (message: string, duration?: number) => addNotification(message, 'error', duration),
-    info: (message: string, duration?: number) => addNotification(message, 'info', duration),
-    warning: (message: string, duration?: number) => addNotification(message, 'warning', duration)
-  };
+const notifications = {
+  success: (message: string, duration?: number) => addNotification(message, 'success', duration),
+  error: (message: string, duration?: number) => addNotification(message, 'error', duration),
+  info: (message: string, duration?: number) => addNotification(message, 'info', duration),
+  warning: (message: string, duration?: number) => addNotification(message, 'warning', duration)
 };
 
+// Returns the same object on every render, so it is safe to use in hook dependencies
+export const useNotification = () => notifications;
+
 const NotificationManager: React.FC<NotificationManagerProps> = ({
   position = 'bottom-left',
   maxNotifications = 5
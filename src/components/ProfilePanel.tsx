@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import { useAuth } from '../context/AuthContext';
+
+// Avatars are scaled down to this many pixels square before they are sent, so they stay small
+// enough to travel with every user list
+const AVATAR_SIZE = 96;
+
+// Scale and crop an image file to a square JPEG data: URL
+const toAvatarUrl = async (file: File): Promise<string> => {
+  const image = await createImageBitmap(file);
+  const side = Math.min(image.width, image.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = AVATAR_SIZE;
+  canvas.height = AVATAR_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not read the image');
+  context.fillStyle = '#ffffff'; // JPEG has no transparency
+  context.fillRect(0, 0, AVATAR_SIZE, AVATAR_SIZE);
+  context.drawImage(image, (image.width - side) / 2, (image.height - side) / 2, side, side, 0, 0, AVATAR_SIZE, AVATAR_SIZE);
+  image.close();
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+// Guests get a form to register instead, which keeps everything they did as a guest
+const UpgradeAccountForm: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { authState, upgradeAccount } = useAuth();
+  const [username, setUsername] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+    upgradeAccount(username.trim(), email.trim(), password, authState.user?.color)
+      .catch((upgradeError: Error) => setError(upgradeError.message));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} style={{ marginTop: 6, fontSize: 13, display: 'flex', flexDirection: 'column', gap: 4 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <strong>Create an account</strong>
+        <button type="button" onClick={onClose} title="Hide">&times;</button>
+      </div>
+      <p style={{ margin: 0, color: '#666' }}>Your tasks, comments and board access move to the new account.</p>
+      <input type="text" value={username} onChange={(e) => setUsername(e.target.value)} placeholder="Username" required />
+      <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="Email" required />
+      <input type="password" value={password} onChange={(e) => setPassword(e.target.value)} placeholder="Password" required />
+      <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="Confirm password" required />
+      <button type="submit">Create account</button>
+      {error && <p style={{ margin: '4px 0 0', color: '#c0392b' }}>{error}</p>}
+    </form>
+  );
+};
+
+// Turning two-factor authentication on (set up the authenticator app, prove it with a code, note the
+// backup codes) and off again
+const TwoFactorSection: React.FC<{ enabled: boolean }> = ({ enabled }) => {
+  const { setupTwoFactor, enableTwoFactor, disableTwoFactor } = useAuth();
+  const [setup, setSetup] = useState<{ secret: string; otpauthUri: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSetup = () => {
+    setupTwoFactor()
+      .then(response => {
+        if (response.secret && response.otpauthUri) setSetup({ secret: response.secret, otpauthUri: response.otpauthUri });
+        setError(null);
+      })
+      .catch((setupError: Error) => setError(setupError.message));
+  };
+
+  const handleEnable = () => {
+    enableTwoFactor(code.trim())
+      .then(codes => {
+        setBackupCodes(codes);
+        setSetup(null);
+        setCode('');
+        setError(null);
+      })
+      .catch((enableError: Error) => setError(enableError.message));
+  };
+
+  const handleDisable = () => {
+    disableTwoFactor(code.trim())
+      .then(() => {
+        setBackupCodes([]);
+        setCode('');
+        setError(null);
+      })
+      .catch((disableError: Error) => setError(disableError.message));
+  };
+
+  const codeInput = (
+    <input
+      type="text"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      placeholder={enabled ? 'Code or backup code' : '6-digit code'}
+      autoComplete="one-time-code"
+      style={{ flex: 1, minWidth: 0 }}
+    />
+  );
+
+  return (
+    <>
+      <strong style={{ marginTop: 6 }}>Two-factor authentication</strong>
+      {backupCodes.length > 0 && (
+        <div>
+          <p style={{ margin: 0, color: '#666' }}>
+            Keep these backup codes somewhere safe. Each one logs you in once if you lose your authenticator app;
+            they won't be shown again.
+          </p>
+          <pre style={{ margin: '4px 0', userSelect: 'all' }}>{backupCodes.join('\n')}</pre>
+          <button onClick={() => setBackupCodes([])}>Done</button>
+        </div>
+      )}
+      {enabled ? (
+        <div style={{ display: 'flex', gap: 4 }}>
+          {codeInput}
+          <button onClick={handleDisable} disabled={!code.trim()}>Turn off</button>
+        </div>
+      ) : setup ? (
+        <>
+          <p style={{ margin: 0, color: '#666' }}>
+            Add this account to your authenticator app with the link or the key below, then enter the code it shows.
+          </p>
+          <a href={setup.otpauthUri} style={{ wordBreak: 'break-all' }}>{setup.otpauthUri}</a>
+          <input type="text" readOnly value={setup.secret} onFocus={(e) => e.target.select()} title="Key for manual entry" />
+          <div style={{ display: 'flex', gap: 4 }}>
+            {codeInput}
+            <button onClick={handleEnable} disabled={!code.trim()}>Enable</button>
+          </div>
+        </>
+      ) : (
+        <button onClick={handleSetup}>Set up two-factor authentication</button>
+      )}
+      {error && <p style={{ margin: 0, color: '#c0392b' }}>{error}</p>}
+    </>
+  );
+};
+
+/**
+ * The signed-in user's profile: display name, color and avatar, which everyone on the same boards sees
+ * change straight away, their password and two-factor authentication. Collapsed to a button until opened. Guests are offered an
+ * account instead.
+ */
+const ProfilePanel: React.FC = () => {
+  const { authState, updateProfile, changePassword, resendVerification } = useAuth();
+  const user = authState.user;
+  const [open, setOpen] = useState(false);
+  const [displayName, setDisplayName] = useState('');
+  const [color, setColor] = useState('#3498db');
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  if (!user) return null;
+
+  if (!user.token) {
+    return open
+      ? <UpgradeAccountForm onClose={() => setOpen(false)} />
+      : <button onClick={() => setOpen(true)} style={{ marginTop: 6 }}>Create an account</button>;
+  }
+
+  // Start from the saved profile whenever the panel is opened
+  const handleOpen = () => {
+    setDisplayName(user.displayName || '');
+    setColor(user.color);
+    setAvatarUrl(user.avatarUrl || null);
+    setMessage(null);
+    setOpen(true);
+  };
+
+  const report = (text: string, isError = false) => setMessage({ text, isError });
+
+  const handleAvatarFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    toAvatarUrl(file)
+      .then(setAvatarUrl)
+      .catch(() => report('That file could not be read as an image', true));
+  };
+
+  const handleSaveProfile = () => {
+    updateProfile({ displayName, color, avatarUrl })
+      .then(() => report('Profile saved'))
+      .catch((error: Error) => report(error.message, true));
+  };
+
+  const handleResendVerification = () => {
+    resendVerification()
+      .then(() => report(`A confirmation link is on its way to ${user.email}`))
+      .catch((error: Error) => report(error.message, true));
+  };
+
+  const handleChangePassword = () => {
+    if (newPassword !== confirmPassword) {
+      report('The new passwords do not match', true);
+      return;
+    }
+    changePassword(currentPassword, newPassword)
+      .then(() => {
+        setCurrentPassword('');
+        setNewPassword('');
+        setConfirmPassword('');
+        report('Password changed; your other sessions were signed out');
+      })
+      .catch((error: Error) => report(error.message, true));
+  };
+
+  if (!open) {
+    return (
+      <button onClick={handleOpen} style={{ marginTop: 6 }}>
+        Profile ({user.displayName || user.username})
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 6, fontSize: 13, display: 'flex', flexDirection: 'column', gap: 4 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <strong>Profile</strong>
+        <button onClick={() => setOpen(false)} title="Hide profile">&times;</button>
+      </div>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        {avatarUrl ? (
+          <img src={avatarUrl} alt="" style={{ width: 40, height: 40, borderRadius: '50%', border: `2px solid ${color}` }} />
+        ) : (
+          <span style={{ display: 'inline-block', width: 40, height: 40, borderRadius: '50%', background: color }} />
+        )}
+        <label style={{ cursor: 'pointer' }}>
+          <input type="file" accept="image/png,image/jpeg,image/gif,image/webp" onChange={handleAvatarFile} style={{ display: 'none' }} />
+          <span style={{ textDecoration: 'underline' }}>Choose avatar</span>
+        </label>
+        {avatarUrl && <button onClick={() => setAvatarUrl(null)}>Remove</button>}
+      </div>
+      <div style={{ display: 'flex', gap: 4 }}>
+        <input
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          placeholder={`Display name (${user.username})`}
+          maxLength={100}
+          style={{ flex: 1, minWidth: 0 }}
+        />
+        <input type="color" value={color} onChange={(e) => setColor(e.target.value)} title="Your color" />
+      </div>
+      <button onClick={handleSaveProfile}>Save profile</button>
+
+      {!user.emailVerified && (
+        <div style={{ color: '#666' }}>
+          Your email address{user.email ? ` (${user.email})` : ''} is not confirmed yet.{' '}
+          <button onClick={handleResendVerification}>Send the link again</button>
+        </div>
+      )}
+
+      <strong style={{ marginTop: 6 }}>Change password</strong>
+      <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} placeholder="Current password" />
+      <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} placeholder="New password" />
+      <input type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} placeholder="Confirm new password" />
+      <button onClick={handleChangePassword} disabled={!currentPassword || !newPassword}>Change password</button>
+
+      <TwoFactorSection enabled={!!user.twoFactorEnabled} />
+
+      {message && <p style={{ margin: '4px 0 0', color: message.isError ? '#c0392b' : '#27ae60' }}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default ProfilePanel;
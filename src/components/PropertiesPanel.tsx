@@ -1,24 +1,48 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useRef } from 'react';
 import * as THREE from 'three';
-import { Socket } from 'socket.io-client';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from '../context/AuthContext';
+import {
+  TASK_TEXT_FIELDS,
+  getTaskTextDocs,
+  type TaskTextField
+} from '../utils/textCrdt';
+import type { AppSocket, BoardRole, TextSelectionData, TextSelectionUpdateData, UserMatch } from '../types/socketEvents';
+import { takeBaseVersion } from '../utils/objectVersion';
+import { offlineQueue } from '../services/offlineQueue';
+import { getCurrentUserId } from '../services/socket';
+import { validated } from '../utils/eventSchemas';
+import { hasRole } from '../utils/boardRoles';
+import { TASK_PRIORITIES, getTaskField, type TaskFieldProperty, type TaskFieldValue } from '../utils/taskFields';
+import { isFinalStatus, type WorkflowZone } from '../utils/workflow';
+import { blockedTasks, waitsOn, type LinkedTask } from '../utils/dependencies';
+import RemoteSelectionOverlay, { type RemoteTextSelection } from './RemoteSelectionOverlay';
 
 import type {
   ActivityLogEntry,
   ChecklistItem,
   ChecklistUpdateAction,
-  TaskData as AppTaskData
+  TaskAssignee,
+  TaskComment,
+  TaskData as AppTaskData,
+  TaskPriority,
+  TextEditCommandData
 } from '../App';
 
 interface PropertiesPanelProps {
   selectedObject: THREE.Mesh | null;
-  socket: Socket | null;
+  socket: AppSocket | null;
+  role: BoardRole | null; // Our role on the board; controls it doesn't allow are disabled
+  workflow: WorkflowZone[]; // The board's zones, which are the statuses a task can have
   onPropertyUpdate: (
-    property: 'taskTitle' | 'taskDescription' | 'taskChecklistUpdate' | 'taskStatus',
-    value: string | ChecklistUpdateAction,
-    oldValue: string | ChecklistItem[]
+    property: 'taskChecklistUpdate' | 'taskStatus' | TaskFieldProperty,
+    value: string | ChecklistUpdateAction | TaskFieldValue,
+    oldValue: string | ChecklistItem[] | TaskFieldValue
   ) => void;
+  onTextEdit: (edit: Omit<TextEditCommandData, 'objectId' | 'userId'>) => void;
+  tasks: LinkedTask[]; // Every task on the board, to link this one with
+  // A new list of the tasks `objectId` waits on: this task's own, or another's it blocks
+  onBlockedByChange: (objectId: string, blockedBy: string[], oldBlockedBy: string[]) => void;
 }
 
 interface ScaleState {
@@ -27,17 +51,60 @@ interface ScaleState {
   z: number;
 }
 
-const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socket, onPropertyUpdate }) => {
+const MAX_LABELS = 20;
+
+// Today as 'YYYY-MM-DD' in local time, to compare due dates with
+const todayDate = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Id of the character just before a caret offset in a field's value (null = start of the text)
+const charIdBefore = (ids: string[], value: string, offset: number): string | null => {
+  const position = Array.from(value.slice(0, offset)).length; // Offsets count UTF-16 units, ids count characters
+  return position > 0 ? ids[position - 1] ?? null : null;
+};
+
+const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
+  selectedObject,
+  socket,
+  role,
+  workflow,
+  onPropertyUpdate,
+  onTextEdit,
+  tasks,
+  onBlockedByChange
+}) => {
   const { authState } = useAuth(); // Get auth context
+  const canEdit = hasRole(role, 'editor');
+  const canComment = hasRole(role, 'commenter');
   const [objectColor, setObjectColor] = useState('#ffffff');
   const [objectScale, setObjectScale] = useState<ScaleState>({ x: 1, y: 1, z: 1 });
   const [taskTitle, setTaskTitle] = useState('');
-  const [taskStatus, setTaskStatus] = useState<'To Do' | 'In Progress' | 'Done'>('To Do');
+  const [taskStatus, setTaskStatus] = useState<AppTaskData['status']>('');
   const [taskDescription, setTaskDescription] = useState('');
   const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
   const [newChecklistItemText, setNewChecklistItemText] = useState('');
   const [editingChecklistItem, setEditingChecklistItem] = useState<{ id: string; text: string } | null>(null);
   const [activityLog, setActivityLog] = useState<ActivityLogEntry[]>([]);
+  const [comments, setComments] = useState<TaskComment[]>([]);
+  const [newCommentText, setNewCommentText] = useState('');
+  const [assignees, setAssignees] = useState<TaskAssignee[]>([]);
+  const [dueDate, setDueDate] = useState<string | null>(null);
+  const [priority, setPriority] = useState<TaskPriority | null>(null);
+  const [labels, setLabels] = useState<string[]>([]);
+  const [assigneeQuery, setAssigneeQuery] = useState('');
+  const [assigneeMatches, setAssigneeMatches] = useState<UserMatch[]>([]);
+  const [newLabelText, setNewLabelText] = useState('');
+  const [blockedBy, setBlockedBy] = useState<string[]>([]);
+
+  // Title and description are shown from the task's text documents. For each field we remember
+  // which character ids the rendered text is made of, so edits are anchored on those characters.
+  const titleInputRef = useRef<HTMLInputElement>(null);
+  const descriptionInputRef = useRef<HTMLTextAreaElement>(null);
+  const textIdsRef = useRef<Record<TaskTextField, string[]>>({ title: [], description: [] });
+  const pendingSelectionRef = useRef<Partial<Record<TaskTextField, { start: number; end: number }>>>({});
+  const [remoteSelections, setRemoteSelections] = useState<Record<string, TextSelectionUpdateData>>({});
 
   useEffect(() => {
     console.log('[PropertiesPanel useEffect] Selected object changed:', selectedObject?.userData?.sharedId);
@@ -50,44 +117,240 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
       if (selectedObject.userData.taskData) {
         const taskData = selectedObject.userData.taskData as AppTaskData;
         console.log('[PropertiesPanel useEffect] TaskData FOUND for', selectedObject.userData.sharedId, JSON.stringify(taskData));
-        setTaskTitle(taskData.title || '');
-        setTaskStatus(taskData.status || 'To Do');
-        setTaskDescription(taskData.description || '');
+        setTaskStatus(taskData.status || '');
         setChecklist(taskData.checklist ? JSON.parse(JSON.stringify(taskData.checklist)) : []); // Deep copy for local state
         setActivityLog(taskData.activityLog ? JSON.parse(JSON.stringify(taskData.activityLog)) : []); // Deep copy for local state
+        setComments(taskData.comments ? [...taskData.comments] : []);
+        setAssignees(taskData.assignees ? [...taskData.assignees] : []);
+        setDueDate(taskData.dueDate ?? null);
+        setPriority(taskData.priority ?? null);
+        setLabels(taskData.labels ? [...taskData.labels] : []);
+        setBlockedBy(taskData.blockedBy ? [...taskData.blockedBy] : []);
       } else {
         console.log('[PropertiesPanel useEffect] No TaskData for', selectedObject.userData.sharedId);
-        setTaskTitle(selectedObject.userData.sharedId || 'Task');
-        setTaskStatus('To Do');
-        setTaskDescription('');
+        setTaskStatus('');
         setChecklist([]);
         setActivityLog([]);
+        setComments([]);
+        setAssignees([]);
+        setDueDate(null);
+        setPriority(null);
+        setLabels([]);
+        setBlockedBy([]);
       }
     } else {
       console.log('[PropertiesPanel useEffect] Selected object is NULL');
       setObjectColor('#ffffff');
       setObjectScale({ x: 1, y: 1, z: 1 });
       setTaskTitle('');
-      setTaskStatus('To Do');
+      setTaskStatus('');
       setTaskDescription('');
       setChecklist([]);
       setNewChecklistItemText('');
       setEditingChecklistItem(null);
       setActivityLog([]);
+      setComments([]);
+      setNewCommentText('');
+      setAssignees([]);
+      setDueDate(null);
+      setPriority(null);
+      setLabels([]);
+      setBlockedBy([]);
+      setAssigneeQuery('');
+      setNewLabelText('');
     }
   }, [selectedObject]);
 
+  // Registered users matching what is typed in the assignee field
+  useEffect(() => {
+    const query = assigneeQuery.trim();
+    if (!socket || !canEdit || !query) {
+      setAssigneeMatches([]);
+      return;
+    }
+    let current = true;
+    const timer = setTimeout(() => {
+      socket.emit('find-users', { query }, (response) => {
+        if (current) setAssigneeMatches(response.users || []);
+      });
+    }, 200);
+    return () => {
+      current = false;
+      clearTimeout(timer);
+    };
+  }, [socket, canEdit, assigneeQuery]);
+
+  // Comments arrive for everyone at once, the author included
+  useEffect(() => {
+    if (!socket || !selectedObject) return;
+    const handleCommentAdded = validated('comment-added', ({ objectId, comment }) => {
+      if (objectId !== selectedObject.userData.sharedId) return;
+      setComments(prev => (prev.some(existing => existing.id === comment.id) ? prev : [...prev, comment]));
+    });
+    socket.on('comment-added', handleCommentAdded);
+    return () => {
+      socket.off('comment-added', handleCommentAdded);
+    };
+  }, [socket, selectedObject]);
+
+  // Keep the title and description in sync with their text documents while the object is selected
+  useEffect(() => {
+    if (!selectedObject) return;
+    const docs = getTaskTextDocs(selectedObject);
+    const setters = { title: setTaskTitle, description: setTaskDescription };
+
+    const showField = (field: TaskTextField, origin?: 'local' | 'remote') => {
+      const doc = docs[field];
+      const input = field === 'title' ? titleInputRef.current : descriptionInputRef.current;
+
+      // Someone else's edit shifts the text: keep the caret next to the same characters
+      if (origin === 'remote' && input && document.activeElement === input &&
+          input.selectionStart !== null && input.selectionEnd !== null) {
+        const renderedIds = textIdsRef.current[field];
+        const startPosition = doc.positionAfter(charIdBefore(renderedIds, input.value, input.selectionStart));
+        const endPosition = doc.positionAfter(charIdBefore(renderedIds, input.value, input.selectionEnd));
+        // Back to UTF-16 offsets for setSelectionRange
+        const offsetOf = (position: number) => Array.from(doc.text).slice(0, position).join('').length;
+        pendingSelectionRef.current[field] = { start: offsetOf(startPosition), end: offsetOf(endPosition) };
+      }
+
+      textIdsRef.current[field] = doc.visibleIds();
+      setters[field](doc.text);
+    };
+
+    TASK_TEXT_FIELDS.forEach(field => showField(field));
+    const unsubscribes = TASK_TEXT_FIELDS.map(field => docs[field].subscribe(origin => showField(field, origin)));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [selectedObject]);
+
+  // Track where other users' carets are in the title and description
+  useEffect(() => {
+    if (!socket) return;
+    const handleSelectionUpdate = validated('text-selection-updated', (data: TextSelectionUpdateData) => {
+      setRemoteSelections(prev => {
+        const next = { ...prev };
+        if (data.selection) {
+          next[data.userId] = data;
+        } else {
+          delete next[data.userId];
+        }
+        return next;
+      });
+    });
+    socket.on('text-selection-updated', handleSelectionUpdate);
+    return () => {
+      socket.off('text-selection-updated', handleSelectionUpdate);
+    };
+  }, [socket]);
+
+  // Our caret disappears for everyone else once this object is deselected
+  useEffect(() => {
+    if (!selectedObject || !socket) return;
+    return () => {
+      socket.emit('text-selection', { objectId: null });
+    };
+  }, [selectedObject, socket]);
+
+  // Share our caret/selection in a field (or that we left it) with everyone on the board
+  const emitTextSelection = (field: TaskTextField | null) => {
+    if (!socket || !selectedObject) return;
+    if (!field) {
+      socket.emit('text-selection', { objectId: null });
+      return;
+    }
+
+    const input = field === 'title' ? titleInputRef.current : descriptionInputRef.current;
+    if (!input || input.selectionStart === null || input.selectionEnd === null) return;
+    const ids = textIdsRef.current[field];
+    const selection: TextSelectionData = {
+      objectId: selectedObject.userData.sharedId,
+      field,
+      start: charIdBefore(ids, input.value, input.selectionStart),
+      end: charIdBefore(ids, input.value, input.selectionEnd)
+    };
+    socket.emit('text-selection', selection);
+  };
+
+  // Other users' selections in a field of the selected object, as text positions
+  const remoteSelectionsFor = (field: TaskTextField): RemoteTextSelection[] => {
+    if (!selectedObject) return [];
+    const doc = getTaskTextDocs(selectedObject)[field];
+    return Object.values(remoteSelections).flatMap(({ userId, username, color, selection }) => {
+      if (!selection || selection.objectId !== selectedObject.userData.sharedId || selection.field !== field) return [];
+      return [{
+        userId,
+        username,
+        color: color || '#ffffff',
+        start: doc.positionAfter(selection.start),
+        end: doc.positionAfter(selection.end)
+      }];
+    });
+  };
+
+  // Names of the users whose carets are shown in a field
+  const renderRemoteEditors = (selections: RemoteTextSelection[]) => selections.length > 0 && (
+    <div className="remote-editors">
+      {selections.map(selection => (
+        <span key={selection.userId} className="remote-editor-chip" style={{ backgroundColor: selection.color }}>
+          {selection.username || `User-${selection.userId.substring(0, 5)}`}
+        </span>
+      ))}
+    </div>
+  );
+
+  // Restore the caret after a remote edit re-rendered the field
+  useLayoutEffect(() => {
+    TASK_TEXT_FIELDS.forEach(field => {
+      const selection = pendingSelectionRef.current[field];
+      const input = field === 'title' ? titleInputRef.current : descriptionInputRef.current;
+      if (selection && input) {
+        input.setSelectionRange(selection.start, selection.end);
+      }
+      delete pendingSelectionRef.current[field];
+    });
+  }, [taskTitle, taskDescription]);
+
+  // Turn a change of the rendered text into an edit of the characters it replaced
+  const handleTextFieldChange = (field: TaskTextField, renderedText: string, newText: string) => {
+    const ids = textIdsRef.current[field];
+    const oldChars = Array.from(renderedText);
+    const newChars = Array.from(newText);
+
+    let start = 0;
+    while (start < oldChars.length && start < newChars.length && oldChars[start] === newChars[start]) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < oldChars.length - start &&
+      end < newChars.length - start &&
+      oldChars[oldChars.length - 1 - end] === newChars[newChars.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    onTextEdit({
+      field,
+      after: start > 0 ? ids[start - 1] : null,
+      deletedIds: ids.slice(start, oldChars.length - end),
+      deletedText: oldChars.slice(start, oldChars.length - end).join(''),
+      insertedText: newChars.slice(start, newChars.length - end).join('')
+    });
+  };
+
   const handleObjectColorChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const newColor = event.target.value;
     setObjectColor(newColor);
 
     if (selectedObject && selectedObject.material instanceof THREE.MeshStandardMaterial && socket) {
       selectedObject.material.color.set(newColor);
-      socket.emit('object-property-updated', {
+      // No ack: if the write is rejected the server sends 'operation-rejected' with its copy
+      offlineQueue.emit(socket, 'object-property-changed', {
         objectId: selectedObject.userData.sharedId,
         property: 'color',
         value: newColor,
-        userId: socket.id,
+        userId: getCurrentUserId(),
+        baseVersion: takeBaseVersion(selectedObject)
       });
     }
   };
@@ -101,7 +364,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
     selectedObject.scale[axis] = newScaleValue;
     setObjectScale(newScale);
 
-    socket.emit('object-property-updated', {
+    offlineQueue.emit(socket, 'object-property-changed', {
       objectId: selectedObject.userData.sharedId,
       property: 'scale',
       value: {
@@ -109,7 +372,8 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
         y: selectedObject.scale.y,
         z: selectedObject.scale.z,
       },
-      userId: socket.id,
+      userId: getCurrentUserId(),
+      baseVersion: takeBaseVersion(selectedObject)
     });
   };
 
@@ -118,20 +382,18 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
     setTaskTitle(newTitle); // Update local state immediately for responsiveness
 
     if (selectedObject) {
-      const oldTitle = selectedObject.userData.taskData?.title || '';
-      console.log(`[PropertiesPanel handleTaskTitleChange] Old: "${oldTitle}", New: "${newTitle}"`);
-      onPropertyUpdate('taskTitle', newTitle, oldTitle);
+      handleTextFieldChange('title', taskTitle, newTitle);
     }
   };
 
   const handleTaskStatusChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const newStatus = event.target.value as 'To Do' | 'In Progress' | 'Done';
+    const newStatus = event.target.value;
 
     // Update local state immediately for responsive UI
     setTaskStatus(newStatus);
 
     if (selectedObject) {
-      const oldStatus = selectedObject.userData.taskData?.status || 'To Do';
+      const oldStatus = selectedObject.userData.taskData?.status || '';
       console.log(`[PropertiesPanel handleTaskStatusChange] Old: "${oldStatus}", New: "${newStatus}"`);
 
       // Don't update the object directly here - let the command pattern handle it
@@ -189,8 +451,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
     setTaskDescription(newDescription); // Update local state immediately for responsiveness
 
     if (selectedObject) {
-      const oldDescription = selectedObject.userData.taskData?.description || '';
-      onPropertyUpdate('taskDescription', newDescription, oldDescription);
+      handleTextFieldChange('description', taskDescription, newDescription);
     }
   };
 
@@ -257,11 +518,119 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
     setEditingChecklistItem(null);
   };
 
+  // Assignees, due date, priority and labels are each sent whole; the command keeps the old value for undo
+  const handleTaskFieldChange = (property: TaskFieldProperty, value: TaskFieldValue) => {
+    if (!selectedObject) return;
+    const taskData = selectedObject.userData.taskData as AppTaskData | undefined;
+    const oldValue = taskData ? getTaskField(taskData, property) : null;
+    if (JSON.stringify(oldValue) === JSON.stringify(value)) return;
+    onPropertyUpdate(property, value, oldValue);
+  };
+
+  const handleAddAssignee = (match: UserMatch) => {
+    setAssigneeQuery('');
+    setAssigneeMatches([]);
+    if (assignees.some(assignee => assignee.userId === match.userId)) return;
+    const updated = [...assignees, { userId: match.userId, username: match.username }];
+    setAssignees(updated);
+    handleTaskFieldChange('taskAssignees', updated);
+  };
+
+  const handleRemoveAssignee = (userId: string) => {
+    const updated = assignees.filter(assignee => assignee.userId !== userId);
+    setAssignees(updated);
+    handleTaskFieldChange('taskAssignees', updated);
+  };
+
+  const handleDueDateChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value || null;
+    setDueDate(value);
+    handleTaskFieldChange('taskDueDate', value);
+  };
+
+  const handlePriorityChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = (event.target.value || null) as TaskPriority | null;
+    setPriority(value);
+    handleTaskFieldChange('taskPriority', value);
+  };
+
+  const handleAddLabel = () => {
+    const label = newLabelText.trim().slice(0, 50);
+    setNewLabelText('');
+    if (!label || labels.includes(label) || labels.length >= MAX_LABELS) return;
+    const updated = [...labels, label];
+    setLabels(updated);
+    handleTaskFieldChange('taskLabels', updated);
+  };
+
+  const handleRemoveLabel = (label: string) => {
+    const updated = labels.filter(existing => existing !== label);
+    setLabels(updated);
+    handleTaskFieldChange('taskLabels', updated);
+  };
+
+  // Dependencies. Links to deleted tasks stay in blockedBy but aren't shown (see utils/dependencies.ts).
+  // Tasks that already wait on this one, directly or not, can't block it, and the other way round.
+  const selectedId: string | undefined = selectedObject?.userData.sharedId;
+  const otherTasks = tasks.filter(task => task.id !== selectedId);
+  const blockers = otherTasks.filter(task => blockedBy.includes(task.id));
+  const blocking = selectedId ? blockedTasks(selectedId, otherTasks) : [];
+  const blockerCandidates = otherTasks.filter(task =>
+    !blockedBy.includes(task.id) && !(selectedId && waitsOn(task.id, selectedId, tasks)));
+  const blockingCandidates = otherTasks.filter(task =>
+    !blocking.includes(task) && !(selectedId && waitsOn(selectedId, task.id, tasks)));
+
+  const handleBlockedByChange = (updated: string[]) => {
+    if (!selectedId) return;
+    const old = blockedBy;
+    setBlockedBy(updated);
+    onBlockedByChange(selectedId, updated, old);
+  };
+
+  // This task goes into (or out of) the blocked task's own list
+  const handleBlockingChange = (task: LinkedTask, blocks: boolean) => {
+    if (!selectedId) return;
+    const old = task.taskData.blockedBy ?? [];
+    onBlockedByChange(task.id, blocks ? [...old, selectedId] : old.filter(id => id !== selectedId), old);
+  };
+
+  const renderLinkedTask = (task: LinkedTask, onRemove: () => void) => {
+    const done = isFinalStatus(workflow, task.taskData.status);
+    return (
+      <span
+        key={task.id}
+        title={task.taskData.status}
+        style={{ padding: '3px 8px', borderRadius: '12px', background: 'rgba(255,255,255,0.15)', fontSize: '0.85em', textDecoration: done ? 'line-through' : 'none' }}
+      >
+        {task.taskData.title || 'Untitled task'}
+        {canEdit && (
+          <button
+            onClick={onRemove}
+            style={{ marginLeft: '5px', background: 'none', border: 'none', color: '#ff6b6b', cursor: 'pointer', padding: 0 }}
+            title="Remove link"
+          >
+            &times;
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  const handleAddComment = () => {
+    const text = newCommentText.trim();
+    if (!text || !selectedObject || !socket) return;
+    socket.emit('add-comment', { objectId: selectedObject.userData.sharedId, text });
+    setNewCommentText('');
+  };
+
   const formatTimestamp = (isoString: string) => {
     const date = new Date(isoString);
     return date.toLocaleString();
   };
 
+  const titleSelections = remoteSelectionsFor('title');
+  const descriptionSelections = remoteSelectionsFor('description');
+
   if (!selectedObject) {
     return (
       <div style={{
@@ -312,6 +681,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
           id="objectColor"
           value={objectColor}
           onChange={handleObjectColorChange}
+          disabled={!canEdit}
           style={{ width: '100%', height: '30px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', cursor: 'pointer' }}
         />
       </div>
@@ -328,6 +698,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
                 value={objectScale[axis as keyof ScaleState]}
                 onChange={(e) => handleObjectScaleChange(axis as 'x' | 'y' | 'z', e.target.value)}
                 step={0.1}
+                disabled={!canEdit}
                 style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box' }}
               />
             </div>
@@ -337,13 +708,21 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
 
       <div style={{ marginBottom: '15px' }}>
         <label htmlFor="taskTitle" style={{ display: 'block', marginBottom: '5px' }}>Task Title:</label>
-        <input
-          type="text"
-          id="taskTitle"
-          value={taskTitle}
-          onChange={handleTaskTitleChange}
-          style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box' }}
-        />
+        <div style={{ position: 'relative' }}>
+          <input
+            type="text"
+            id="taskTitle"
+            ref={titleInputRef}
+            value={taskTitle}
+            onChange={handleTaskTitleChange}
+            readOnly={!canEdit}
+            onSelect={() => emitTextSelection('title')}
+            onBlur={() => emitTextSelection(null)}
+            style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box' }}
+          />
+          <RemoteSelectionOverlay target={titleInputRef} text={taskTitle} selections={titleSelections} />
+        </div>
+        {renderRemoteEditors(titleSelections)}
       </div>
 
       <div style={{ marginBottom: '15px' }}>
@@ -352,23 +731,191 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
           id="taskStatus"
           value={taskStatus}
           onChange={handleTaskStatusChange}
+          disabled={!canEdit}
           style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff' }}
         >
-          <option value="To Do">To Do</option>
-          <option value="In Progress">In Progress</option>
-          <option value="Done">Done</option>
+          {!workflow.some(zone => zone.name === taskStatus) && (
+            <option value={taskStatus} disabled>{taskStatus || 'No status'}</option>
+          )}
+          {workflow.map(zone => <option key={zone.id} value={zone.name}>{zone.name}</option>)}
         </select>
       </div>
 
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="taskAssignee" style={{ display: 'block', marginBottom: '5px' }}>Assignees:</label>
+        {assignees.length === 0 && <p style={{ fontSize: '0.9em', color: '#aaa', margin: '0 0 5px' }}>Unassigned</p>}
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px', marginBottom: '5px' }}>
+          {assignees.map(assignee => (
+            <span key={assignee.userId} style={{ padding: '3px 8px', borderRadius: '12px', background: 'rgba(0,123,255,0.4)', fontSize: '0.85em' }}>
+              {assignee.userId === getCurrentUserId() ? `You (${assignee.username})` : assignee.username}
+              {canEdit && (
+                <button
+                  onClick={() => handleRemoveAssignee(assignee.userId)}
+                  style={{ marginLeft: '5px', background: 'none', border: 'none', color: '#ff6b6b', cursor: 'pointer', padding: 0 }}
+                  title="Unassign"
+                >
+                  &times;
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+        {canEdit && (
+          <>
+            <input
+              type="text"
+              id="taskAssignee"
+              value={assigneeQuery}
+              onChange={(e) => setAssigneeQuery(e.target.value)}
+              placeholder="Assign a registered user..."
+              style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box' }}
+            />
+            {assigneeMatches.length > 0 && (
+              <ul style={{ listStyle: 'none', padding: 0, margin: '3px 0 0', background: '#3a3a3a', borderRadius: '4px' }}>
+                {assigneeMatches
+                  .filter(match => !assignees.some(assignee => assignee.userId === match.userId))
+                  .map(match => (
+                    <li
+                      key={match.userId}
+                      onClick={() => handleAddAssignee(match)}
+                      style={{ padding: '5px 8px', cursor: 'pointer', fontSize: '0.9em' }}
+                    >
+                      {match.username}
+                      {match.displayName && <span style={{ color: '#aaa', marginLeft: '5px' }}>({match.displayName})</span>}
+                    </li>
+                  ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+
+      <div style={{ marginBottom: '15px', display: 'flex', gap: '10px' }}>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="taskDueDate" style={{ display: 'block', marginBottom: '5px' }}>
+            Due:
+            {dueDate && dueDate < todayDate() && !isFinalStatus(workflow, taskStatus) && (
+              <span style={{ color: '#ff6b6b', marginLeft: '5px' }}>Overdue</span>
+            )}
+          </label>
+          <input
+            type="date"
+            id="taskDueDate"
+            value={dueDate ?? ''}
+            onChange={handleDueDateChange}
+            disabled={!canEdit}
+            style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box' }}
+          />
+        </div>
+        <div style={{ flex: 1 }}>
+          <label htmlFor="taskPriority" style={{ display: 'block', marginBottom: '5px' }}>Priority:</label>
+          <select
+            id="taskPriority"
+            value={priority ?? ''}
+            onChange={handlePriorityChange}
+            disabled={!canEdit}
+            style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff' }}
+          >
+            <option value="">None</option>
+            {TASK_PRIORITIES.map(option => (
+              <option key={option} value={option}>{option.charAt(0).toUpperCase() + option.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="taskLabel" style={{ display: 'block', marginBottom: '5px' }}>Labels:</label>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px', marginBottom: '5px' }}>
+          {labels.map(label => (
+            <span key={label} style={{ padding: '3px 8px', borderRadius: '12px', background: 'rgba(255,255,255,0.15)', fontSize: '0.85em' }}>
+              {label}
+              {canEdit && (
+                <button
+                  onClick={() => handleRemoveLabel(label)}
+                  style={{ marginLeft: '5px', background: 'none', border: 'none', color: '#ff6b6b', cursor: 'pointer', padding: 0 }}
+                  title="Remove label"
+                >
+                  &times;
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+        {canEdit && labels.length < MAX_LABELS && (
+          <input
+            type="text"
+            id="taskLabel"
+            value={newLabelText}
+            onChange={(e) => setNewLabelText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddLabel()}
+            placeholder="Add label..."
+            maxLength={50}
+            style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box' }}
+          />
+        )}
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="taskBlockedBy" style={{ display: 'block', marginBottom: '5px' }}>Blocked by:</label>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px', marginBottom: '5px' }}>
+          {blockers.map(task => renderLinkedTask(task, () => handleBlockedByChange(blockedBy.filter(id => id !== task.id))))}
+        </div>
+        {canEdit && blockerCandidates.length > 0 && (
+          <select
+            id="taskBlockedBy"
+            value=""
+            onChange={(e) => e.target.value && handleBlockedByChange([...blockedBy, e.target.value])}
+            style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff' }}
+          >
+            <option value="">Add a task this one waits on...</option>
+            {blockerCandidates.map(task => (
+              <option key={task.id} value={task.id}>{task.taskData.title || 'Untitled task'}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div style={{ marginBottom: '15px' }}>
+        <label htmlFor="taskBlocking" style={{ display: 'block', marginBottom: '5px' }}>Blocking:</label>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '5px', marginBottom: '5px' }}>
+          {blocking.map(task => renderLinkedTask(task, () => handleBlockingChange(task, false)))}
+        </div>
+        {canEdit && blockingCandidates.length > 0 && (
+          <select
+            id="taskBlocking"
+            value=""
+            onChange={(e) => {
+              const task = blockingCandidates.find(candidate => candidate.id === e.target.value);
+              if (task) handleBlockingChange(task, true);
+            }}
+            style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff' }}
+          >
+            <option value="">Add a task that waits on this one...</option>
+            {blockingCandidates.map(task => (
+              <option key={task.id} value={task.id}>{task.taskData.title || 'Untitled task'}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
       <div style={{ marginBottom: '15px' }}>
         <label htmlFor="taskDescription" style={{ display: 'block', marginBottom: '5px' }}>Description:</label>
-        <textarea
-          id="taskDescription"
-          value={taskDescription}
-          onChange={handleTaskDescriptionChange}
-          rows={3}
-          style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box', resize: 'vertical' }}
-        />
+        <div style={{ position: 'relative' }}>
+          <textarea
+            id="taskDescription"
+            ref={descriptionInputRef}
+            value={taskDescription}
+            onChange={handleTaskDescriptionChange}
+            readOnly={!canEdit}
+            onSelect={() => emitTextSelection('description')}
+            onBlur={() => emitTextSelection(null)}
+            rows={3}
+            style={{ width: '100%', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff', boxSizing: 'border-box', resize: 'vertical', display: 'block' }}
+          />
+          <RemoteSelectionOverlay target={descriptionInputRef} text={taskDescription} selections={descriptionSelections} multiline />
+        </div>
+        {renderRemoteEditors(descriptionSelections)}
       </div>
 
       <div style={{ marginBottom: '20px' }}>
@@ -381,6 +928,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
                 type="checkbox"
                 checked={item.completed}
                 onChange={() => handleToggleChecklistItem(item.id)}
+                disabled={!canEdit}
                 style={{ marginRight: '10px', cursor: 'pointer' }}
               />
               {editingChecklistItem?.id === item.id ? (
@@ -395,14 +943,15 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
                 />
               ) : (
                 <span
-                  onClick={() => handleEditChecklistItemText(item.id, item.text)}
-                  style={{ flexGrow: 1, textDecoration: item.completed ? 'line-through' : 'none', opacity: item.completed ? 0.7 : 1, cursor: 'pointer' }}
+                  onClick={() => canEdit && handleEditChecklistItemText(item.id, item.text)}
+                  style={{ flexGrow: 1, textDecoration: item.completed ? 'line-through' : 'none', opacity: item.completed ? 0.7 : 1, cursor: canEdit ? 'pointer' : 'default' }}
                 >
                   {item.text}
                 </span>
               )}
               <button
                 onClick={() => handleRemoveChecklistItem(item.id)}
+                disabled={!canEdit}
                 style={{ marginLeft: '10px', background: 'none', border: 'none', color: '#ff6b6b', cursor: 'pointer', fontSize: '1.1em' }}
                 title="Remove item"
               >
@@ -411,7 +960,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
             </li>
           ))}
         </ul>
-        <div style={{ display: 'flex', marginTop: '10px' }}>
+        {canEdit && <div style={{ display: 'flex', marginTop: '10px' }}>
           <input
             type="text"
             value={newChecklistItemText}
@@ -426,7 +975,40 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
           >
             Add
           </button>
-        </div>
+        </div>}
+      </div>
+
+      <div style={{ marginBottom: '20px' }}>
+        <h5 style={{ marginBottom: '10px', borderBottom: '1px solid #444', paddingBottom: '5px' }}>Comments</h5>
+        {comments.length === 0 && <p style={{ fontSize: '0.9em', color: '#aaa' }}>No comments yet.</p>}
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0, maxHeight: '200px', overflowY: 'auto' }}>
+          {comments.map(comment => (
+            <li key={comment.id} style={{ marginBottom: '8px', padding: '5px', background: 'rgba(255,255,255,0.05)', borderRadius: '3px', fontSize: '0.85em' }}>
+              <div style={{ fontWeight: 'bold', color: '#bbb' }}>
+                {comment.userId === getCurrentUserId() ? 'You' : comment.username || `User-${comment.userId.substring(0, 5)}`}
+                <span style={{ fontWeight: 'normal', color: '#777', marginLeft: '5px' }}>{formatTimestamp(comment.timestamp)}</span>
+              </div>
+              <div style={{ color: '#ddd', marginTop: '3px', wordBreak: 'break-word', whiteSpace: 'pre-wrap' }}>{comment.text}</div>
+            </li>
+          ))}
+        </ul>
+        {canComment && <div style={{ display: 'flex', marginTop: '10px' }}>
+          <input
+            type="text"
+            value={newCommentText}
+            onChange={(e) => setNewCommentText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddComment()}
+            placeholder="Add a comment..."
+            maxLength={2000}
+            style={{ flexGrow: 1, marginRight: '8px', padding: '8px', border: '1px solid #666', borderRadius: '4px', backgroundColor: '#444', color: '#fff' }}
+          />
+          <button
+            onClick={handleAddComment}
+            style={{ padding: '8px 12px', border: 'none', borderRadius: '4px', backgroundColor: '#007bff', color: 'white', cursor: 'pointer' }}
+          >
+            Post
+          </button>
+        </div>}
       </div>
 
       <div>
@@ -436,7 +1018,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ selectedObject, socke
           {activityLog.slice().reverse().map((entry, index) => (
             <li key={index} style={{ marginBottom: '10px', paddingBottom: '10px', borderBottom: '1px dashed #333', fontSize: '0.85em' }}>              <div style={{ fontWeight: 'bold', color: '#bbb' }}>
                 {entry.action}                <span style={{ fontWeight: 'normal', color: '#888', marginLeft: '5px' }}>
-                  by {entry.userId === socket?.id || (authState.user && entry.userId === authState.user.id)
+                  by {entry.userId === getCurrentUserId() || (authState.user && entry.userId === authState.user.id)
                       ? `You (${authState.user?.username || 'Guest'})`
                       : `User-${entry.userId.substring(0,5)}`}
                 </span>
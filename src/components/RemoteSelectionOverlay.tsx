@@ -0,0 +1,102 @@
+import React, { useLayoutEffect, useRef } from 'react';
+import './RemoteSelectionOverlay.css';
+
+export interface RemoteTextSelection {
+  userId: string;
+  username?: string;
+  color: string;
+  start: number; // Text positions, counted in characters (code points)
+  end: number;
+}
+
+interface RemoteSelectionOverlayProps {
+  target: React.RefObject<HTMLInputElement | HTMLTextAreaElement | null>;
+  text: string;
+  selections: RemoteTextSelection[];
+  multiline?: boolean;
+}
+
+// Styles copied from the field so the mirrored text lines up with it exactly
+const MIRRORED_STYLES = [
+  'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'letterSpacing', 'lineHeight', 'textAlign',
+  'paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft',
+  'borderTopWidth', 'borderRightWidth', 'borderBottomWidth', 'borderLeftWidth'
+] as const;
+
+/**
+ * Draws other users' carets and selections on top of a text input or textarea.
+ * The overlay mirrors the field's text invisibly and marks the selected ranges in each user's color.
+ * Wrap the field and the overlay in a `position: relative` container.
+ */
+const RemoteSelectionOverlay: React.FC<RemoteSelectionOverlayProps> = ({ target, text, selections, multiline = false }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const field = target.current;
+    const overlay = overlayRef.current;
+    if (!field || !overlay) return;
+
+    const computed = window.getComputedStyle(field);
+    MIRRORED_STYLES.forEach(property => {
+      overlay.style[property] = computed[property];
+    });
+
+    const syncScroll = () => {
+      overlay.scrollTop = field.scrollTop;
+      overlay.scrollLeft = field.scrollLeft;
+    };
+    syncScroll();
+    field.addEventListener('scroll', syncScroll);
+    return () => field.removeEventListener('scroll', syncScroll);
+  }, [target, text, selections]);
+
+  if (selections.length === 0) return null;
+
+  const chars = Array.from(text);
+  const clamp = (position: number) => Math.max(0, Math.min(chars.length, position));
+  const ranges = selections.map(selection => ({
+    ...selection,
+    from: clamp(Math.min(selection.start, selection.end)),
+    to: clamp(Math.max(selection.start, selection.end)),
+    caret: clamp(selection.end)
+  }));
+
+  // Split the text wherever a selection starts or ends, and mark every piece with what covers it
+  const boundaries = Array.from(new Set([0, chars.length, ...ranges.flatMap(range => [range.from, range.to, range.caret])]))
+    .sort((a, b) => a - b);
+
+  const pieces: React.ReactNode[] = [];
+  boundaries.forEach((position, index) => {
+    ranges.filter(range => range.caret === position).forEach(range => {
+      pieces.push(
+        <span
+          key={`caret-${range.userId}`}
+          className="remote-caret"
+          style={{ borderColor: range.color }}
+        />
+      );
+    });
+
+    const next = boundaries[index + 1];
+    if (next === undefined || next === position) return;
+    const covering = ranges.find(range => range.from <= position && next <= range.to && range.from !== range.to);
+    pieces.push(
+      <span key={`text-${position}`} style={covering ? { backgroundColor: `${covering.color}55` } : undefined}>
+        {chars.slice(position, next).join('')}
+      </span>
+    );
+  });
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`remote-selection-overlay${multiline ? ' multiline' : ''}`}
+      aria-hidden="true"
+    >
+      {pieces}
+      {multiline && '\u200b' /* Keeps a trailing newline's empty line in the mirror */}
+    </div>
+  );
+};
+
+export default RemoteSelectionOverlay;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import type { AppSocket } from '../types/socketEvents';
+import {
+  MAX_WIP_LIMIT,
+  MAX_ZONES,
+  MAX_ZONE_SIZE,
+  MIN_ZONE_SIZE,
+  type SwimlaneGrouping,
+  type WipPolicy,
+  type WorkflowZone
+} from '../utils/workflow';
+
+interface WorkflowPanelProps {
+  socket: AppSocket | null;
+  workflow: WorkflowZone[]; // The board's current zones
+  wipPolicy: WipPolicy;
+  swimlanes: SwimlaneGrouping | null; // What the board's lanes group tasks by; null: no lanes
+}
+
+/**
+ * The zones of the current board, for its owners to add, rename, recolor, resize, reorder and remove, with
+ * their WIP limits and what happens to moves past them, and what its swimlanes group tasks by. Collapsed to
+ * a button until opened. Edits are kept here until saved; the server then sends the new layout (and the
+ * tasks that moved with their zones or into their lanes) to everyone on the board.
+ */
+const WorkflowPanel: React.FC<WorkflowPanelProps> = ({ socket, workflow, wipPolicy, swimlanes }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<WorkflowZone[] | null>(null); // null: no unsaved edits
+  const [policyDraft, setPolicyDraft] = useState<WipPolicy | null>(null);
+  const [lanesDraft, setLanesDraft] = useState<SwimlaneGrouping | 'none' | null>(null); // 'none': turn lanes off
+  const [error, setError] = useState<string | null>(null);
+  const zones = draft ?? workflow;
+  const policy = policyDraft ?? wipPolicy;
+  const grouping = lanesDraft === null ? swimlanes : lanesDraft === 'none' ? null : lanesDraft;
+  const hasChanges = draft !== null || policyDraft !== null || lanesDraft !== null;
+
+  const edit = (change: (zones: WorkflowZone[]) => WorkflowZone[]) => setDraft(change(zones));
+
+  const updateZone = (index: number, changes: Partial<WorkflowZone>) =>
+    edit(current => current.map((zone, i) => (i === index ? { ...zone, ...changes } : zone)));
+
+  const moveZone = (index: number, offset: number) =>
+    edit(current => {
+      const next = [...current];
+      const [zone] = next.splice(index, 1);
+      next.splice(index + offset, 0, zone);
+      return next;
+    });
+
+  const addZone = () =>
+    edit(current => [...current, { id: `zone_${uuidv4()}`, name: 'New zone', color: '#b0c4de', width: 3, depth: 4 }]);
+
+  const handleSave = () => {
+    if (!hasChanges) return;
+    socket?.emit('update-workflow', { workflow: zones, wipPolicy: policy, swimlanes: grouping }, response => {
+      if (response.success) {
+        setDraft(null);
+        setPolicyDraft(null);
+        setLanesDraft(null);
+        setError(null);
+      } else {
+        setError(response.error || 'Could not change the workflow');
+      }
+    });
+  };
+
+  const handleCancel = () => {
+    setDraft(null);
+    setPolicyDraft(null);
+    setLanesDraft(null);
+    setError(null);
+  };
+
+  if (!open) {
+    return (
+      <button onClick={() => setOpen(true)} style={{ marginTop: 6 }}>
+        Workflow ({workflow.length} zones)
+      </button>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 6, fontSize: 13 }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <strong>Workflow</strong>
+        <button onClick={() => setOpen(false)} title="Hide workflow">&times;</button>
+      </div>
+      <p style={{ margin: '4px 0', color: '#666' }}>Zones from left to right. Tasks in the last one count as done.</p>
+      <ul style={{ listStyle: 'none', padding: 0, margin: '4px 0' }}>
+        {zones.map((zone, index) => (
+          <li key={zone.id} style={{ display: 'flex', alignItems: 'center', gap: 4, marginBottom: 4 }}>
+            <input type="color" value={zone.color} onChange={(e) => updateZone(index, { color: e.target.value })} title="Zone color" />
+            <input
+              type="text"
+              value={zone.name}
+              onChange={(e) => updateZone(index, { name: e.target.value })}
+              maxLength={100}
+              style={{ flex: 1, minWidth: 0 }}
+            />
+            <input
+              type="number"
+              min={MIN_ZONE_SIZE}
+              max={MAX_ZONE_SIZE}
+              step={0.5}
+              value={zone.width}
+              onChange={(e) => updateZone(index, { width: Number(e.target.value) })}
+              title="Width"
+              style={{ width: 44 }}
+            />
+            <input
+              type="number"
+              min={MIN_ZONE_SIZE}
+              max={MAX_ZONE_SIZE}
+              step={0.5}
+              value={zone.depth}
+              onChange={(e) => updateZone(index, { depth: Number(e.target.value) })}
+              title="Depth"
+              style={{ width: 44 }}
+            />
+            <input
+              type="number"
+              min={1}
+              max={MAX_WIP_LIMIT}
+              value={zone.wipLimit ?? ''}
+              onChange={(e) => updateZone(index, { wipLimit: e.target.value ? Math.round(Number(e.target.value)) : null })}
+              placeholder="∞"
+              title="WIP limit (empty: none)"
+              style={{ width: 44 }}
+            />
+            <button onClick={() => moveZone(index, -1)} disabled={index === 0} title="Move left">&uarr;</button>
+            <button onClick={() => moveZone(index, 1)} disabled={index === zones.length - 1} title="Move right">&darr;</button>
+            <button
+              onClick={() => edit(current => current.filter((_, i) => i !== index))}
+              disabled={zones.length === 1}
+              title="Remove (only once it has no tasks)"
+            >
+              &times;
+            </button>
+          </li>
+        ))}
+      </ul>
+      <label style={{ display: 'block', marginBottom: 4 }}>
+        Past a WIP limit:{' '}
+        <select value={policy} onChange={(e) => setPolicyDraft(e.target.value as WipPolicy)}>
+          <option value="warn">allow the move and warn</option>
+          <option value="refuse">refuse the move</option>
+        </select>
+      </label>
+      <label style={{ display: 'block', marginBottom: 4 }}>
+        Swimlanes:{' '}
+        <select value={grouping ?? 'none'} onChange={(e) => setLanesDraft(e.target.value as SwimlaneGrouping | 'none')}>
+          <option value="none">none</option>
+          <option value="assignee">by assignee</option>
+          <option value="priority">by priority</option>
+          <option value="label">by label</option>
+        </select>
+      </label>
+      <div style={{ display: 'flex', gap: 4 }}>
+        <button onClick={addZone} disabled={zones.length >= MAX_ZONES}>Add zone</button>
+        <button onClick={handleSave} disabled={!hasChanges}>Save</button>
+        {hasChanges && <button onClick={handleCancel}>Cancel</button>}
+      </div>
+      {error && <p style={{ margin: '4px 0 0', color: '#c0392b' }}>{error}</p>}
+    </div>
+  );
+};
+
+export default WorkflowPanel;
@@ -1,9 +1,14 @@
-import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
 import type { ReactNode } from 'react';
-import { Socket } from 'socket.io-client';
 import io from 'socket.io-client';
-import { authService } from '../services/AuthService';
+import { authService, LoginError } from '../services/AuthService';
 import type { User, AuthState } from '../services/AuthService';
+import { setCurrentUserId } from '../services/socket';
+import type { AppSocket, ProfileChanges, TwoFactorResponse } from '../types/socketEvents';
+import { validated } from '../utils/eventSchemas';
+
+// How long before the login token expires it is refreshed
+const SESSION_REFRESH_MARGIN = 60 * 1000;
 
 // Create context with initial state
 const initialAuthState: AuthState = {
@@ -16,17 +21,39 @@ const initialAuthState: AuthState = {
 const AuthContext = createContext<{
   authState: AuthState;
   login: (username: string, password: string) => Promise<void>;
+  loginSecondFactor: (challenge: string, code: string) => Promise<void>;
   register: (username: string, email: string, password: string, color?: string) => Promise<void>;
   logout: () => void;
-  setSocket: (socket: Socket) => void;
-  initializeSocket: () => Socket | null;
+  upgradeAccount: (username: string, email: string, password: string, color?: string) => Promise<void>;
+  updateProfile: (changes: ProfileChanges) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  setupTwoFactor: () => Promise<TwoFactorResponse>;
+  enableTwoFactor: (code: string) => Promise<string[]>;
+  disableTwoFactor: (code: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, newPassword: string) => Promise<void>;
+  setSocket: (socket: AppSocket) => void;
+  initializeSocket: () => AppSocket | null;
   // For demo/development only
   mockLogin: (username: string) => void;
 }>({
   authState: initialAuthState,
   login: async () => {},
+  loginSecondFactor: async () => {},
   register: async () => {},
   logout: () => {},
+  upgradeAccount: async () => {},
+  updateProfile: async () => {},
+  changePassword: async () => {},
+  setupTwoFactor: async () => ({ success: false }),
+  enableTwoFactor: async () => [],
+  disableTwoFactor: async () => {},
+  resendVerification: async () => {},
+  verifyEmail: async () => {},
+  requestPasswordReset: async () => {},
+  resetPassword: async () => {},
   setSocket: () => {},
   initializeSocket: () => null,
   mockLogin: () => {}
@@ -42,12 +69,45 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [authState, setAuthState] = useState<AuthState>(initialAuthState);
   const [socketInitialized, setSocketInitialized] = useState<boolean>(false);
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<AppSocket | null>(null);
+
+  // Forget the login and send the user back to the login form with a reason
+  const endSession = useCallback((message: string) => {
+    authService.clearStoredUser();
+    setAuthState({
+      isAuthenticated: false,
+      user: null,
+      loading: false,
+      error: message,
+      sessionExpired: true
+    });
+  }, []);
+
+  // Swap the session's tokens for fresh ones; if the server won't, the session is over
+  const resumeSession = useCallback(() => {
+    authService.refreshSession()
+      .then(user => {
+        console.log('[AuthContext] Session refreshed for', user.username);
+        setAuthState({ isAuthenticated: true, user, loading: false, error: null });
+      })
+      .catch(error => {
+        console.warn('[AuthContext] Could not refresh the session:', error);
+        endSession('Your session has expired. Please log in again.');
+      });
+  }, [endSession]);
 
   useEffect(() => {
     // Check if user is already logged in from localStorage
     const storedUser = authService.getStoredUser();
-    if (storedUser) {
+    if (storedUser && authService.isSessionExpired(storedUser)) {
+      // The login token ran out while the app was closed: connect as a guest and refresh it
+      console.log('[AuthContext] Stored session expired, refreshing it');
+      const socket = initializeSocket();
+      if (socket) {
+        authService.setSocket(socket);
+      }
+      resumeSession();
+    } else if (storedUser) {
       setAuthState({
         isAuthenticated: true,
         user: storedUser,
@@ -66,6 +126,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setAuthState(prev => ({ ...prev, loading: false }));
     }
   }, []);
+
+  // Refresh the login token shortly before it expires, so reconnects keep working
+  const refreshToken = authState.user?.refreshToken;
+  const expiresAt = authState.user?.expiresAt;
+  useEffect(() => {
+    if (!refreshToken || !expiresAt) return;
+    const delay = Math.max(Date.parse(expiresAt) - Date.now() - SESSION_REFRESH_MARGIN, 0);
+    const timer = setTimeout(resumeSession, delay);
+    return () => clearTimeout(timer);
+  }, [refreshToken, expiresAt, resumeSession]);
 // Initialize socket with authentication
   const initializeSocket = () => {
     if (socketRef.current) {
@@ -74,26 +144,17 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
     
     console.log('[AuthContext] Creating new socket connection');
-    const options: any = {};
-    
-    // Add auth data to socket connection if user is authenticated
-    if (authState.isAuthenticated && authState.user?.token) {
-      options.auth = {
-        token: authState.user.token
-      };
-      console.log('[AuthContext] Added auth token to socket options');
-    } else if (authState.isAuthenticated && authState.user) {
-      options.auth = {
-        userId: authState.user.id,
-        username: authState.user.username
-      };
-      console.log('[AuthContext] Added user info to socket options');
-    } else {
-      console.log('[AuthContext] No auth data available, connecting as guest');
-    }
 
     try {
-      const socket = io('http://localhost:3001', options);
+      // The server binds the connection to the account the login token belongs to, or else to the guest the
+      // guest token names. Read on every (re)connect, so a login made after the socket was created is picked up.
+      const socket: AppSocket = io('http://localhost:3001', {
+        auth: (setAuth) => {
+          const token = authService.getSessionToken();
+          const guestToken = authService.getGuestToken();
+          setAuth(token ? { token } : guestToken ? { guestToken } : {});
+        }
+      });
       socketRef.current = socket;
 
       // Set up event handler for connection established
@@ -104,7 +165,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (authState.isAuthenticated && authState.user) {
           console.log('[AuthContext] Sending authenticated user data to server');
           socket.emit('user-authenticated', {
-            userId: authState.user.id,
             username: authState.user.username,
             color: authState.user.color
           });
@@ -114,12 +174,39 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       // Set up debug listeners
       socket.on('connect_error', (err) => {
         console.error('[AuthContext] Socket connection error:', err);
+
+        // The server didn't recognise our login token (e.g. it was ended by logging out elsewhere):
+        // forget the login and carry on as a guest
+        if (err.message === 'invalid-token') {
+          console.warn('[AuthContext] Login token refused by the server, signing out');
+          endSession('Your session is no longer valid. Please log in again.');
+          socket.connect();
+        }
+
+        // The login token expired before we refreshed it: connect without it and refresh it
+        if (err.message === 'session-expired') {
+          const storedUser = authService.getStoredUser();
+          if (storedUser) authService.storeUser({ ...storedUser, expiresAt: new Date().toISOString() });
+          socket.connect();
+          resumeSession();
+        }
       });
 
-      socket.on('disconnect', () => {
+      socket.on('disconnect', (reason) => {
         console.log('[AuthContext] Socket disconnected');
+
+        // The server drops sockets whose session was ended elsewhere (logout, password change or reset).
+        // Socket.IO won't reconnect by itself then; coming back with the old token gets it refused, as above.
+        if (reason === 'io server disconnect') socket.connect();
       });
 
+      // Listened for here rather than in App, since the server sends it as soon as we connect
+      socket.on('user-identity', validated('user-identity', (user) => {
+        console.log('[AuthContext] Server knows us as', user.id);
+        setCurrentUserId(user.id);
+        if (user.guestToken) authService.storeGuestToken(user.guestToken);
+      }));
+
       // Make socket available to auth service
       authService.setSocket(socket);
       
@@ -133,12 +220,43 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   // Set the socket in the auth service
-  const setSocket = (socket: Socket) => {
+  const setSocket = (socket: AppSocket) => {
     console.log('[AuthContext] Setting socket in AuthService');
     socketRef.current = socket;
     authService.setSocket(socket);
     setSocketInitialized(true);
-  };  // Login handler
+  };
+
+  // Show the signed-in user and tell the server who they are
+  const completeLogin = (user: User) => {
+    setAuthState({
+      isAuthenticated: true,
+      user,
+      loading: false,
+      error: null
+    });
+
+    // Send authenticated user data to server
+    if (socketRef.current) {
+      console.log('[AuthContext] Sending authenticated user data after login');
+      socketRef.current.emit('user-authenticated', {
+        username: user.username,
+        color: user.color
+      });
+    }
+  };
+
+  // A failed login; asking for the second factor is not an error, just the next step
+  const failLogin = (error: unknown) => {
+    const secondFactorRequired = error instanceof LoginError && error.code === 'second-factor-required';
+    setAuthState(prev => ({
+      ...prev,
+      loading: false,
+      error: secondFactorRequired ? null : error instanceof Error ? error.message : 'Login failed'
+    }));
+  };
+
+  // Login handler
   const login = async (username: string, password: string) => {
     try {
       setAuthState(prev => ({ ...prev, loading: true, error: null }));
@@ -160,32 +278,26 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
           throw error;
         }
       }
-      
-      setAuthState({
-        isAuthenticated: true,
-        user,
-        loading: false,
-        error: null
-      });
 
-      // Send authenticated user data to server
-      if (socketRef.current) {
-        console.log('[AuthContext] Sending authenticated user data after login');
-        socketRef.current.emit('user-authenticated', {
-          userId: user.id,
-          username: user.username,
-          color: user.color
-        });
-      }
+      completeLogin(user);
     } catch (error) {
-      setAuthState(prev => ({
-        ...prev,
-        loading: false,
-        error: error instanceof Error ? error.message : 'Login failed'
-      }));
+      failLogin(error);
+      throw error;
+    }
+  };
+
+  // The second step of a login refused with 'second-factor-required'
+  const loginSecondFactor = async (challenge: string, code: string) => {
+    try {
+      setAuthState(prev => ({ ...prev, loading: true, error: null }));
+      completeLogin(await authService.loginSecondFactor(challenge, code));
+    } catch (error) {
+      failLogin(error);
       throw error;
     }
-  };  
+  };
+
+
   // Register handler
   const register = async (username: string, email: string, password: string, color?: string) => {
     try {
@@ -220,7 +332,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       if (socketRef.current) {
         console.log('[AuthContext] Sending authenticated user data after registration');
         socketRef.current.emit('user-authenticated', {
-          userId: user.id,
           username: user.username,
           color: user.color
         });
@@ -237,6 +348,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   // Logout handler
   const logout = () => {
+    // Tell the server first so it ends the session while the socket is still connected
+    authService.logout();
+
     // Disconnect socket if it exists
     if (socketRef.current) {
       console.log('[AuthContext] Disconnecting socket during logout');
@@ -244,7 +358,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       socketRef.current = null;
     }
     
-    authService.logout();
     setAuthState({
       isAuthenticated: false,
       user: null,
@@ -252,6 +365,50 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       error: null
     });
   };
+  // A guest registering from inside the app. The server moves their work to the new account and signs
+  // the socket in, so unlike register there is nothing to announce afterwards.
+  const upgradeAccount = async (username: string, email: string, password: string, color?: string) => {
+    const user = await authService.upgradeAccount(username, email, password, color);
+    setAuthState({ isAuthenticated: true, user, loading: false, error: null });
+  };
+
+  // Profile changes reach everyone else through the server; here we only keep the signed-in user current.
+  // Errors are left to the caller, which shows them next to the form.
+  const updateProfile = async (changes: ProfileChanges) => {
+    const user = await authService.updateProfile(changes);
+    setAuthState(prev => ({ ...prev, user }));
+  };
+
+  const changePassword = (currentPassword: string, newPassword: string) =>
+    authService.changePassword(currentPassword, newPassword);
+
+  const setupTwoFactor = () => authService.setupTwoFactor();
+
+  // Resolves with the backup codes, for the caller to show once
+  const enableTwoFactor = async (code: string) => {
+    const response = await authService.enableTwoFactor(code);
+    if (response.user) setAuthState(prev => ({ ...prev, user: response.user ?? prev.user }));
+    return response.backupCodes || [];
+  };
+
+  const disableTwoFactor = async (code: string) => {
+    const response = await authService.disableTwoFactor(code);
+    if (response.user) setAuthState(prev => ({ ...prev, user: response.user ?? prev.user }));
+  };
+
+  const resendVerification = () => authService.resendVerification();
+
+  // The link may be for another account than the signed-in one; only ours is updated
+  const verifyEmail = async (token: string) => {
+    await authService.verifyEmail(token);
+    const storedUser = authService.getStoredUser();
+    setAuthState(prev => (prev.user && storedUser?.id === prev.user.id ? { ...prev, user: storedUser } : prev));
+  };
+
+  const requestPasswordReset = (email: string) => authService.requestPasswordReset(email);
+
+  const resetPassword = (token: string, newPassword: string) => authService.resetPassword(token, newPassword);
+
   // For demo/development - create a mock user without backend
   const mockLogin = (username: string) => {
     const mockUser = authService.mockLogin(username);
@@ -272,7 +429,6 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     if (socketRef.current) {
       console.log('[AuthContext] Sending authenticated mock user data');
       socketRef.current.emit('user-authenticated', {
-        userId: mockUser.id,
         username: mockUser.username,
         color: mockUser.color
       });
@@ -283,8 +439,19 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     <AuthContext.Provider value={{ 
       authState, 
       login, 
+      loginSecondFactor,
       register, 
       logout, 
+      upgradeAccount,
+      updateProfile,
+      changePassword,
+      setupTwoFactor,
+      enableTwoFactor,
+      disableTwoFactor,
+      resendVerification,
+      verifyEmail,
+      requestPasswordReset,
+      resetPassword,
       setSocket, 
       initializeSocket,
       mockLogin 
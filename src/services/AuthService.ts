@@ -1,12 +1,19 @@
-import { Socket } from 'socket.io-client';
+import { v4 as uuidv4 } from 'uuid';
+import type { AppSocket, AuthResponse, LoginErrorCode, ProfileChanges, TwoFactorResponse } from '../types/socketEvents';
 
 // Define types for user authentication
 export interface User {
   id: string;
   username: string;
   email?: string;
+  emailVerified?: boolean; // The user opened the link mailed to them
   color: string;
-  token?: string;
+  displayName?: string; // Shown to others instead of the username, if set
+  avatarUrl?: string; // A small image as a data: URL
+  twoFactorEnabled?: boolean; // Logging in takes a code from an authenticator app too
+  token?: string; // Login token from the server; guests have none
+  refreshToken?: string; // Trades itself for a new token pair once the login token expires
+  expiresAt?: string; // When the login token expires (ISO date)
 }
 
 export interface AuthState {
@@ -14,12 +21,29 @@ export interface AuthState {
   user: User | null;
   loading: boolean;
   error: string | null;
+  sessionExpired?: boolean; // The login could not be resumed or refreshed; the user has to log in again
+}
+
+// A login the server refused, with its reason
+export class LoginError extends Error {
+  code?: LoginErrorCode;
+  retryAfter?: number; // Seconds until the username or address may try again
+  challenge?: string; // With 'second-factor-required': what to send the code for
+
+  constructor(response: AuthResponse, fallbackMessage: string) {
+    super(response.error || fallbackMessage);
+    this.name = 'LoginError';
+    this.code = response.code;
+    this.retryAfter = response.retryAfter;
+    this.challenge = response.challenge;
+  }
 }
 
 // This would be replaced with actual API calls in production
 class AuthService {
   private localStorageKey = 'task_board_auth';
-  private socket: Socket | null = null;
+  private guestTokenKey = 'task_board_guest'; // Kept apart from the user: it outlives logins and logouts
+  private socket: AppSocket | null = null;
 
   constructor() {
     // Try to load the user from local storage on initialization
@@ -27,7 +51,7 @@ class AuthService {
   }
 
   // Set the socket instance for later use
-  setSocket(socket: Socket) {
+  setSocket(socket: AppSocket) {
     this.socket = socket;
   }
 
@@ -54,6 +78,51 @@ class AuthService {
   clearStoredUser(): void {
     localStorage.removeItem(this.localStorageKey);
   }
+
+  // The server's proof of which guest this browser is (see 'user-identity')
+  getGuestToken(): string | undefined {
+    return localStorage.getItem(this.guestTokenKey) ?? undefined;
+  }
+
+  storeGuestToken(token: string): void {
+    localStorage.setItem(this.guestTokenKey, token);
+  }
+
+  // True once a registered user's login token has expired; it may still be refreshed
+  isSessionExpired(user: User): boolean {
+    return !!user.expiresAt && Date.parse(user.expiresAt) <= Date.now();
+  }
+
+  // The login token to present on the socket handshake, if there is a current one
+  getSessionToken(): string | undefined {
+    const user = this.getStoredUser();
+    return user?.token && !this.isSessionExpired(user) ? user.token : undefined;
+  }
+
+  // Trade the stored refresh token for a new token pair. Rejects if there is none or the server refuses it
+  // (the session expired or was ended); the caller then has to send the user back to the login form.
+  async refreshSession(): Promise<User> {
+    const refreshToken = this.getStoredUser()?.refreshToken;
+    if (!refreshToken || !this.socket) {
+      throw new Error('No session to refresh');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('refresh-session', { refreshToken }, (response: { success: boolean, user?: User, error?: string }) => {
+        if (response.success && response.user) {
+          this.storeUser(response.user);
+          resolve(response.user);
+        } else {
+          reject(new Error(response.error || 'Session refresh failed'));
+        }
+      });
+
+      // Set a timeout for the server response
+      setTimeout(() => {
+        reject(new Error('Session refresh timed out. Server did not respond.'));
+      }, 5000);
+    });
+  }
   // Register a new user
   async register(username: string, email: string, password: string, color?: string): Promise<User> {
     // Simulate network request
@@ -84,6 +153,29 @@ class AuthService {
     });
   }
 
+  // Register the current guest, keeping what they did as a guest (see 'upgrade-account')
+  async upgradeAccount(username: string, email: string, password: string, color?: string): Promise<User> {
+    if (!this.socket) {
+      throw new Error('Not connected to the server');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('upgrade-account', { username, email, password, color }, (response: AuthResponse) => {
+        if (response.success && response.user) {
+          this.storeUser(response.user);
+          resolve(response.user);
+        } else {
+          reject(new Error(response.error || 'Registration failed'));
+        }
+      });
+
+      // Set a timeout for the server response
+      setTimeout(() => {
+        reject(new Error('Registration timed out. Server did not respond.'));
+      }, 5000);
+    });
+  }
+
   // Login an existing user
   async login(username: string, password: string): Promise<User> {
     // Simulate network request
@@ -93,20 +185,207 @@ class AuthService {
       return this.mockLogin(username);
     }
 
+    // No timeout: the server always answers, if need be once the socket has reconnected, and a
+    // timeout firing first would hide its actual answer (e.g. a lockout)
     return new Promise((resolve, reject) => {
       // Emit login event to server
-      this.socket?.emit('login', { username, password }, (response: { success: boolean, user?: User, error?: string }) => {
+      this.socket?.emit('login', { username, password }, (response: AuthResponse) => {
+        if (response.success && response.user) {
+          this.storeUser(response.user);
+          resolve(response.user);
+        } else {
+          reject(new LoginError(response, 'Login failed'));
+        }
+      });
+    });
+  }
+
+  // Finish a login that was refused with 'second-factor-required', with a code from the authenticator
+  // app or a backup code
+  async loginSecondFactor(challenge: string, code: string): Promise<User> {
+    if (!this.socket) {
+      throw new Error('Not connected to the server');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('login-second-factor', { challenge, code }, (response: AuthResponse) => {
         if (response.success && response.user) {
           this.storeUser(response.user);
           resolve(response.user);
         } else {
-          reject(new Error(response.error || 'Login failed'));
+          reject(new LoginError(response, 'Login failed'));
+        }
+      });
+    });
+  }
+
+  // Two-factor authentication for the signed-in user: setup returns the key for their authenticator app,
+  // enable and disable take a code from it (disable also takes a backup code)
+  async setupTwoFactor(): Promise<TwoFactorResponse> {
+    return this.emitTwoFactor(socket => new Promise(resolve => socket.emit('setup-2fa', resolve)));
+  }
+
+  async enableTwoFactor(code: string): Promise<TwoFactorResponse> {
+    return this.emitTwoFactor(socket => new Promise(resolve => socket.emit('enable-2fa', { code }, resolve)));
+  }
+
+  async disableTwoFactor(code: string): Promise<TwoFactorResponse> {
+    return this.emitTwoFactor(socket => new Promise(resolve => socket.emit('disable-2fa', { code }, resolve)));
+  }
+
+  // Send a two-factor request; a refusal rejects, and a changed user is stored (keeping the session's tokens)
+  private async emitTwoFactor(send: (socket: AppSocket) => Promise<TwoFactorResponse>): Promise<TwoFactorResponse> {
+    const storedUser = this.getStoredUser();
+    if (!storedUser?.token || !this.socket) {
+      throw new Error('Only registered users can use two-factor authentication');
+    }
+    const response = await send(this.socket);
+    if (!response.success) {
+      throw new Error(response.error || 'Two-factor authentication could not be changed');
+    }
+    if (response.user) {
+      const { token, refreshToken, expiresAt } = this.getStoredUser() || storedUser;
+      response.user = { ...response.user, token, refreshToken, expiresAt };
+      this.storeUser(response.user);
+    }
+    return response;
+  }
+
+  // Change the signed-in user's display name, color or avatar. Resolves to the updated user, session included
+  async updateProfile(changes: ProfileChanges): Promise<User> {
+    const storedUser = this.getStoredUser();
+    if (!storedUser?.token || !this.socket) {
+      throw new Error('Only registered users have a profile');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('update-profile', changes, (response: AuthResponse) => {
+        if (response.success && response.user) {
+          const { token, refreshToken, expiresAt } = this.getStoredUser() || storedUser;
+          const user = { ...response.user, token, refreshToken, expiresAt };
+          this.storeUser(user);
+          resolve(user);
+        } else {
+          reject(new Error(response.error || 'Could not update the profile'));
+        }
+      });
+
+      // Set a timeout for the server response
+      setTimeout(() => {
+        reject(new Error('Profile update timed out. Server did not respond.'));
+      }, 5000);
+    });
+  }
+
+  // Change the signed-in user's password; the server ends their other sessions
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    if (!this.getStoredUser()?.token || !this.socket) {
+      throw new Error('Only registered users have a password');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('change-password', { currentPassword, newPassword }, (response: AuthResponse) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error || 'Could not change the password'));
         }
       });
 
       // Set a timeout for the server response
       setTimeout(() => {
-        reject(new Error('Login timed out. Server did not respond.'));
+        reject(new Error('Password change timed out. Server did not respond.'));
+      }, 5000);
+    });
+  }
+
+  // Mail the signed-in user a new link to confirm their email address
+  async resendVerification(): Promise<void> {
+    if (!this.getStoredUser()?.token || !this.socket) {
+      throw new Error('Only registered users have an email address');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('resend-verification', (response: AuthResponse) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error || 'Could not send the email'));
+        }
+      });
+
+      setTimeout(() => {
+        reject(new Error('Request timed out. Server did not respond.'));
+      }, 5000);
+    });
+  }
+
+  // Confirm an email address with the token from the mailed link. If the link was for the signed-in user,
+  // the stored user is updated (keeping the session's tokens)
+  async verifyEmail(token: string): Promise<void> {
+    if (!this.socket) {
+      throw new Error('Not connected to the server');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('verify-email', { token }, (response: AuthResponse) => {
+        if (!response.success) {
+          reject(new Error(response.error || 'Could not confirm the email address'));
+          return;
+        }
+        const storedUser = this.getStoredUser();
+        if (response.user && storedUser?.id === response.user.id) {
+          const { token: sessionToken, refreshToken, expiresAt } = storedUser;
+          this.storeUser({ ...response.user, token: sessionToken, refreshToken, expiresAt });
+        }
+        resolve();
+      });
+
+      setTimeout(() => {
+        reject(new Error('Request timed out. Server did not respond.'));
+      }, 5000);
+    });
+  }
+
+  // Ask for a password reset link to be mailed to the address. Resolves the same whether or not any
+  // account has it
+  async requestPasswordReset(email: string): Promise<void> {
+    if (!this.socket) {
+      throw new Error('Not connected to the server');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('request-password-reset', { email }, (response: AuthResponse) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error || 'Could not request a password reset'));
+        }
+      });
+
+      setTimeout(() => {
+        reject(new Error('Request timed out. Server did not respond.'));
+      }, 5000);
+    });
+  }
+
+  // Set a new password with the token from a reset link; every session of the account ends
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    if (!this.socket) {
+      throw new Error('Not connected to the server');
+    }
+
+    return new Promise((resolve, reject) => {
+      this.socket?.emit('reset-password', { token, newPassword }, (response: AuthResponse) => {
+        if (response.success) {
+          resolve();
+        } else {
+          reject(new Error(response.error || 'Could not reset the password'));
+        }
+      });
+
+      setTimeout(() => {
+        reject(new Error('Password reset timed out. Server did not respond.'));
       }, 5000);
     });
   }
@@ -121,11 +400,10 @@ class AuthService {
   mockLogin(username: string, color?: string): User {
     console.log('[AuthService] Creating mock user with username:', username, 'and color:', color);
     const mockUser: User = {
-      id: `user_${Math.floor(Math.random() * 10000)}`,
+      id: `guest_${uuidv4()}`, // Local only: the server issues the guest's real id (see 'user-identity')
       username,
-      color: color || `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`,
-      token: `mock_token_${Math.random()}`
-    };
+      color: color || `#${Math.floor(Math.random() * 16777215).toString(16).padStart(6, '0')}`
+    }; // No login token: the server knows guests by their guest token and takes only name and color from here
     
     this.storeUser(mockUser);
     return mockUser;
@@ -0,0 +1,57 @@
+// Which board to open is encoded in the URL, either as a path (/board/<id>)
+// or as a hash (#/board/<id>) so links work without any server-side routing.
+// Invite links (#/invite/<token>) are opened once and then replaced by the board's own URL.
+// Links the server mails (#/verify-email/<token>, #/reset-password/<token>) are dropped once used.
+
+export const DEFAULT_BOARD_ID = 'main';
+
+const BOARD_PATTERN = /\/board\/([A-Za-z0-9_-]+)/;
+const INVITE_PATTERN = /^#\/invite\/([A-Za-z0-9_.-]+)/;
+const ACCOUNT_LINK_PATTERN = /^#\/(verify-email|reset-password)\/([A-Za-z0-9_.-]+)/;
+
+export interface AccountLink {
+  purpose: 'verify-email' | 'reset-password';
+  token: string;
+}
+
+// Get the board id from the current URL, falling back to the default board
+export const getBoardIdFromLocation = (): string => {
+  const fromHash = window.location.hash.match(BOARD_PATTERN);
+  if (fromHash) return fromHash[1];
+
+  const fromPath = window.location.pathname.match(BOARD_PATTERN);
+  if (fromPath) return fromPath[1];
+
+  return DEFAULT_BOARD_ID;
+};
+
+// Shareable link for a board
+export const getBoardUrl = (boardId: string): string => {
+  return `${window.location.origin}/#/board/${boardId}`;
+};
+
+// Token of the invite link the app is showing, if any
+export const getInviteTokenFromLocation = (): string | null => {
+  const match = window.location.hash.match(INVITE_PATTERN);
+  return match ? match[1] : null;
+};
+
+export const getInviteUrl = (token: string): string => {
+  return `${window.location.origin}/#/invite/${token}`;
+};
+
+// The mailed link the app was opened with, if any
+export const getAccountLinkFromLocation = (): AccountLink | null => {
+  const match = window.location.hash.match(ACCOUNT_LINK_PATTERN);
+  return match ? { purpose: match[1] as AccountLink['purpose'], token: match[2] } : null;
+};
+
+// Drop a used account link from the URL, without a 'hashchange' event
+export const clearAccountLink = (): void => {
+  window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+};
+
+// Point the URL at a board; triggers a 'hashchange' event
+export const navigateToBoard = (boardId: string): void => {
+  window.location.hash = `/board/${boardId}`;
+};
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AppSocket, ObjectMovedData, Versioned, VersionedWriteResponse } from '../types/socketEvents';
+import { OfflineQueue } from './offlineQueue';
+
+// Enough of a socket for the queue: emit for fire-and-forget events, timeout().emitWithAck for versioned writes.
+// There is no IndexedDB under Node, so the queue keeps its edits in memory.
+function fakeSocket(answer: (event: string, payload: unknown) => VersionedWriteResponse = () => ({ success: true, version: 1, seq: 1 })) {
+  const sent: Array<[string, unknown]> = [];
+  const socket = {
+    connected: false,
+    sent,
+    emit: vi.fn((event: string, payload: unknown) => {
+      sent.push([event, payload]);
+    }),
+    timeout: () => ({
+      emitWithAck: async (event: string, payload: unknown) => {
+        sent.push([event, payload]);
+        return answer(event, payload);
+      }
+    })
+  };
+  return socket as typeof socket & AppSocket;
+}
+
+const move = (objectId: string, baseVersion: number): Versioned<ObjectMovedData> => ({
+  objectId,
+  position: { x: 0, y: 0, z: 0 },
+  rotation: { x: 0, y: 0, z: 0, order: 'XYZ' },
+  scale: { x: 1, y: 1, z: 1 },
+  baseVersion
+});
+
+// emit() queues in the background; wait for the queue to reach a count
+const queued = async (queue: OfflineQueue, boardId: string, count: number) => {
+  await vi.waitFor(async () => expect(await queue.count(boardId)).toBe(count));
+};
+
+describe('OfflineQueue', () => {
+  let queue: OfflineQueue;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    queue = new OfflineQueue();
+    queue.setBoard('board_a');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('sends straight away while connected', () => {
+    const socket = fakeSocket();
+    socket.connected = true;
+    const callback = vi.fn();
+
+    queue.emit(socket, 'object-moved', move('cube', 1), callback);
+    queue.emit(socket, 'request-delete-object', { objectId: 'cube' });
+    expect(socket.emit).toHaveBeenNthCalledWith(1, 'object-moved', move('cube', 1), callback);
+    expect(socket.emit).toHaveBeenNthCalledWith(2, 'request-delete-object', { objectId: 'cube' });
+  });
+
+  it('queues edits made offline and replays them in order once back', async () => {
+    const socket = fakeSocket();
+    queue.emit(socket, 'object-moved', move('cube', 1));
+    queue.emit(socket, 'request-delete-object', { objectId: 'sphere' });
+    queue.emit(socket, 'object-moved', move('cube', 2));
+    await queued(queue, 'board_a', 3);
+    expect(socket.sent).toEqual([]);
+
+    socket.connected = true;
+    const result = await queue.replay(socket, 'board_a');
+    expect(result).toEqual({ replayed: 3, conflicts: [] });
+    expect(socket.sent).toEqual([
+      ['object-moved', move('cube', 1)],
+      ['request-delete-object', { objectId: 'sphere' }],
+      ['object-moved', move('cube', 2)]
+    ]);
+    expect(await queue.count('board_a')).toBe(0);
+  });
+
+  it('reports edits the server refuses as conflicts', async () => {
+    const rejection = { operation: 'object-moved' as const, objectId: 'cube', reason: 'stale-version' as const, baseVersion: 1, currentState: null };
+    const socket = fakeSocket((_event, payload) =>
+      (payload as Versioned<ObjectMovedData>).baseVersion === 1
+        ? { success: false, error: 'operation-rejected', rejection }
+        : { success: true, version: 3, seq: 3 });
+    queue.emit(socket, 'object-moved', move('cube', 1));
+    queue.emit(socket, 'object-moved', move('ball', 2));
+    await queued(queue, 'board_a', 2);
+
+    socket.connected = true;
+    const result = await queue.replay(socket, 'board_a');
+    expect(result.replayed).toBe(2);
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0].operation.payload).toEqual(move('cube', 1));
+    expect(result.conflicts[0].rejection).toBe(rejection);
+  });
+
+  it('keeps each board\'s edits for that board', async () => {
+    const socket = fakeSocket();
+    queue.emit(socket, 'request-delete-object', { objectId: 'on_a' });
+    await queued(queue, 'board_a', 1);
+    queue.setBoard('board_b');
+    queue.emit(socket, 'request-delete-object', { objectId: 'on_b' });
+    await queued(queue, 'board_b', 1);
+
+    socket.connected = true;
+    expect(await queue.replay(socket, 'board_b')).toEqual({ replayed: 1, conflicts: [] });
+    expect(socket.sent).toEqual([['request-delete-object', { objectId: 'on_b' }]]);
+    expect(await queue.count('board_a')).toBe(1);
+  });
+
+  it('stops replaying when the connection drops, keeping what was not sent', async () => {
+    const socket = fakeSocket(() => {
+      socket.connected = false;
+      return { success: true, version: 2, seq: 2 };
+    });
+    queue.emit(socket, 'object-moved', move('cube', 1));
+    queue.emit(socket, 'object-moved', move('cube', 2));
+    await queued(queue, 'board_a', 2);
+
+    socket.connected = true;
+    expect(await queue.replay(socket, 'board_a')).toEqual({ replayed: 1, conflicts: [] });
+    expect(await queue.count('board_a')).toBe(1);
+  });
+
+  it('drops edits made before joining a board', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    new OfflineQueue().emit(fakeSocket(), 'request-delete-object', { objectId: 'cube' });
+    expect(warn).toHaveBeenCalledWith("[OfflineQueue] No board joined yet; dropping 'request-delete-object'");
+  });
+});
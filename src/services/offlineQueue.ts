@@ -0,0 +1,214 @@
+import type {
+  AppSocket,
+  ClientToServerEvents,
+  ForbiddenResponse,
+  InvalidPayloadResponse,
+  OperationRejectedData,
+  VersionedWriteResponse
+} from '../types/socketEvents';
+
+// Board edits made while the socket is disconnected are kept here, in IndexedDB, instead of being lost.
+// Once the client is back on the board they are replayed in the order they were made. Writes carry the
+// object version they were based on, so the server refuses any that clash with what others did meanwhile;
+// replay() reports those as conflicts.
+
+// Events that change the board; cursors and selections are not worth keeping
+export type QueuedEvent =
+  | 'object-moved'
+  | 'object-property-changed'
+  | 'task-status-update'
+  | 'request-create-object'
+  | 'request-delete-object'
+  | 'text-operations';
+
+type QueuedPayload<E extends QueuedEvent> = Parameters<ClientToServerEvents[E]>[0];
+
+export interface QueuedOperation<E extends QueuedEvent = QueuedEvent> {
+  id?: number; // Assigned by IndexedDB; increasing, so it keeps the order the edits were made in
+  boardId: string;
+  event: E;
+  payload: QueuedPayload<E>;
+  queuedAt: string;
+}
+
+export interface ReplayConflict {
+  operation: QueuedOperation;
+  rejection: OperationRejectedData | InvalidPayloadResponse | ForbiddenResponse;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  conflicts: ReplayConflict[];
+}
+
+// Writes the server answers with a VersionedWriteResponse
+const VERSIONED_EVENTS: QueuedEvent[] = ['object-moved', 'object-property-changed', 'task-status-update'];
+
+const DB_NAME = 'task_board_offline';
+const STORE_NAME = 'operations';
+const REPLAY_ACK_TIMEOUT = 10000;
+
+// Wrap an IDBRequest in a promise
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// socket.emit can't be typed for an event only known at runtime; the payload was typed when it was queued
+type LooseEmit = (event: string, ...args: unknown[]) => void;
+
+export class OfflineQueue {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private memoryQueue: QueuedOperation[] = []; // Used when IndexedDB is unavailable (e.g. some private windows)
+  private nextMemoryId = 1;
+  private boardId: string | null = null;
+  private replaying = false;
+  private listeners = new Set<(pending: number) => void>();
+
+  // The board edits are currently being made on
+  setBoard(boardId: string) {
+    this.boardId = boardId;
+    this.notify();
+  }
+
+  // Send a board edit, or queue it if we're offline (or still replaying older edits, to keep them in order).
+  // The callback only runs when the edit is sent straight away; queued edits are settled by replay().
+  emit<E extends QueuedEvent>(
+    socket: AppSocket,
+    event: E,
+    payload: QueuedPayload<E>,
+    callback?: (response: VersionedWriteResponse) => void
+  ): void {
+    if (socket.connected && !this.replaying) {
+      const emit = socket.emit.bind(socket) as LooseEmit;
+      if (callback) {
+        emit(event, payload, callback);
+      } else {
+        emit(event, payload);
+      }
+      return;
+    }
+    if (!this.boardId) {
+      console.warn(`[OfflineQueue] No board joined yet; dropping '${event}'`);
+      return;
+    }
+    console.log(`[OfflineQueue] Offline, queued '${event}'`);
+    this.add({ boardId: this.boardId, event, payload, queuedAt: new Date().toISOString() })
+      .catch(error => console.error('[OfflineQueue] Failed to queue operation:', error));
+  }
+
+  // Number of edits waiting to be sent for a board
+  async count(boardId: string): Promise<number> {
+    return (await this.list(boardId)).length;
+  }
+
+  // Called with the current board's pending count whenever it changes; returns an unsubscribe function
+  subscribe(listener: (pending: number) => void): () => void {
+    this.listeners.add(listener);
+    this.notify();
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Send everything queued for a board, oldest first. Call it once the socket has (re)joined the board.
+  async replay(socket: AppSocket, boardId: string): Promise<ReplayResult> {
+    const result: ReplayResult = { replayed: 0, conflicts: [] };
+    if (this.replaying) return result;
+    this.replaying = true;
+
+    try {
+      // Edits queued while we replay join the end of the queue, so keep going until it's empty
+      let operations = await this.list(boardId);
+      while (operations.length > 0 && socket.connected) {
+        for (const operation of operations) {
+          if (!socket.connected) break;
+          // Once handed to the socket the edit is its responsibility (it buffers across short drops)
+          await this.remove(operation.id!);
+          const response = await this.send(socket, operation);
+          result.replayed++;
+          if (response && !response.success) {
+            const rejection = response.error === 'operation-rejected' ? response.rejection : response;
+            result.conflicts.push({ operation, rejection });
+          }
+        }
+        operations = socket.connected ? await this.list(boardId) : [];
+      }
+    } finally {
+      this.replaying = false;
+      this.notify();
+    }
+    return result;
+  }
+
+  private send(socket: AppSocket, operation: QueuedOperation): Promise<VersionedWriteResponse | null> {
+    const emit = socket.emit.bind(socket) as LooseEmit;
+    if (!VERSIONED_EVENTS.includes(operation.event)) {
+      emit(operation.event, operation.payload);
+      return Promise.resolve(null);
+    }
+    const timed = socket.timeout(REPLAY_ACK_TIMEOUT);
+    const emitWithAck = timed.emitWithAck.bind(timed) as (event: string, ...args: unknown[]) => Promise<VersionedWriteResponse>;
+    // No answer in time: the edit still went out, we just can't tell whether it clashed
+    return emitWithAck(operation.event, operation.payload).catch(() => null);
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn('[OfflineQueue] IndexedDB unavailable, offline edits will only be kept in memory:', request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async add(operation: QueuedOperation): Promise<void> {
+    const db = await this.open();
+    if (db) {
+      await requestResult(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).add(operation));
+    } else {
+      this.memoryQueue.push({ ...operation, id: this.nextMemoryId++ });
+    }
+    this.notify();
+  }
+
+  private async list(boardId: string): Promise<QueuedOperation[]> {
+    const db = await this.open();
+    const operations = db
+      ? await requestResult(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).getAll() as IDBRequest<QueuedOperation[]>)
+      : this.memoryQueue;
+    return operations.filter(operation => operation.boardId === boardId).sort((a, b) => a.id! - b.id!);
+  }
+
+  private async remove(id: number): Promise<void> {
+    const db = await this.open();
+    if (db) {
+      await requestResult(db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).delete(id));
+    } else {
+      this.memoryQueue = this.memoryQueue.filter(operation => operation.id !== id);
+    }
+  }
+
+  private notify() {
+    const boardId = this.boardId;
+    if (!boardId || this.listeners.size === 0) return;
+    this.count(boardId)
+      .then(pending => this.listeners.forEach(listener => listener(pending)))
+      .catch(error => console.error('[OfflineQueue] Failed to count queued operations:', error));
+  }
+}
+
+export const offlineQueue = new OfflineQueue();
@@ -1,22 +1,35 @@
-import { Socket } from 'socket.io-client';
+import type { AppSocket } from '../types/socketEvents';
 import { useAuth } from '../context/AuthContext';
 
 // This is a singleton pattern to access the socket instance from anywhere
-let socketInstance: Socket | null = null;
+let socketInstance: AppSocket | null = null;
 
 // Function to get the socket instance
-export const getSocket = (): Socket | null => {
+export const getSocket = (): AppSocket | null => {
   return socketInstance;
 };
 
 // Function to set the socket instance
-export const setSocket = (socket: Socket): void => {
+export const setSocket = (socket: AppSocket): void => {
   socketInstance = socket;
 };
 
+// Who the server says we are ('user-identity'). It stays the same across reconnects and tabs,
+// unlike the socket id, so it is what cursors, presence and activity log entries carry.
+let currentUserId: string | null = null;
+
+// The current user's id, or 'system' before the server has told us
+export const getCurrentUserId = (): string => {
+  return currentUserId || 'system';
+};
+
+export const setCurrentUserId = (userId: string): void => {
+  currentUserId = userId;
+};
+
 // Export a proxy object that forwards calls to the socket instance
 // This allows components to import and use socket directly
-export const socket = new Proxy({} as Socket, {
+export const socket = new Proxy({} as AppSocket, {
   get: (target, prop) => {
     // Get the current socket instance
     const currentSocket = getSocket();
@@ -0,0 +1,488 @@
+// The Socket.IO event catalogue: every event the client and server/index.js exchange, with its payload.
+// Client code gets these checked through AppSocket; the server refers to them from JSDoc.
+// When adding an event, add it here first, give it a handler on the other side and a schema in
+// server/eventSchemas.js or src/utils/eventSchemas.ts (whichever side receives it).
+
+import type { Socket } from 'socket.io-client';
+import type { EulerOrder } from 'three';
+import type { ActivityLogEntry, ChecklistItem, ChecklistUpdateAction, TaskComment, TaskData } from '../App';
+import type { TaskFieldProperty, TaskFieldValue } from '../utils/taskFields';
+import type { User } from '../services/AuthService';
+import type { TaskTextField, TextCrdtState, TextOperation } from '../utils/textCrdt';
+import type { LaneField, Swimlane, SwimlaneGrouping, WipPolicy, WorkflowZone } from '../utils/workflow';
+
+export interface Vector3Data {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface RotationData extends Vector3Data {
+  order?: EulerOrder;
+}
+
+// ---- Boards and their objects ----
+
+// What a user may do on a board, least to most (see src/utils/boardRoles.ts)
+export type BoardRole = 'viewer' | 'commenter' | 'editor' | 'owner';
+
+export interface BoardInfo {
+  id: string;
+  name?: string;
+  createdAt: string;
+  createdBy?: string;
+  defaultRole?: BoardRole | null; // Role of everyone who isn't a member; null: members only
+}
+
+export interface BoardMember {
+  userId: string;
+  username?: string;
+  role: BoardRole;
+}
+
+export interface BoardMembersResponse {
+  success: boolean;
+  members?: BoardMember[];
+  error?: string;
+}
+
+// A registered member of the current board found by 'find-users', e.g. to assign a task to
+export interface UserMatch {
+  userId: string;
+  username: string;
+  displayName?: string;
+}
+
+// An invite link, as its board's owners see it (the link itself is only sent once, on creation)
+export interface BoardInvite {
+  id: string;
+  boardId: string;
+  role: BoardRole;
+  public: boolean; // The board's read-only link: lets anyone view the board without becoming a member
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  uses: number;
+}
+
+export interface InvitesResponse {
+  success: boolean;
+  invites?: BoardInvite[]; // The board's usable invites after the change
+  invite?: BoardInvite; // create-invite: the new invite...
+  token?: string; // ...and the token its link carries
+  error?: string;
+}
+
+export interface AcceptInviteResponse {
+  success: boolean;
+  board?: BoardInfo;
+  role?: BoardRole | null;
+  error?: string;
+}
+
+export interface BoardResponse {
+  success: boolean;
+  board?: BoardInfo;
+  error?: string;
+  upToDate?: boolean; // join-board: the client's `since` was current, so no snapshot was sent
+}
+
+// Where a client is in a board's stream of changes. seq increases with every accepted change;
+// seqs from different epochs (server runs) can't be compared.
+export interface BoardSequence {
+  epoch: string;
+  seq: number;
+}
+
+// Board events carry the board's seq after the change they describe. The server keeps the latest of them,
+// so a client that sees a gap can ask for the events it missed ('request-board-events').
+export type Sequenced<T> = T & { seq: number };
+
+// Reply to an event whose payload failed the server's schema check (server/eventSchemas.js).
+// The event was dropped without being applied or relayed.
+export interface InvalidPayloadResponse {
+  success: false;
+  error: 'invalid-payload';
+  event: string;
+  message: string; // Which field was wrong, e.g. "position.x must be a finite number"
+}
+
+// Reply to an event the sender's role on the board doesn't allow (see server/boardRoles.js).
+// Sent through the ack when there is one, otherwise as a 'permission-denied' event.
+export interface ForbiddenResponse {
+  success: false;
+  error: 'forbidden';
+  event: string;
+  message: string;
+}
+
+// A task object as the server stores it
+export interface BoardObjectData {
+  sharedId: string;
+  type: 'cube' | 'sphere' | 'torus';
+  position: Vector3Data;
+  rotation: RotationData;
+  scale: Vector3Data;
+  color: number;
+  taskData: TaskData;
+  version?: number; // Assigned by the server; bumped on every accepted change
+  text?: Partial<Record<TaskTextField, TextCrdtState>>; // Server's CRDT state for the title and description
+  createdBy?: string; // Set by the server: id of the user who created the task
+}
+
+// How a board's floor is laid out
+export interface BoardLayoutData {
+  workflow: WorkflowZone[];
+  wipPolicy: WipPolicy;
+  swimlanes: SwimlaneGrouping | null; // What the lanes group the tasks by; null: no lanes
+  lanes: Swimlane[]; // Front to back
+}
+
+export interface BoardSnapshotData extends BoardSequence, BoardLayoutData {
+  objects: BoardObjectData[];
+}
+
+// A board's new layout (a new workflow, or lanes that changed with the tasks), and the tasks that took their
+// zone's new name, moved with it or moved into their lane
+export interface WorkflowUpdateData extends BoardLayoutData {
+  objects: BoardObjectData[];
+}
+
+export interface ObjectMovedData {
+  objectId: string;
+  position: Vector3Data;
+  rotation: RotationData;
+  scale: Vector3Data;
+  taskStatus?: TaskData['status'];
+  laneField?: LaneField; // Set when the task was dragged into another swimlane
+  userId?: string;
+  activityLogEntry?: ActivityLogEntry;
+}
+
+// Title and description are not properties: they change through 'text-operations'
+export interface ObjectPropertyUpdateData {
+  objectId: string;
+  property: 'color' | 'scale' | 'taskStatus' | 'taskChecklistUpdate' | TaskFieldProperty;
+  value: string | number | Vector3Data | TaskData['status'] | ChecklistUpdateAction | ChecklistItem[] | TaskFieldValue; // Undoing a checklist change sends the old checklist
+  userId?: string; // User who initiated the change
+  activityLogEntry?: ActivityLogEntry; // Optional log entry for this specific update
+  fullTaskData?: TaskData; // The sender's complete task data after the change
+}
+
+// Status change made by dragging a task into another zone
+export interface TaskStatusUpdateData {
+  objectId: string;
+  newStatus: TaskData['status'];
+  oldStatus?: TaskData['status'];
+  baseVersion: number;
+  activityLogEntry?: ActivityLogEntry;
+}
+
+// Writes are checked against the object version they were based on
+export type Versioned<T> = T & { baseVersion: number };
+
+// Sent back by the server when a write was based on an outdated (or missing) object version, or broke a board
+// rule. A refused 'request-create-object' has no currentState: the task was never added
+export interface OperationRejectedData {
+  operation: 'object-moved' | 'object-property-changed' | 'task-status-update' | 'request-create-object';
+  objectId: string;
+  // unknown-assignee: not a registered user; unknown-status: not one of the board's zones;
+  // wip-limit: the zone is at its WIP limit and the board's policy refuses moves (or new tasks) past it;
+  // invalid-dependency: a new blocker is the task itself, isn't on the board, or already waits on the task
+  reason: 'stale-version' | 'not-found' | 'missing-version' | 'unknown-assignee' | 'unknown-status' | 'wip-limit' | 'invalid-dependency';
+  baseVersion?: number;
+  currentState: BoardObjectData | null;
+}
+
+// Acknowledgement for versioned writes
+export type VersionedWriteResponse =
+  | { success: true; version: number; seq: number }
+  | { success: false; error: 'operation-rejected'; rejection: OperationRejectedData }
+  | InvalidPayloadResponse
+  | ForbiddenResponse;
+
+// ---- Collaborative text ----
+
+export interface TextOperationsData {
+  objectId: string;
+  field: TaskTextField;
+  ops: TextOperation[];
+  userId?: string;
+}
+
+// A user's caret or selection inside a task's title or description.
+// start/end are the ids of the characters the selection edges sit after (null = start of the text),
+// so the selection stays on the same characters while others edit around it.
+export interface TextSelectionData {
+  objectId: string;
+  field: TaskTextField;
+  start: string | null;
+  end: string | null;
+}
+
+// selection is null once the user left the field
+export interface TextSelectionUpdateData {
+  userId: string;
+  username?: string;
+  color?: string;
+  selection: TextSelectionData | null;
+}
+
+// ---- Presence ----
+
+export interface UserData {
+  id: string; // The user's, not the socket's: 'user_…' for accounts, 'guest_…' for guests
+  color: string;
+  username?: string; // The name to show: a registered user's display name if they picked one
+  avatarUrl?: string; // Registered users' avatar image, as a data: URL
+}
+
+// Who this socket acts as. A guest's id is issued by the server, with the token that proves it on reconnect
+export interface UserIdentity extends UserData {
+  guestToken?: string; // Guests only: present as the handshake's auth.guestToken to keep the same id
+}
+
+// Pointer position on the board, in world coordinates
+export interface CursorUpdateData {
+  userId: string;
+  color: string;
+  position: Vector3Data;
+}
+
+// Pointer position in screen coordinates
+export interface ScreenCursorData {
+  userId: string;
+  x: number;
+  y: number;
+}
+
+// Why a login was refused. locked-out: too many failed attempts for the username or from this
+// address; retryAfter says when to try again. second-factor-required: the password was right, now send
+// a code for the challenge with 'login-second-factor'.
+export type LoginErrorCode =
+  | 'invalid-credentials'
+  | 'locked-out'
+  | 'login-in-progress'
+  | 'second-factor-required'
+  | 'invalid-code'
+  | 'challenge-expired';
+
+export interface AuthResponse {
+  success: boolean;
+  user?: User;
+  error?: string;
+  code?: LoginErrorCode; // login and login-second-factor only
+  retryAfter?: number; // Seconds, with 'locked-out'
+  challenge?: string; // With 'second-factor-required'
+}
+
+export interface TwoFactorResponse {
+  success: boolean;
+  error?: string;
+  secret?: string; // setup-2fa: the key for the authenticator app...
+  otpauthUri?: string; // ...and the otpauth:// URI that carries it
+  backupCodes?: string[]; // enable-2fa: single-use codes, only ever sent this once
+  user?: User; // enable-2fa and disable-2fa: the updated user
+}
+
+// An entry in the server's audit trail of account activity (server/authAudit.js)
+export type AuthEventType =
+  | 'login'
+  | 'login-failed'
+  | 'login-locked'
+  | 'register'
+  | 'logout'
+  | 'token-refresh'
+  | 'refresh-failed'
+  | 'password-change'
+  | 'password-reset-requested'
+  | 'password-reset'
+  | 'email-verified'
+  | 'two-factor-enabled'
+  | 'two-factor-disabled';
+
+export interface AuthEvent {
+  id: string;
+  type: AuthEventType;
+  timestamp: string;
+  username: string | null;
+  userId: string | null;
+  address: string | null;
+}
+
+// What a registered user can change about how others see them; avatarUrl null removes the avatar,
+// an empty displayName goes back to the username
+export interface ProfileChanges {
+  displayName?: string;
+  color?: string;
+  avatarUrl?: string | null;
+}
+
+// ---- 3D mode ----
+
+export interface ChatMessage {
+  id: string;
+  sender: string;
+  content: string;
+  timestamp: number;
+  position: [number, number, number];
+  color: string;
+}
+
+export interface User3D {
+  id: string;
+  username: string;
+  position: [number, number, number];
+  color: string;
+  speaking: boolean;
+}
+
+export interface KanbanCard {
+  id: string;
+  title: string;
+  description: string;
+  status: string;
+  assignee?: string;
+  color: string;
+  position: [number, number, number];
+}
+
+export interface KanbanColumn {
+  id: string;
+  title: string;
+  position: [number, number, number];
+  cards: KanbanCard[];
+}
+
+// ---- Events ----
+
+export interface ClientToServerEvents {
+  // Boards
+  'list-boards': (callback: (boards: BoardInfo[]) => void) => void;
+  'create-board': (data: { name?: string }, callback: (response: BoardResponse) => void) => void;
+  'join-board': (data: { boardId: string; since?: BoardSequence }, callback: (response: BoardResponse) => void) => void;
+  'leave-board': () => void;
+  'request-board-snapshot': () => void;
+  'request-board-events': (data: { since: BoardSequence }) => void; // Answered with the missed events, or a snapshot
+  'list-board-members': (callback: (response: BoardMembersResponse) => void) => void; // Of the current board
+  // Owners only. Identify the user by id, or by username for registered users; role null removes them
+  'set-board-member': (
+    data: { userId?: string; username?: string; role: BoardRole | null },
+    callback: (response: BoardMembersResponse) => void
+  ) => void;
+  // Editors: registered users whose username or display name contains the query, at most 10
+  'find-users': (data: { query: string }, callback: (response: { success: boolean; users?: UserMatch[]; error?: string }) => void) => void;
+  // Owners only, for the current board. public: the read-only link (always viewer, no limits)
+  'create-invite': (
+    data: { role: BoardRole; expiresInHours?: number; maxUses?: number; public?: boolean },
+    callback: (response: InvitesResponse) => void
+  ) => void;
+  'list-invites': (callback: (response: InvitesResponse) => void) => void;
+  'revoke-invite': (data: { inviteId: string }, callback: (response: InvitesResponse) => void) => void;
+  'accept-invite': (data: { token: string }, callback: (response: AcceptInviteResponse) => void) => void;
+  // Owners only, for the current board. Refused if it would remove a zone that still has tasks in it.
+  // Without a wipPolicy or swimlanes the board keeps its current ones.
+  'update-workflow': (
+    data: { workflow: WorkflowZone[]; wipPolicy?: WipPolicy; swimlanes?: SwimlaneGrouping | null },
+    callback: (response: { success: boolean; error?: string }) => void
+  ) => void;
+
+  // Accounts
+  'register': (
+    data: { username: string; email: string; password: string; color?: string },
+    callback: (response: AuthResponse) => void
+  ) => void;
+  // A guest registering; what they did as a guest is attributed to the new account
+  'upgrade-account': (
+    data: { username: string; email: string; password: string; color?: string },
+    callback: (response: AuthResponse) => void
+  ) => void;
+  'login': (data: { username: string; password: string }, callback: (response: AuthResponse) => void) => void;
+  // code: from the authenticator app, or a backup code
+  'login-second-factor': (data: { challenge: string; code: string }, callback: (response: AuthResponse) => void) => void;
+  'refresh-session': (data: { refreshToken: string }, callback: (response: AuthResponse) => void) => void;
+  'logout': () => void; // Also ends the session on the server
+  // Registered users only; answered with the updated user (without the session's tokens)
+  'update-profile': (data: ProfileChanges, callback: (response: AuthResponse) => void) => void;
+  'change-password': (data: { currentPassword: string; newPassword: string }, callback: (response: AuthResponse) => void) => void;
+  'setup-2fa': (callback: (response: TwoFactorResponse) => void) => void;
+  'enable-2fa': (data: { code: string }, callback: (response: TwoFactorResponse) => void) => void;
+  'disable-2fa': (data: { code: string }, callback: (response: TwoFactorResponse) => void) => void;
+  // Email verification and password resets. The tokens come from the links the server mails
+  // (#/verify-email/<token>, #/reset-password/<token>); opening them needn't be done signed in.
+  'resend-verification': (callback: (response: AuthResponse) => void) => void;
+  // The updated user comes back only if the socket is signed in as the user the link was for
+  'verify-email': (data: { token: string }, callback: (response: AuthResponse) => void) => void;
+  // Always succeeds, whether or not any account has the address
+  'request-password-reset': (data: { email: string }, callback: (response: AuthResponse) => void) => void;
+  // Ends every session of the account
+  'reset-password': (data: { token: string; newPassword: string }, callback: (response: AuthResponse) => void) => void;
+  // Admins only (ADMIN_USERS on the server); newest first
+  'list-auth-events': (
+    filter: { username?: string; type?: AuthEventType; limit?: number },
+    callback: (response: { success: boolean; events?: AuthEvent[]; error?: string }) => void
+  ) => void;
+  'user-authenticated': (data: { username?: string; color?: string }) => void;
+
+  // Board objects
+  'object-moved': (data: Versioned<ObjectMovedData>, callback?: (response: VersionedWriteResponse) => void) => void;
+  'object-property-changed': (
+    data: Versioned<ObjectPropertyUpdateData>,
+    callback?: (response: VersionedWriteResponse) => void
+  ) => void;
+  'task-status-update': (data: TaskStatusUpdateData, callback?: (response: VersionedWriteResponse) => void) => void;
+  'request-create-object': (data: BoardObjectData) => void;
+  'request-delete-object': (data: { objectId: string }) => void;
+  'text-operations': (data: TextOperationsData) => void;
+  'text-selection': (data: TextSelectionData | { objectId: null }) => void;
+  'add-comment': (data: { objectId: string; text: string }) => void;
+
+  // Presence
+  'cursor-moved': (data: { position: Vector3Data }) => void;
+  'cursor-move': (data: Omit<ScreenCursorData, 'userId'>) => void;
+
+  // 3D mode
+  'chat-message': (data: { content: string }) => void; // The server signs it and places it above the sender's avatar
+  'user-joined': (data: Pick<User3D, 'position' | 'speaking'>) => void; // The server adds who the user is
+  'user-move': (data: { userId: string; position: [number, number, number] }) => void;
+  'kanban-update': (columns: KanbanColumn[]) => void;
+}
+
+export interface ServerToClientEvents {
+  // Boards
+  'board-snapshot': (data: BoardSnapshotData) => void; // Also sent to everyone on a board after a guest's tasks moved to their new account
+  'boards-updated': (boards: BoardInfo[]) => void;
+  'board-seq': (data: { seq: number }) => void; // Stands in for the broadcast of our own change, which we aren't sent
+  'board-role': (data: { boardId: string; role: BoardRole | null }) => void; // On joining and when it changes; null: taken off the board
+  'workflow-updated': (data: Sequenced<WorkflowUpdateData>) => void;
+
+  // Board objects
+  'object-updated': (data: Sequenced<ObjectMovedData & { version: number }>) => void;
+  'object-property-updated': (data: Sequenced<ObjectPropertyUpdateData & { version: number }>) => void;
+  'object-created': (data: Sequenced<BoardObjectData>) => void;
+  'object-deleted': (data: Sequenced<{ objectId: string }>) => void;
+  'operation-rejected': (data: OperationRejectedData) => void;
+  'invalid-payload': (data: InvalidPayloadResponse) => void; // Only sent when the dropped event had no ack
+  'permission-denied': (data: ForbiddenResponse) => void; // Likewise
+  'comment-added': (data: Sequenced<{ objectId: string; comment: TaskComment }>) => void;
+  'text-operations': (data: Sequenced<TextOperationsData>) => void;
+  'text-selection-updated': (data: TextSelectionUpdateData) => void;
+
+  // Presence
+  'user-list-updated': (users: UserData[]) => void; // Once per user, however many tabs they have open; also sent on profile changes
+  'user-identity': (user: UserIdentity) => void; // Who this socket acts as, on connect and whenever that changes
+  'cursor-updated': (data: CursorUpdateData) => void;
+  'cursor-move': (data: ScreenCursorData) => void;
+  'user-cursor-removed': (data: { userId: string }) => void;
+
+  // 3D mode
+  'chat-message': (message: ChatMessage) => void;
+  'users-update': (users: User3D[]) => void;
+  'kanban-update': (columns: KanbanColumn[]) => void;
+
+  // Free-form notices from the server, only logged
+  'server-event': (data: unknown) => void;
+}
+
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
@@ -0,0 +1,86 @@
+import type { BoardSequence } from '../types/socketEvents';
+
+// Applies board events in the order of their seq (see server/boardState.js).
+//
+// An event that arrives after a gap is held back and the missing range is requested from the server,
+// which replays it (or sends a snapshot if it no longer has it). If the gap is still there after
+// RESYNC_TIMEOUT, a snapshot is requested instead. A snapshot (reset) drops whatever it already covers.
+
+const RESYNC_TIMEOUT = 5000;
+
+export interface SequencerRequests {
+  requestEvents: (since: BoardSequence) => void;
+  requestSnapshot: () => void;
+}
+
+export class BoardEventSequencer {
+  private position: BoardSequence | null = null;
+  private held = new Map<number, () => void>(); // seq -> apply, for events that arrived after a gap
+  private resyncTimer: ReturnType<typeof setTimeout> | null = null;
+  private requests: SequencerRequests;
+
+  constructor(requests: SequencerRequests) {
+    this.requests = requests;
+  }
+
+  // Last event applied, or null before the first snapshot
+  get current(): BoardSequence | null {
+    return this.position ? { ...this.position } : null;
+  }
+
+  // Start over from a snapshot (or from nothing, when switching boards)
+  reset(position: BoardSequence | null) {
+    this.position = position ? { ...position } : null;
+    if (!position) {
+      this.held.clear();
+      this.clearResyncTimer();
+    }
+    this.drain();
+  }
+
+  // Apply an event now if it is the next one, hold it if some before it are missing, drop it if already applied
+  receive(seq: number, apply: () => void) {
+    if (!this.position) {
+      apply(); // Nothing to order against until the snapshot arrives
+      return;
+    }
+    if (seq <= this.position.seq) return; // A replayed range can overlap what we already had
+    this.held.set(seq, apply);
+    this.drain();
+  }
+
+  private drain() {
+    const position = this.position;
+    if (!position) return;
+
+    this.held.forEach((_, seq) => {
+      if (seq <= position.seq) this.held.delete(seq);
+    });
+    let next = this.held.get(position.seq + 1);
+    while (next) {
+      this.held.delete(position.seq + 1);
+      position.seq++;
+      next();
+      next = this.held.get(position.seq + 1);
+    }
+
+    if (this.held.size === 0) {
+      this.clearResyncTimer();
+    } else if (!this.resyncTimer) {
+      console.warn(`[BoardEventSequencer] Missed board events after seq ${position.seq}; requesting them`);
+      this.requests.requestEvents({ ...position });
+      this.resyncTimer = setTimeout(() => {
+        this.resyncTimer = null;
+        console.warn('[BoardEventSequencer] Missed events did not arrive; requesting a snapshot');
+        this.requests.requestSnapshot();
+      }, RESYNC_TIMEOUT);
+    }
+  }
+
+  private clearResyncTimer() {
+    if (this.resyncTimer) {
+      clearTimeout(this.resyncTimer);
+      this.resyncTimer = null;
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import type { BoardRole } from '../types/socketEvents';
+
+// Mirrors server/boardRoles.js, which is what actually enforces them: roles from least to most trusted,
+// each allowed everything the ones before it are. The client only uses them to disable what the role forbids.
+export const BOARD_ROLES: BoardRole[] = ['viewer', 'commenter', 'editor', 'owner'];
+
+// Whether `role` (null: no access) is at least `required`
+export const hasRole = (role: BoardRole | null, required: BoardRole): boolean =>
+  role !== null && BOARD_ROLES.indexOf(role) >= BOARD_ROLES.indexOf(required);
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { blockedTasks, openBlockers, waitsOn } from './dependencies';
+import type { LinkedTask } from './dependencies';
+import { DEFAULT_WORKFLOW } from './workflow';
+
+const task = (id: string, status: string, blockedBy: string[] = []): LinkedTask => ({
+  id,
+  taskData: { title: id, status, description: '', checklist: [], activityLog: [], blockedBy }
+});
+
+// design <- build <- release, and release also waits on docs, which is done
+const tasks = [
+  task('design', 'In Progress'),
+  task('build', 'To Do', ['design']),
+  task('docs', 'Done'),
+  task('release', 'To Do', ['build', 'docs', 'deleted'])
+];
+
+describe('openBlockers', () => {
+  it('lists the blockers that are not in the last zone yet', () => {
+    expect(openBlockers(tasks[3].taskData, tasks, DEFAULT_WORKFLOW).map(({ id }) => id)).toEqual(['build']);
+    expect(openBlockers(tasks[0].taskData, tasks, DEFAULT_WORKFLOW)).toEqual([]);
+  });
+
+  it('ignores links to tasks that were deleted', () => {
+    const lonely = task('lonely', 'To Do', ['deleted']);
+    expect(openBlockers(lonely.taskData, tasks, DEFAULT_WORKFLOW)).toEqual([]);
+  });
+});
+
+describe('blockedTasks', () => {
+  it('lists the tasks that wait on a task', () => {
+    expect(blockedTasks('build', tasks).map(({ id }) => id)).toEqual(['release']);
+    expect(blockedTasks('release', tasks)).toEqual([]);
+  });
+});
+
+describe('waitsOn', () => {
+  it('follows links through other tasks', () => {
+    expect(waitsOn('release', 'build', tasks)).toBe(true);
+    expect(waitsOn('release', 'design', tasks)).toBe(true);
+    expect(waitsOn('design', 'release', tasks)).toBe(false);
+  });
+
+  it('stops at cycles', () => {
+    const cycle = [task('a', 'To Do', ['b']), task('b', 'To Do', ['a'])];
+    expect(waitsOn('a', 'c', cycle)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import type { TaskData } from '../App';
+import { isFinalStatus, type WorkflowZone } from './workflow';
+
+// Task dependencies: a task's blockedBy lists the sharedIds of the tasks it waits on, and it blocks the
+// tasks whose blockedBy lists it. Links to tasks that have been deleted stay in the list (undoing the
+// delete brings them back) but count for nothing. A blocker is open until it reaches the last zone.
+// server/boardState.js refuses new links that would make a task wait on itself, directly or through others.
+
+export interface LinkedTask {
+  id: string; // sharedId
+  taskData: TaskData;
+}
+
+// The blockers of a task that aren't finished yet
+export const openBlockers = (taskData: TaskData, tasks: LinkedTask[], workflow: WorkflowZone[]): LinkedTask[] =>
+  tasks.filter(task => taskData.blockedBy?.includes(task.id) && !isFinalStatus(workflow, task.taskData.status));
+
+// The tasks that wait on the task `id`
+export const blockedTasks = (id: string, tasks: LinkedTask[]): LinkedTask[] =>
+  tasks.filter(task => task.taskData.blockedBy?.includes(id));
+
+// Whether the task `id` waits on `blockerId`, directly or through other tasks (so `blockerId` can't wait on it)
+export const waitsOn = (id: string, blockerId: string, tasks: LinkedTask[]): boolean => {
+  const byId = new Map(tasks.map(task => [task.id, task.taskData]));
+  const seen = new Set<string>();
+  const pending = [id];
+  while (pending.length > 0) {
+    const current = pending.pop()!;
+    if (seen.has(current)) continue;
+    seen.add(current);
+    const blockers = byId.get(current)?.blockedBy ?? [];
+    if (blockers.includes(blockerId)) return true;
+    pending.push(...blockers);
+  }
+  return false;
+};
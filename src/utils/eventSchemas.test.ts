@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { validated } from './eventSchemas';
+
+describe('validated', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const message = {
+    id: 'msg_1',
+    sender: 'ada',
+    content: 'Hello',
+    timestamp: 1700000000000,
+    position: [0, 1, 2] as [number, number, number],
+    color: '#ff0000'
+  };
+
+  it('passes well-formed payloads to the listener', () => {
+    const listener = vi.fn();
+    validated('chat-message', listener)(message);
+    validated('board-seq', listener)({ seq: 4 });
+    expect(listener).toHaveBeenNthCalledWith(1, message);
+    expect(listener).toHaveBeenNthCalledWith(2, { seq: 4 });
+  });
+
+  it('drops and logs payloads with missing, mistyped or extra keys', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const listener = vi.fn();
+    const handler = validated('chat-message', listener);
+
+    const { sender, ...anonymous } = message;
+    expect(sender).toBe('ada');
+    handler(anonymous as typeof message);
+    handler({ ...message, timestamp: 'now' } as unknown as typeof message);
+    handler({ ...message, html: '<img onerror=alert(1)>' } as typeof message);
+    handler(null as unknown as typeof message);
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(warn).toHaveBeenCalledTimes(4);
+    expect(warn.mock.calls.map(([text]) => text)).toEqual([
+      "[eventSchemas] Dropped 'chat-message' from the server: sender must be a string of at most 200 characters",
+      "[eventSchemas] Dropped 'chat-message' from the server: timestamp must be a finite number",
+      "[eventSchemas] Dropped 'chat-message' from the server: html is not allowed",
+      "[eventSchemas] Dropped 'chat-message' from the server: payload must be an object"
+    ]);
+  });
+
+  it('drops events that come with more than one payload', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const listener = vi.fn();
+    const handler = validated('board-seq', listener) as (...args: unknown[]) => void;
+
+    handler({ seq: 1 }, { seq: 2 });
+    expect(listener).not.toHaveBeenCalled();
+    expect(warn.mock.calls[0][0]).toBe("[eventSchemas] Dropped 'board-seq' from the server: 'board-seq' takes a single payload");
+  });
+
+  it('checks the current state a rejected operation comes back with', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const listener = vi.fn();
+    const handler = validated('operation-rejected', listener);
+
+    handler({ operation: 'object-moved', reason: 'stale-version', objectId: 'shared_cube', currentState: null });
+    handler({ operation: 'object-moved', reason: 'stale-version', objectId: 'shared_cube', currentState: { id: 'shared_cube' } } as never);
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,356 @@
+import type { ServerToClientEvents } from '../types/socketEvents';
+import { MAX_ZONES } from './workflow';
+
+// Runtime checks for the payloads the server sends, one schema per event in ServerToClientEvents.
+// The server checks what clients send with server/eventSchemas.js - keep the two in step with the catalogue.
+//
+// A schema returns an error message, or null when the value is valid.
+// Objects are strict: keys a schema doesn't list are rejected.
+
+type Schema = (value: unknown, path: string) => string | null;
+
+const MAX_STRING = 10000;
+const MAX_AVATAR_URL = 100000; // A small image as a data: URL
+
+const describe = (path: string) => path || 'payload';
+
+const string = (maxLength = MAX_STRING): Schema => (value, path) =>
+  typeof value === 'string' && value.length <= maxLength
+    ? null
+    : `${describe(path)} must be a string of at most ${maxLength} characters`;
+
+const number = (): Schema => (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : `${describe(path)} must be a finite number`;
+
+const boolean = (): Schema => (value, path) =>
+  typeof value === 'boolean' ? null : `${describe(path)} must be a boolean`;
+
+// A calendar date, 'YYYY-MM-DD'
+const date = (): Schema => (value, path) =>
+  typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? null : `${describe(path)} must be a date like 2024-01-31`;
+
+const literal = (...values: unknown[]): Schema => (value, path) =>
+  values.includes(value) ? null : `${describe(path)} must be one of ${values.map(v => JSON.stringify(v)).join(', ')}`;
+
+const optional = (schema: Schema): Schema => (value, path) => (value === undefined ? null : schema(value, path));
+
+const nullable = (schema: Schema): Schema => (value, path) => (value === null ? null : schema(value, path));
+
+const arrayOf = (schema: Schema, maxLength = 1000): Schema => (value, path) => {
+  if (!Array.isArray(value) || value.length > maxLength) {
+    return `${describe(path)} must be an array of at most ${maxLength} items`;
+  }
+  for (let i = 0; i < value.length; i++) {
+    const error = schema(value[i], `${describe(path)}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const tuple = (...schemas: Schema[]): Schema => (value, path) => {
+  if (!Array.isArray(value) || value.length !== schemas.length) {
+    return `${describe(path)} must be an array of ${schemas.length} items`;
+  }
+  for (let i = 0; i < schemas.length; i++) {
+    const error = schemas[i](value[i], `${describe(path)}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+};
+
+const object = (shape: Record<string, Schema>): Schema => (value, path) => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return `${describe(path)} must be an object`;
+  const record = value as Record<string, unknown>;
+  const unknownKey = Object.keys(record).find(key => !(key in shape));
+  if (unknownKey) return `${path ? `${path}.` : ''}${unknownKey} is not allowed`;
+  for (const [key, schema] of Object.entries(shape)) {
+    const error = schema(record[key], path ? `${path}.${key}` : key);
+    if (error) return error;
+  }
+  return null;
+};
+
+// The first schema that accepts the value wins; otherwise the last schema's error is reported
+const oneOf = (...schemas: Schema[]): Schema => (value, path) => {
+  let error: string | null = null;
+  for (const schema of schemas) {
+    error = schema(value, path);
+    if (!error) return null;
+  }
+  return error;
+};
+
+const anything: Schema = () => null;
+
+// ---- Shared shapes ----
+
+const id = () => string(200);
+const vector3 = object({ x: number(), y: number(), z: number() });
+const rotation = object({
+  x: number(),
+  y: number(),
+  z: number(),
+  order: optional(literal('XYZ', 'YXZ', 'ZXY', 'ZYX', 'YZX', 'XZY'))
+});
+const position3 = tuple(number(), number(), number());
+const taskStatus = string(100); // The name of one of the board's zones
+const textField = literal('title', 'description');
+const boardRole = literal('viewer', 'commenter', 'editor', 'owner');
+
+const checklistItem = object({ id: id(), text: string(), completed: boolean() });
+
+const workflowZone = object({
+  id: id(),
+  name: string(100),
+  color: string(20),
+  width: number(),
+  depth: number(),
+  wipLimit: optional(nullable(number()))
+});
+const wipPolicy = literal('refuse', 'warn');
+const swimlane = object({ value: nullable(string(200)), label: string(100) });
+const boardLayout = {
+  workflow: arrayOf(workflowZone, MAX_ZONES),
+  wipPolicy,
+  swimlanes: nullable(literal('assignee', 'priority', 'label')),
+  lanes: arrayOf(swimlane, MAX_STRING)
+};
+
+const taskAssignee = object({ userId: id(), username: string(100) });
+const taskPriority = literal('low', 'medium', 'high', 'urgent');
+const taskLabel = string(50);
+
+const activityLogEntry = object({
+  timestamp: string(100),
+  userId: id(),
+  action: string(500),
+  details: optional(string())
+});
+
+const taskComment = object({
+  id: id(),
+  userId: id(),
+  username: optional(string(200)),
+  text: string(2000),
+  timestamp: string(100)
+});
+
+const taskData = object({
+  title: string(),
+  status: taskStatus,
+  description: string(),
+  checklist: arrayOf(checklistItem),
+  activityLog: arrayOf(activityLogEntry, MAX_STRING),
+  comments: optional(arrayOf(taskComment, MAX_STRING)),
+  assignees: optional(arrayOf(taskAssignee, 50)),
+  dueDate: optional(nullable(date())),
+  priority: optional(nullable(taskPriority)),
+  labels: optional(arrayOf(taskLabel, 20)),
+  blockedBy: optional(arrayOf(id(), 50))
+});
+
+const checklistUpdateAction = object({
+  action: literal('add', 'remove', 'toggle', 'editText'),
+  itemId: optional(id()),
+  item: optional(checklistItem),
+  newText: optional(string()),
+  completed: optional(boolean())
+});
+
+const textCrdtState = object({ chars: arrayOf(tuple(id(), string(2), boolean()), 100000) });
+
+const textOperation = oneOf(
+  object({ type: literal('insert'), id: id(), after: nullable(id()), value: string(2) }),
+  object({ type: literal('delete'), id: id() })
+);
+
+const boardObjectShape = {
+  sharedId: id(),
+  type: literal('cube', 'sphere', 'torus'),
+  position: vector3,
+  rotation,
+  scale: vector3,
+  color: number(),
+  taskData,
+  version: optional(number()),
+  text: optional(object({ title: optional(textCrdtState), description: optional(textCrdtState) })),
+  createdBy: optional(id())
+};
+const boardObject = object(boardObjectShape);
+
+const boardInfo = object({
+  id: id(),
+  name: optional(string(100)),
+  createdAt: string(100),
+  createdBy: optional(id()),
+  defaultRole: optional(nullable(boardRole))
+});
+
+// The type of a property change's value depends on the property
+const PROPERTY_VALUES: Record<string, Schema> = {
+  color: string(20),
+  scale: vector3,
+  taskStatus,
+  taskChecklistUpdate: oneOf(checklistUpdateAction, arrayOf(checklistItem)), // Undo sends the old checklist
+  taskAssignees: arrayOf(taskAssignee, 50),
+  taskDueDate: nullable(date()),
+  taskPriority: nullable(taskPriority),
+  taskLabels: arrayOf(taskLabel, 20),
+  taskBlockedBy: arrayOf(id(), 50)
+};
+
+const propertyUpdate: Schema = (value, path) => {
+  const error = object({
+    objectId: id(),
+    property: literal(...Object.keys(PROPERTY_VALUES)),
+    value: anything, // Checked below, once the property is known
+    userId: optional(id()),
+    activityLogEntry: optional(activityLogEntry),
+    fullTaskData: optional(taskData),
+    version: number(),
+    seq: number()
+  })(value, path);
+  if (error) return error;
+  const update = value as { property: string; value: unknown };
+  return PROPERTY_VALUES[update.property](update.value, 'value');
+};
+
+// The field a task dragged into another swimlane takes the lane's value for
+const laneField: Schema = (value, path) => {
+  const error = object({ property: literal('taskAssignees', 'taskPriority', 'taskLabels'), value: anything })(value, path);
+  if (error) return error;
+  const field = value as { property: string; value: unknown };
+  return PROPERTY_VALUES[field.property](field.value, `${describe(path)}.value`);
+};
+
+const kanbanCard = object({
+  id: id(),
+  title: string(),
+  description: string(),
+  status: string(200),
+  assignee: optional(string(200)),
+  color: string(20),
+  position: position3
+});
+
+const userData = object({
+  id: id(),
+  color: string(20),
+  username: optional(string(200)),
+  avatarUrl: optional(string(MAX_AVATAR_URL))
+});
+
+const user3D = object({ id: id(), username: string(200), position: position3, color: string(20), speaking: boolean() });
+
+// ---- Events ----
+
+const EVENT_SCHEMAS: Record<keyof ServerToClientEvents, Schema> = {
+  'board-snapshot': object({
+    objects: arrayOf(boardObject, MAX_STRING),
+    ...boardLayout,
+    epoch: string(100),
+    seq: number()
+  }),
+  'boards-updated': arrayOf(boardInfo, MAX_STRING),
+  'board-seq': object({ seq: number() }),
+  'board-role': object({ boardId: id(), role: nullable(boardRole) }),
+  'workflow-updated': object({
+    ...boardLayout,
+    objects: arrayOf(boardObject, MAX_STRING),
+    seq: number()
+  }),
+
+  'object-updated': object({
+    objectId: id(),
+    position: vector3,
+    rotation,
+    scale: vector3,
+    taskStatus: optional(taskStatus),
+    laneField: optional(laneField),
+    userId: optional(id()),
+    activityLogEntry: optional(activityLogEntry),
+    version: number(),
+    seq: number()
+  }),
+  'object-property-updated': propertyUpdate,
+  'object-created': object({ ...boardObjectShape, seq: number() }),
+  'object-deleted': object({ objectId: id(), seq: number() }),
+  'operation-rejected': object({
+    operation: literal('object-moved', 'object-property-changed', 'task-status-update', 'request-create-object'),
+    objectId: id(),
+    reason: literal('stale-version', 'not-found', 'missing-version', 'unknown-assignee', 'unknown-status', 'wip-limit', 'invalid-dependency'),
+    baseVersion: optional(number()),
+    currentState: nullable(boardObject)
+  }),
+  'invalid-payload': object({
+    success: literal(false),
+    error: literal('invalid-payload'),
+    event: string(200),
+    message: string()
+  }),
+  'permission-denied': object({
+    success: literal(false),
+    error: literal('forbidden'),
+    event: string(200),
+    message: string()
+  }),
+  'comment-added': object({ objectId: id(), comment: taskComment, seq: number() }),
+  'text-operations': object({
+    objectId: id(),
+    field: textField,
+    ops: arrayOf(textOperation, MAX_STRING),
+    userId: optional(id()),
+    seq: number()
+  }),
+  'text-selection-updated': object({
+    userId: id(),
+    username: optional(string(200)),
+    color: optional(string(20)),
+    selection: nullable(object({ objectId: id(), field: textField, start: nullable(id()), end: nullable(id()) }))
+  }),
+
+  'user-list-updated': arrayOf(userData, MAX_STRING),
+  'user-identity': object({
+    id: id(),
+    color: string(20),
+    username: optional(string(200)),
+    avatarUrl: optional(string(MAX_AVATAR_URL)),
+    guestToken: optional(string(200))
+  }),
+  'cursor-updated': object({ userId: id(), color: string(20), position: vector3 }),
+  'cursor-move': object({ userId: id(), x: number(), y: number() }),
+  'user-cursor-removed': object({ userId: id() }),
+
+  'chat-message': object({
+    id: id(),
+    sender: string(200),
+    content: string(2000),
+    timestamp: number(),
+    position: position3,
+    color: string(20)
+  }),
+  'users-update': arrayOf(user3D, MAX_STRING),
+  'kanban-update': arrayOf(object({ id: id(), title: string(200), position: position3, cards: arrayOf(kanbanCard) }), 50),
+
+  'server-event': anything
+};
+
+/**
+ * Wraps a listener for a server event so it only runs for well-formed payloads.
+ * Malformed events are dropped (and logged) instead of reaching the scene:
+ * `socket.on('object-created', validated('object-created', data => ...))`
+ */
+export const validated = <E extends keyof ServerToClientEvents>(
+  event: E,
+  listener: ServerToClientEvents[E]
+): ServerToClientEvents[E] => {
+  const check = EVENT_SCHEMAS[event];
+  return ((...args: Parameters<ServerToClientEvents[E]>) => {
+    const message = args.length > 1 ? `'${event}' takes a single payload` : check(args[0], '');
+    if (message) {
+      console.warn(`[eventSchemas] Dropped '${event}' from the server: ${message}`, args[0]);
+      return;
+    }
+    (listener as (...listenerArgs: Parameters<ServerToClientEvents[E]>) => void)(...args);
+  }) as ServerToClientEvents[E];
+};
@@ -0,0 +1,9 @@
+import type * as THREE from 'three';
+
+// Version to send as baseVersion with the next write to this object.
+// The local version is bumped straight away so consecutive writes don't have to wait for each ack.
+export const takeBaseVersion = (object: THREE.Object3D): number => {
+  const baseVersion: number = object.userData.version ?? 0;
+  object.userData.version = baseVersion + 1;
+  return baseVersion;
+};
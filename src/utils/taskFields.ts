@@ -0,0 +1,64 @@
+import type { TaskAssignee, TaskData, TaskPriority } from '../App';
+
+// Task fields that are set as a whole through property updates, each with the TaskData key it sets.
+// server/boardState.js applies them the same way.
+export const TASK_FIELD_PROPERTIES = {
+  taskAssignees: 'assignees',
+  taskDueDate: 'dueDate',
+  taskPriority: 'priority',
+  taskLabels: 'labels',
+  taskBlockedBy: 'blockedBy'
+} as const;
+
+export type TaskFieldProperty = keyof typeof TASK_FIELD_PROPERTIES;
+export type TaskFieldValue = TaskAssignee[] | string[] | string | null;
+
+export const TASK_PRIORITIES: TaskPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+export const isTaskFieldProperty = (property: string): property is TaskFieldProperty =>
+  property in TASK_FIELD_PROPERTIES;
+
+// The field's current value; unset fields read as empty
+export const getTaskField = (taskData: TaskData, property: TaskFieldProperty): TaskFieldValue => {
+  switch (property) {
+    case 'taskAssignees': return taskData.assignees ? taskData.assignees.map(assignee => ({ ...assignee })) : [];
+    case 'taskDueDate': return taskData.dueDate ?? null;
+    case 'taskPriority': return taskData.priority ?? null;
+    case 'taskLabels': return taskData.labels ? [...taskData.labels] : [];
+    case 'taskBlockedBy': return taskData.blockedBy ? [...taskData.blockedBy] : [];
+  }
+};
+
+export const setTaskField = (taskData: TaskData, property: TaskFieldProperty, value: TaskFieldValue): void => {
+  switch (property) {
+    case 'taskAssignees': taskData.assignees = Array.isArray(value) ? (value as TaskAssignee[]).map(assignee => ({ ...assignee })) : []; break;
+    case 'taskDueDate': taskData.dueDate = typeof value === 'string' ? value : null; break;
+    case 'taskPriority': taskData.priority = typeof value === 'string' ? value as TaskPriority : null; break;
+    case 'taskLabels': taskData.labels = Array.isArray(value) ? [...value as string[]] : []; break;
+    case 'taskBlockedBy': taskData.blockedBy = Array.isArray(value) ? [...value as string[]] : []; break;
+  }
+};
+
+const FIELD_LABELS: Record<TaskFieldProperty, string> = {
+  taskAssignees: 'assignees',
+  taskDueDate: 'due date',
+  taskPriority: 'priority',
+  taskLabels: 'labels',
+  taskBlockedBy: 'blockers'
+};
+
+// For the activity log: which field, and its value in words
+export const describeTaskField = (property: TaskFieldProperty, value: TaskFieldValue): { field: string; details: string } => {
+  let details: string;
+  if (property === 'taskBlockedBy' && Array.isArray(value)) {
+    // Blockers are task ids, which mean nothing in the log
+    details = value.length > 0 ? `${value.length} ${value.length === 1 ? 'task' : 'tasks'}` : 'none';
+  } else if (Array.isArray(value)) {
+    details = value.length > 0
+      ? value.map(item => (typeof item === 'string' ? item : item.username)).join(', ')
+      : 'none';
+  } else {
+    details = value || 'none';
+  }
+  return { field: FIELD_LABELS[property], details };
+};
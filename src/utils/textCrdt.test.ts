@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { TextCrdt } from './textCrdt';
+import type { TextOperation } from './textCrdt';
+
+const insert = (id: string, after: string | null, value: string): TextOperation => ({ type: 'insert', id, after, value });
+const remove = (id: string): TextOperation => ({ type: 'delete', id });
+
+describe('TextCrdt', () => {
+  it('merges concurrent edits into the same text on every replica', () => {
+    const alice = TextCrdt.fromText('ab', 'alice');
+    const bob = TextCrdt.fromText('ab', 'bob');
+    const fromAlice = alice.edit('1@seed', [], 'X');
+    const fromBob = bob.edit('1@seed', ['2@seed'], 'Z');
+
+    alice.apply(fromBob);
+    bob.apply(fromAlice);
+    expect(alice.text).toBe(bob.text);
+    expect(alice.toJSON()).toEqual(bob.toJSON());
+  });
+
+  it('keeps operations on characters not seen yet until those arrive', () => {
+    const doc = TextCrdt.fromText('a', 'local');
+    expect(doc.apply([insert('3@bob', '2@bob', 'c'), remove('2@bob')])).toBe(false);
+    expect(doc.apply([insert('2@bob', '1@seed', 'b')])).toBe(true);
+    expect(doc.text).toBe('ac');
+  });
+
+  it('drops the oldest waiting operations once too many wait', () => {
+    const doc = TextCrdt.fromText('a', 'local');
+    doc.apply(Array.from({ length: 1005 }, (_, index) => remove(`${index + 1}@bob`)));
+
+    // The deletes of 1@bob to 5@bob were dropped; the one of 6@bob still waited
+    doc.apply(Array.from({ length: 6 }, (_, index) => insert(`${index + 1}@bob`, '1@seed', 'x')));
+    expect(doc.text).toBe('axxxxx');
+  });
+});
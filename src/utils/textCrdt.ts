@@ -0,0 +1,223 @@
+import { v4 as uuidv4 } from 'uuid';
+import type * as THREE from 'three';
+
+// Character-wise sequence CRDT (RGA) for collaborative editing of task titles and descriptions.
+//
+// Every character has a unique id "<counter>@<site>" and is inserted after an existing character
+// (or at the start). Concurrent inserts after the same character are ordered by id, so replicas that
+// applied the same operations end up with the same text, whatever order they arrived in.
+// Deleted characters stay in the sequence as tombstones so later operations can still refer to them.
+//
+// The server keeps an equivalent implementation in server/textCrdt.js - keep the two in step.
+
+export type TaskTextField = 'title' | 'description';
+
+export const TASK_TEXT_FIELDS: TaskTextField[] = ['title', 'description'];
+
+export type TextOperation =
+  | { type: 'insert'; id: string; after: string | null; value: string }
+  | { type: 'delete'; id: string };
+
+// Serialized form sent by the server: characters in document order as [id, value, deleted]
+export interface TextCrdtState {
+  chars: [string, string, boolean][];
+}
+
+export type TaskTextDocs = Record<TaskTextField, TextCrdt>;
+
+// Site id for characters typed in this browser tab
+export const LOCAL_SITE_ID = uuidv4().slice(0, 8);
+
+// Site id for text that existed before it was edited collaboratively.
+// Both the server and the clients derive the same ids from the same string.
+const SEED_SITE_ID = 'seed';
+
+// Remote ops still waiting for a character beyond this are dropped, oldest first
+const MAX_PENDING_OPS = 1000;
+
+interface TextChar {
+  id: string;
+  value: string;
+  deleted: boolean;
+}
+
+const parseId = (id: string): { counter: number; site: string } => {
+  const at = id.indexOf('@');
+  return { counter: Number(id.slice(0, at)), site: id.slice(at + 1) };
+};
+
+// Higher counter wins; ties (concurrent inserts by different sites) are broken by site id
+const compareIds = (a: string, b: string): number => {
+  const idA = parseId(a);
+  const idB = parseId(b);
+  if (idA.counter !== idB.counter) return idA.counter - idB.counter;
+  if (idA.site === idB.site) return 0;
+  return idA.site > idB.site ? 1 : -1;
+};
+
+export class TextCrdt {
+  private chars: TextChar[] = [];
+  private charsById = new Map<string, TextChar>();
+  private counter = 0;
+  private pending: TextOperation[] = []; // Remote ops that refer to characters we haven't seen yet
+  private listeners = new Set<(origin: 'local' | 'remote') => void>();
+  private site: string;
+
+  constructor(site: string, state?: TextCrdtState) {
+    this.site = site;
+    state?.chars.forEach(([id, value, deleted]) => {
+      const char = { id, value, deleted };
+      this.chars.push(char);
+      this.charsById.set(id, char);
+      this.counter = Math.max(this.counter, parseId(id).counter);
+    });
+  }
+
+  // Build a document for a plain string, with the same ids the server gives it
+  static fromText(text: string, site: string = LOCAL_SITE_ID): TextCrdt {
+    const seed = new TextCrdt(SEED_SITE_ID);
+    let after: string | null = null;
+    Array.from(text).forEach((value, index) => {
+      const id = `${index + 1}@${SEED_SITE_ID}`;
+      seed.integrateInsert({ type: 'insert', id, after, value });
+      after = id;
+    });
+    return new TextCrdt(site, seed.toJSON());
+  }
+
+  get text(): string {
+    return this.chars.filter(char => !char.deleted).map(char => char.value).join('');
+  }
+
+  // Ids of the visible characters, in order (index i is the character at text position i)
+  visibleIds(): string[] {
+    return this.chars.filter(char => !char.deleted).map(char => char.id);
+  }
+
+  // Text position just after the given character; deleted characters map to where they used to be
+  positionAfter(id: string | null): number {
+    if (id === null) return 0;
+    let position = 0;
+    for (const char of this.chars) {
+      if (!char.deleted) position++;
+      if (char.id === id) return position;
+    }
+    return position;
+  }
+
+  // Local edit: delete the given characters and insert `text` after `after`.
+  // Returns the operations to send to everyone else.
+  edit(after: string | null, deleteIds: string[], text: string): TextOperation[] {
+    const ops: TextOperation[] = [];
+
+    deleteIds.forEach(id => {
+      const op: TextOperation = { type: 'delete', id };
+      if (this.integrateDelete(op)) ops.push(op);
+    });
+
+    let previous = after;
+    Array.from(text).forEach(value => {
+      const op: TextOperation = { type: 'insert', id: `${this.counter + 1}@${this.site}`, after: previous, value };
+      this.integrateInsert(op);
+      ops.push(op);
+      previous = op.id;
+    });
+
+    if (ops.length > 0) this.notify('local');
+    return ops;
+  }
+
+  // Apply operations received from another replica. Returns true if the text changed.
+  apply(ops: TextOperation[]): boolean {
+    let changed = false;
+    let queue = [...this.pending, ...ops];
+    this.pending = [];
+
+    // Keep retrying ops that are waiting for a character until no more progress is made
+    let progressed = true;
+    while (queue.length > 0 && progressed) {
+      progressed = false;
+      const waiting: TextOperation[] = [];
+      queue.forEach(op => {
+        const applied = op.type === 'insert' ? this.integrateInsert(op) : this.integrateDelete(op);
+        if (applied === null) {
+          waiting.push(op);
+        } else {
+          progressed = true;
+          changed = changed || applied;
+        }
+      });
+      queue = waiting;
+    }
+    this.pending = queue.slice(-MAX_PENDING_OPS);
+
+    if (changed) this.notify('remote');
+    return changed;
+  }
+
+  toJSON(): TextCrdtState {
+    return { chars: this.chars.map(char => [char.id, char.value, char.deleted]) };
+  }
+
+  // Called whenever the text changes; returns an unsubscribe function
+  subscribe(listener: (origin: 'local' | 'remote') => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(origin: 'local' | 'remote') {
+    this.listeners.forEach(listener => listener(origin));
+  }
+
+  // true if inserted, false if already present, null if `after` is unknown
+  private integrateInsert(op: Extract<TextOperation, { type: 'insert' }>): boolean | null {
+    if (this.charsById.has(op.id)) return false;
+
+    let position = 0;
+    if (op.after !== null) {
+      if (!this.charsById.has(op.after)) return null;
+      position = this.chars.findIndex(char => char.id === op.after) + 1;
+    }
+    // Skip characters inserted concurrently at the same spot with a higher id (and everything typed after them)
+    while (position < this.chars.length && compareIds(this.chars[position].id, op.id) > 0) {
+      position++;
+    }
+
+    const char = { id: op.id, value: op.value, deleted: false };
+    this.chars.splice(position, 0, char);
+    this.charsById.set(op.id, char);
+    this.counter = Math.max(this.counter, parseId(op.id).counter);
+    return true;
+  }
+
+  // true if deleted, false if already deleted, null if the character is unknown
+  private integrateDelete(op: Extract<TextOperation, { type: 'delete' }>): boolean | null {
+    const char = this.charsById.get(op.id);
+    if (!char) return null;
+    if (char.deleted) return false;
+    char.deleted = true;
+    return true;
+  }
+}
+
+// Text documents for a task's title and description, from the server's state when it sent one
+export const createTaskTextDocs = (
+  taskData: { title?: string; description?: string } | undefined,
+  state?: Partial<Record<TaskTextField, TextCrdtState>>
+): TaskTextDocs => {
+  const createDoc = (field: TaskTextField) => {
+    const fieldState = state?.[field];
+    return fieldState ? new TextCrdt(LOCAL_SITE_ID, fieldState) : TextCrdt.fromText(taskData?.[field] || '');
+  };
+  return { title: createDoc('title'), description: createDoc('description') };
+};
+
+// The title/description documents kept on a task object, created from its current strings if missing
+export const getTaskTextDocs = (object: THREE.Object3D): TaskTextDocs => {
+  if (!object.userData.textDocs) {
+    object.userData.textDocs = createTaskTextDocs(object.userData.taskData);
+  }
+  return object.userData.textDocs as TaskTextDocs;
+};
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WORKFLOW, isFinalStatus, layoutZones } from './workflow';
+import type { WorkflowZone } from './workflow';
+
+const zone = (name: string, width: number): WorkflowZone => ({ id: name.toLowerCase(), name, color: '#90ee90', width, depth: 4 });
+
+describe('layoutZones', () => {
+  it('puts the zones side by side, centred on the origin, as the server does', () => {
+    expect(layoutZones(DEFAULT_WORKFLOW)).toEqual([-4, 0, 4]);
+    expect(layoutZones([zone('A', 2), zone('B', 6)])).toEqual([-3.5, 1.5]);
+    expect(layoutZones([])).toEqual([]);
+  });
+});
+
+describe('isFinalStatus', () => {
+  it('counts tasks in the last zone as finished, whatever it is called', () => {
+    expect(isFinalStatus(DEFAULT_WORKFLOW, 'Done')).toBe(true);
+    expect(isFinalStatus(DEFAULT_WORKFLOW, 'In Progress')).toBe(false);
+    expect(isFinalStatus([zone('Backlog', 3), zone('Shipped', 3)], 'Shipped')).toBe(true);
+    expect(isFinalStatus([zone('Backlog', 3), zone('Shipped', 3)], 'Done')).toBe(false);
+    expect(isFinalStatus([], 'Done')).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import type { TaskData } from '../App';
+import { getTaskField, type TaskFieldProperty, type TaskFieldValue } from './taskFields';
+
+// A board's workflow: the zones (columns) its tasks move through, left to right on the board.
+// A task's status is the name of the zone it is in. The id of a zone stays the same when it is renamed,
+// recolored, resized or moved. Mirrors server/workflow.js, which checks the workflows owners send.
+//
+// A zone's WIP (work in progress) limit is how many tasks it is meant to hold at most. The board's WipPolicy
+// says what happens to a move that would put one more in a zone at its limit.
+//
+// Swimlanes (optional) split the board the other way, along z, grouping the tasks by their first assignee,
+// their priority or their first label; each task sits in the cell for its status × lane. The server works
+// the lanes out from the tasks and sends them with the workflow. While a board has lanes, every zone is as
+// deep as all of them together.
+
+export interface WorkflowZone {
+  id: string;
+  name: string;
+  color: string; // '#rrggbb'
+  width: number; // Along x
+  depth: number; // Along z
+  wipLimit?: number | null; // null or missing: no limit
+}
+
+export type SwimlaneGrouping = 'assignee' | 'priority' | 'label';
+
+export interface Swimlane {
+  value: string | null; // The assignee's userId, the priority or the label; null for the tasks with none
+  label: string;
+}
+
+// The field a task dragged into another lane takes the lane's value for, and that value
+export interface LaneField {
+  property: TaskFieldProperty;
+  value: TaskFieldValue;
+}
+
+// refuse: such moves are refused (by the server too); warn: they go ahead and the zone shows it is over its limit
+export type WipPolicy = 'refuse' | 'warn';
+
+export const MAX_ZONES = 12;
+export const MIN_ZONE_SIZE = 1;
+export const MAX_ZONE_SIZE = 20;
+export const MAX_WIP_LIMIT = 1000;
+export const DEFAULT_WIP_POLICY: WipPolicy = 'warn';
+export const LANE_DEPTH = 2.5;
+const ZONE_GAP = 1;
+
+// The task field each grouping reads
+export const LANE_PROPERTIES: Record<SwimlaneGrouping, TaskFieldProperty> = {
+  assignee: 'taskAssignees',
+  priority: 'taskPriority',
+  label: 'taskLabels'
+};
+
+// The workflow of boards whose owners haven't changed it
+export const DEFAULT_WORKFLOW: WorkflowZone[] = [
+  { id: 'todo', name: 'To Do', color: '#ff6347', width: 3, depth: 4 },
+  { id: 'in-progress', name: 'In Progress', color: '#ffd700', width: 3, depth: 4 },
+  { id: 'done', name: 'Done', color: '#90ee90', width: 3, depth: 4 }
+];
+
+// The x coordinate of each zone's centre, in order: side by side, ZONE_GAP apart, centred on the origin
+export const layoutZones = (zones: WorkflowZone[]): number[] => {
+  const total = zones.reduce((sum, zone) => sum + zone.width, 0) + ZONE_GAP * Math.max(zones.length - 1, 0);
+  let left = -total / 2;
+  return zones.map(zone => {
+    const x = left + zone.width / 2;
+    left += zone.width + ZONE_GAP;
+    return x;
+  });
+};
+
+// Tasks in the last zone count as finished (they are never overdue, for instance)
+export const isFinalStatus = (zones: WorkflowZone[], status: string): boolean =>
+  zones.length > 0 && zones[zones.length - 1].name === status;
+
+// The value of the lane a task belongs in, or null for the last lane
+export const laneValue = (grouping: SwimlaneGrouping, taskData: TaskData): string | null => {
+  switch (grouping) {
+    case 'assignee': return taskData.assignees?.[0]?.userId ?? null;
+    case 'priority': return taskData.priority ?? null;
+    case 'label': return taskData.labels?.[0] ?? null;
+  }
+};
+
+// The z coordinate of each lane's centre, in order: front to back, centred on the origin
+export const layoutLanes = (lanes: Swimlane[]): number[] => {
+  const front = -(lanes.length * LANE_DEPTH) / 2;
+  return lanes.map((_, index) => front + LANE_DEPTH * (index + 0.5));
+};
+
+// Which lane the point at `z` is in, or -1
+export const laneAt = (lanes: Swimlane[], z: number): number => {
+  const centres = layoutLanes(lanes);
+  return centres.findIndex(centre => Math.abs(z - centre) <= LANE_DEPTH / 2);
+};
+
+// The field a task dropped at `z` gets, before and after, if that puts it in another lane: its lane's
+// assignee or label goes first (others keep theirs), or its priority becomes the lane's. The last lane
+// clears the field. Null if the board has no lanes or the task stays in its own.
+export const laneFieldChange = (
+  grouping: SwimlaneGrouping | null,
+  lanes: Swimlane[],
+  taskData: TaskData,
+  z: number
+): { oldLaneField: LaneField; newLaneField: LaneField } | null => {
+  const lane = grouping ? lanes[laneAt(lanes, z)] : undefined;
+  if (!grouping || !lane || lane.value === laneValue(grouping, taskData)) return null;
+
+  const property = LANE_PROPERTIES[grouping];
+  let value: TaskFieldValue;
+  if (grouping === 'assignee') {
+    const others = (taskData.assignees ?? []).filter(assignee => assignee.userId !== lane.value);
+    value = lane.value === null ? [] : [{ userId: lane.value, username: lane.label }, ...others];
+  } else if (grouping === 'label') {
+    const others = (taskData.labels ?? []).filter(label => label !== lane.value);
+    value = lane.value === null ? [] : [lane.value, ...others];
+  } else {
+    value = lane.value;
+  }
+  return { oldLaneField: { property, value: getTaskField(taskData, property) }, newLaneField: { property, value } };
+};